@@ -0,0 +1,101 @@
+import { jest } from '@jest/globals';
+import { Matrix } from './matrix_ops';
+import { analyze, format_table, parse_shapes } from './bench';
+import { encode_scale } from './quantization';
+
+import { Field, Provable } from 'o1js';
+
+jest.useFakeTimers();
+
+describe('Constraint estimates', () => {
+
+    it('should count the rows of the operation circuit', async () => {
+
+        let A = Matrix.Typed(4, 6);
+        let B = Matrix.Typed(6, 3);
+        let { rows } = await Provable.constraintSystem(() => {
+            let a = Provable.witness(A, () => A.empty());
+            let b = Provable.witness(B, () => B.empty());
+            a.mul(b);
+        });
+        expect(await Matrix.estimate_rows('mul', [[4, 6], [6, 3]])).toEqual(rows);
+
+        let scale = encode_scale(0.05);
+        let Q = Matrix.Typed(3, 3, { bits: 8, scale });
+        let quantized = await Provable.constraintSystem(() => {
+            let a = Provable.witness(Q, () => Q.empty());
+            let b = Provable.witness(Q, () => Q.empty());
+            a.add(b, { zero_point: Field(128), scale, dtype: 'uint8' });
+        });
+        expect(await Matrix.estimate_rows('add', [[3, 3], [3, 3]], 'quantized')).toEqual(quantized.rows);
+
+        // Requantization and range checks dominate the cost of quantized products.
+        let field = await Matrix.estimate_rows('mul', parse_shapes('mul', '4x4x4'));
+        expect(await Matrix.estimate_rows('mul', parse_shapes('mul', '4x4x4'), 'quantized')).toBeGreaterThan(4 * field);
+
+    });
+
+    it('should report gate types', async () => {
+
+        let result = await analyze('relu', [[2, 4]], 'fixed_point');
+        expect(result.rows).toBeGreaterThan(0);
+        expect(Object.values(result.gates).reduce((a, b) => a + b)).toEqual(result.rows);
+        expect(result.compile_ms).toBeUndefined();
+
+    });
+
+    it('should parse shapes and reject unsupported operations', async () => {
+
+        expect(parse_shapes('mul', '2x3x4')).toEqual([[2, 3], [3, 4]]);
+        expect(parse_shapes('dense', '1x16x8')).toEqual([[1, 16], [16, 8], [1, 8]]);
+        expect(parse_shapes('add', '5x2')).toEqual([[5, 2], [5, 2]]);
+        expect(parse_shapes('inverse', '6x6')).toEqual([[6, 6]]);
+
+        expect(() => parse_shapes('mul', '8x8')).toThrow("Invalid shape '8x8' for mul, expected MxKxN");
+        expect(() => parse_shapes('inverse', '4x5')).toThrow("Invalid shape '4x5' for inverse, expected NxN");
+        expect(() => parse_shapes('add', '0x2')).toThrow("Invalid shape '0x2' for add, expected RxC");
+        expect(() => parse_shapes('lu', '4x4')).toThrow("Unknown operation 'lu'");
+
+        await expect(Matrix.estimate_rows('inverse', [[4, 4]], 'quantized')).rejects.toThrow(
+            'inverse does not support the quantized mode, expected one of field'
+        );
+        await expect(Matrix.estimate_rows('mul', [[2, 2]])).rejects.toThrow('mul expects 2 operands, got 1');
+        await expect(Matrix.estimate_rows('mul', [[2, 3], [2, 3]])).rejects.toThrow(
+            'Cannot multiply a 2x3 matrix with a 2x3 matrix'
+        );
+
+    });
+
+    it('should format results as a Markdown table', async () => {
+
+        let table = format_table([
+            { op: 'mul', mode: 'field', shapes: [[8, 8], [8, 8]], rows: 257, gates: { Generic: 257 } },
+            {
+                op: 'relu',
+                mode: 'quantized',
+                shapes: [[8, 8]],
+                rows: 970,
+                gates: { Generic: 842, EndoMulScalar: 128 },
+                compile_ms: 12345,
+                prove_ms: 6789,
+                verify_ms: 1000,
+            },
+        ]);
+        expect(table.split('\n')).toEqual([
+            '| Operation | Shapes | Mode | Rows | Gates | Compile | Prove | Verify |',
+            '| --------- | ------ | ---- | ---- | ----- | ------- | ----- | ------ |',
+            '| mul | 8x8, 8x8 | field | 257 | Generic 257 | - | - | - |',
+            '| relu | 8x8 | quantized | 970 | Generic 842, EndoMulScalar 128 | 12.35s | 6.79s | 1.00s |',
+            '',
+        ]);
+
+        let rows_only = format_table([{ op: 'inverse', mode: 'field', shapes: [[8, 8]], rows: 481, gates: { Generic: 481 } }]);
+        expect(rows_only).toEqual(
+            '| Operation | Shapes | Mode | Rows | Gates |\n' +
+                '| --------- | ------ | ---- | ---- | ----- |\n' +
+                '| inverse | 8x8 | field | 481 | Generic 481 |\n'
+        );
+
+    });
+
+});
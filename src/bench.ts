@@ -0,0 +1,348 @@
+/*
+ * bench.ts
+ *
+ * Constraint counts and benchmarks of Matrix operations, for budgeting circuits before compiling
+ * them. run_bench.ts is the command-line front end, and Matrix.estimate_rows exposes the row count.
+ *
+ * Every operation is registered in OPERATIONS with the operand shapes it takes, the modes it
+ * supports and how to apply it. Operands are private inputs of the operation's provable types, so
+ * the counts include the range checks of quantized and fixed-point inputs, as in a ZkProgram:
+ *
+ * - field: Plain field elements, without range checks.
+ * - quantized: uint8 operands with a static scale; results are requantized to uint8.
+ * - fixed_point: Signed fixed-point operands with 16 fractional bits in 48 bits.
+ *
+ * Row counts are computed without compiling. benchmark additionally compiles a ZkProgram for the
+ * operation, and proves and verifies it on sample operands.
+ */
+
+import { Field, Provable, ZkProgram } from 'o1js';
+import { Matrix, ProvableMatrix, Shape } from './matrix_ops.js';
+import { QuantParams, encode_scale } from './quantization.js';
+import { FixedPointConfig, encode_fixed } from './fixed_point.js';
+
+/** Operations that can be benchmarked, see OPERATIONS. */
+export type BenchOp =
+  | 'add'
+  | 'sub'
+  | 'hadamard_product'
+  | 'mul'
+  | 'mul_verified'
+  | 'determinant'
+  | 'inverse'
+  | 'dense'
+  | 'relu'
+  | 'softmax';
+
+/** Data representations of the operands, see the module comment. */
+export type BenchMode = 'field' | 'quantized' | 'fixed_point';
+
+/**
+ * An operation that can be benchmarked.
+ *
+ * - dims: How the dimensions of a --shape argument are written, such as 'MxKxN'.
+ * - modes: The supported modes.
+ * - shapes: The operand shapes for the dimensions of a --shape argument.
+ * - apply: Applies the operation to the operands.
+ */
+export interface BenchOperation {
+  dims: 'RxC' | 'NxN' | 'MxKxN';
+  modes: BenchMode[];
+  shapes: (dims: number[]) => Shape[];
+  apply: (inputs: Matrix[], mode: BenchMode) => void;
+}
+
+/**
+ * The constraint count of an operation, and the times in milliseconds to compile, prove and verify
+ * it when measured by benchmark.
+ */
+export interface BenchResult {
+  op: BenchOp;
+  mode: BenchMode;
+  shapes: Shape[];
+  rows: number;
+  gates: Record<string, number>;
+  compile_ms?: number;
+  prove_ms?: number;
+  verify_ms?: number;
+}
+
+/** Fixed-point format of operands in the fixed_point mode. */
+const BENCH_FIXED: FixedPointConfig = { frac_bits: 16, total_bits: 48 };
+
+/** Scale of quantized operands and outputs. */
+const BENCH_SCALE = encode_scale(0.05);
+
+/** Quantization parameters of the results in the quantized mode. */
+const BENCH_OUT: QuantParams = { zero_point: Field(128), scale: BENCH_SCALE, dtype: 'uint8' };
+
+const ALL_MODES: BenchMode[] = ['field', 'quantized', 'fixed_point'];
+
+/** The operations that can be benchmarked, by name. */
+export const OPERATIONS: Record<BenchOp, BenchOperation> = {
+  add: {
+    dims: 'RxC',
+    modes: ALL_MODES,
+    shapes: ([r, c]) => [[r, c], [r, c]],
+    apply: ([a, b], mode) => a.add(b, requantize(mode)),
+  },
+  sub: {
+    dims: 'RxC',
+    modes: ALL_MODES,
+    shapes: ([r, c]) => [[r, c], [r, c]],
+    apply: ([a, b], mode) => a.sub(b, requantize(mode)),
+  },
+  hadamard_product: {
+    dims: 'RxC',
+    modes: ALL_MODES,
+    shapes: ([r, c]) => [[r, c], [r, c]],
+    apply: ([a, b], mode) => a.hadamard_product(b, requantize(mode)),
+  },
+  mul: {
+    dims: 'MxKxN',
+    modes: ALL_MODES,
+    shapes: ([m, k, n]) => [[m, k], [k, n]],
+    apply: ([a, b], mode) => a.mul(b, requantize(mode)),
+  },
+  mul_verified: {
+    dims: 'MxKxN',
+    modes: ['field'],
+    shapes: ([m, k, n]) => [[m, k], [k, n]],
+    apply: ([a, b]) => a.mul_verified(b),
+  },
+  determinant: {
+    dims: 'NxN',
+    modes: ['field'],
+    shapes: ([n]) => [[n, n]],
+    apply: ([a]) => a.determinant(),
+  },
+  inverse: {
+    dims: 'NxN',
+    modes: ['field'],
+    shapes: ([n]) => [[n, n]],
+    apply: ([a]) => a.inverse(),
+  },
+  dense: {
+    dims: 'MxKxN',
+    modes: ALL_MODES,
+    shapes: ([m, k, n]) => [[m, k], [k, n], [1, n]],
+    apply: ([x, w, b], mode) => x.dense(w, b, requantize(mode)),
+  },
+  relu: {
+    dims: 'RxC',
+    modes: ['quantized', 'fixed_point'],
+    shapes: ([r, c]) => [[r, c]],
+    apply: ([a]) => a.relu(),
+  },
+  softmax: {
+    dims: 'RxC',
+    modes: ['quantized', 'fixed_point'],
+    shapes: ([r, c]) => [[r, c]],
+    apply: ([a], mode) => a.softmax(requantize(mode)),
+  },
+};
+
+/**
+ * Parses the dimensions of a --shape argument, such as '8x8x8' for a product.
+ *
+ * @param op - The operation.
+ * @param text - The dimensions, separated by 'x'.
+ * @returns The operand shapes.
+ * @throws Error if the operation is unknown or the dimensions do not match its pattern.
+ */
+export function parse_shapes(op: string, text: string): Shape[] {
+  let operation = get_operation(op);
+  let dims = text.split('x').map(Number);
+  let pattern = operation.dims.split('x');
+  let valid = dims.length === pattern.length && dims.every((d) => Number.isInteger(d) && d > 0);
+  if (!valid || (operation.dims === 'NxN' && dims[0] !== dims[1])) {
+    throw new Error(`Invalid shape '${text}' for ${op}, expected ${operation.dims}`);
+  }
+  return operation.shapes(dims);
+}
+
+/**
+ * Counts the constraints of an operation on private operands, without compiling a circuit.
+ *
+ * @param op - The operation.
+ * @param shapes - The operand shapes.
+ * @param mode - The data representation of the operands.
+ * @returns The number of rows and the number of gates of every type.
+ * @throws Error if the operation is unknown, does not support the mode, or the shapes do not fit.
+ */
+export async function analyze(op: BenchOp, shapes: Shape[], mode: BenchMode): Promise<BenchResult> {
+  let types = operand_types(op, shapes, mode);
+  let operation = OPERATIONS[op];
+  let cs = await Provable.constraintSystem(() => {
+    let inputs = types.map((type) => Provable.witness(type, () => type.empty()));
+    operation.apply(inputs, mode);
+  });
+  let { 'Total rows': _, ...gates } = cs.summary();
+  return { op, mode, shapes, rows: cs.rows, gates: gates as Record<string, number> };
+}
+
+/**
+ * Compiles a ZkProgram for an operation, and proves and verifies it on sample operands.
+ *
+ * @param op - The operation.
+ * @param shapes - The operand shapes.
+ * @param mode - The data representation of the operands.
+ * @returns The constraint count and the compile, prove and verify times.
+ * @throws Error if the operation is unknown, does not support the mode, or the shapes do not fit.
+ */
+export async function benchmark(op: BenchOp, shapes: Shape[], mode: BenchMode): Promise<BenchResult> {
+  let result = await analyze(op, shapes, mode);
+  // Every operation has at least one operand.
+  let types = operand_types(op, shapes, mode) as [ProvableMatrix, ...ProvableMatrix[]];
+  let operation = OPERATIONS[op];
+  let program = ZkProgram({
+    name: `bench-${op}-${mode}`,
+    methods: {
+      run: {
+        privateInputs: types,
+        async method(...inputs: Matrix[]) {
+          operation.apply(inputs, mode);
+        },
+      },
+    },
+  });
+
+  let start = performance.now();
+  await program.compile({ forceRecompile: true });
+  result.compile_ms = performance.now() - start;
+
+  let inputs = shapes.map((shape, k) => sample_matrix(shape, mode, k)) as [Matrix, ...Matrix[]];
+  start = performance.now();
+  let { proof } = await program.run(...inputs);
+  result.prove_ms = performance.now() - start;
+
+  start = performance.now();
+  let ok = await program.verify(proof);
+  result.verify_ms = performance.now() - start;
+  if (!ok) {
+    throw new Error(`The ${op} proof did not verify`);
+  }
+  return result;
+}
+
+/**
+ * Formats results as a Markdown table, as in the README. The time columns are left out if no
+ * result was timed.
+ *
+ * @param results - The results.
+ * @returns The table, ending with a newline.
+ */
+export function format_table(results: BenchResult[]): string {
+  let timed = results.some((result) => result.compile_ms !== undefined);
+  let header = ['Operation', 'Shapes', 'Mode', 'Rows', 'Gates', ...(timed ? ['Compile', 'Prove', 'Verify'] : [])];
+  let lines = [table_row(header), table_row(header.map((title) => '-'.repeat(title.length)))];
+  for (let result of results) {
+    let shapes = result.shapes.map(([r, c]) => `${r}x${c}`).join(', ');
+    let gates = Object.entries(result.gates)
+      .map(([gate, count]) => `${gate} ${count}`)
+      .join(', ');
+    let cells = [result.op, shapes, result.mode, `${result.rows}`, gates];
+    if (timed) cells.push(...[result.compile_ms, result.prove_ms, result.verify_ms].map(format_time));
+    lines.push(table_row(cells));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Looks up an operation by name.
+ *
+ * @param op - The name of the operation.
+ * @returns The operation.
+ * @throws Error if there is no such operation.
+ */
+function get_operation(op: string): BenchOperation {
+  if (!Object.prototype.hasOwnProperty.call(OPERATIONS, op)) {
+    throw new Error(`Unknown operation '${op}', expected one of ${Object.keys(OPERATIONS).join(', ')}`);
+  }
+  return OPERATIONS[op as BenchOp];
+}
+
+/**
+ * Returns the provable types of the operands of an operation.
+ *
+ * @param op - The operation.
+ * @param shapes - The operand shapes.
+ * @param mode - The data representation of the operands.
+ * @returns One provable matrix type per operand.
+ * @throws Error if the operation is unknown, does not support the mode or gets the wrong number of operands.
+ */
+function operand_types(op: BenchOp, shapes: Shape[], mode: BenchMode): ProvableMatrix[] {
+  let operation = get_operation(op);
+  if (!operation.modes.includes(mode)) {
+    throw new Error(`${op} does not support the ${mode} mode, expected one of ${operation.modes.join(', ')}`);
+  }
+  let arity = operation.shapes(operation.dims.split('x').map(() => 1)).length;
+  if (shapes.length !== arity) {
+    throw new Error(`${op} expects ${arity} operands, got ${shapes.length}`);
+  }
+  return shapes.map(([rows, cols], k) => {
+    if (mode === 'fixed_point') return Matrix.Typed(rows, cols, { fixed_point: BENCH_FIXED });
+    // Quantized biases are plain integers.
+    if (mode === 'quantized' && !(op === 'dense' && k === 2)) {
+      return Matrix.Typed(rows, cols, { bits: 8, scale: BENCH_SCALE });
+    }
+    return Matrix.Typed(rows, cols);
+  });
+}
+
+/**
+ * Creates sample operands to prove an operation on. Square field matrices are diagonally dominant,
+ * and hence invertible.
+ *
+ * @param shape - The shape of the operand.
+ * @param mode - The data representation of the operand.
+ * @param index - The position of the operand, to vary the values between operands.
+ * @returns A new Matrix instance.
+ */
+function sample_matrix(shape: Shape, mode: BenchMode, index: number): Matrix {
+  let [rows, cols] = shape;
+  let small: number[] = [];
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) {
+      small.push(i === j ? 4 * Math.max(rows, cols) : ((i + 2 * j + index) % 5) - 2);
+    }
+  }
+  if (mode === 'fixed_point') {
+    return Matrix.from_fixed_point(small.map((x) => encode_fixed(x / 16, BENCH_FIXED)), shape, BENCH_FIXED);
+  }
+  if (mode === 'quantized') {
+    let values = small.map((x) => Field((128 + 9 * x) & 0xff));
+    return new Matrix(values, shape, Field(128), BENCH_SCALE);
+  }
+  return new Matrix(small.map((x) => Field(x)), shape, Field(0), Field(1));
+}
+
+/**
+ * Returns the output quantization parameters of an operation in a mode.
+ *
+ * @param mode - The data representation of the operands.
+ * @returns BENCH_OUT in the quantized mode, undefined otherwise.
+ */
+function requantize(mode: BenchMode): QuantParams | undefined {
+  return mode === 'quantized' ? BENCH_OUT : undefined;
+}
+
+/**
+ * Formats a row of a Markdown table.
+ *
+ * @param cells - The cells of the row.
+ * @returns The row.
+ */
+function table_row(cells: string[]): string {
+  return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * Formats a duration for format_table.
+ *
+ * @param ms - The duration in milliseconds, if measured.
+ * @returns The duration in seconds, or '-'.
+ */
+function format_time(ms: number | undefined): string {
+  return ms === undefined ? '-' : `${(ms / 1000).toFixed(2)}s`;
+}
@@ -0,0 +1,104 @@
+import { jest } from '@jest/globals';
+import { Matrix } from './matrix_ops';
+import { encode_scale } from './quantization';
+import { calibrate, dequantize, quantization_error, quantize, quantize_rows } from './calibration';
+import { fields } from './test_utils';
+
+import { Field } from 'o1js';
+
+jest.useFakeTimers();
+
+describe('Quantization calibration', () => {
+
+    it('should calibrate asymmetric and symmetric ranges', async () => {
+
+        let values = [-1, 0.5, 2, 4];
+
+        // The range [-1, 4] spans 255 steps of 5 / 255, with real zero at 51.
+        let asymmetric = calibrate(values);
+        expect(asymmetric.scale).toBeCloseTo(5 / 255, 9);
+        expect(asymmetric.zero_point).toEqual(51);
+        expect(asymmetric.dtype).toEqual('uint8');
+
+        let symmetric = calibrate(values, { symmetric: true, dtype: 'int8' });
+        expect(symmetric.scale).toBeCloseTo(4 / 127, 9);
+        expect(symmetric.zero_point).toEqual(0);
+        expect(calibrate(values, { symmetric: true }).zero_point).toEqual(128);
+
+        // Positive data still represents zero exactly.
+        expect(calibrate([2, 3, 5]).zero_point).toEqual(0);
+        expect(calibrate([0, 0]).scale).toEqual(1);
+
+        expect(() => calibrate([])).toThrow('Cannot calibrate an empty array');
+        expect(() => calibrate([1, NaN])).toThrow('Cannot calibrate non-finite value NaN');
+        expect(() => calibrate(values, { method: 'percentile', percentile: 40 })).toThrow(
+            'Percentile must be in (50, 100], got 40'
+        );
+
+    });
+
+    it('should ignore outliers with percentile calibration', async () => {
+
+        let values = Array.from({ length: 101 }, (_, k) => k / 100 - 0.5);
+        values[100] = 100;
+
+        let minmax = calibrate(values);
+        let clipped = calibrate(values, { method: 'percentile', percentile: 99 });
+        expect(clipped.scale).toBeLessThan(minmax.scale / 50);
+
+        // The outlier is clamped, the other values stay within half a step.
+        let matrix = quantize(values, [1, 101], { method: 'percentile', percentile: 99 });
+        let real = dequantize(matrix);
+        expect(real[100]).toBeCloseTo(clipped.scale * (255 - clipped.zero_point), 9);
+        let errors = real.slice(1, 100).map((x, k) => Math.abs(x - values[k + 1]));
+        expect(Math.max(...errors)).toBeLessThanOrEqual(clipped.scale / 2 + 1e-12);
+        expect(quantization_error(matrix, values).within).toBe(false);
+
+    });
+
+    it('should quantize per tensor and per row', async () => {
+
+        let values = [0.1, -0.2, 0.3, 10, 20, -30];
+        let matrix = quantize(values, [2, 3], { symmetric: true, dtype: 'int8' });
+        expect(matrix.shape).toEqual([2, 3]);
+        expect(matrix.zero_point).toEqual(Field(0));
+        expect(matrix.values.slice(3)).toEqual(fields([42, 85, -127]));
+
+        let rows = quantize_rows(values, [2, 3], { symmetric: true, dtype: 'int8' });
+        expect(rows.map((row) => row.shape)).toEqual([[1, 3], [1, 3]]);
+        expect(rows[0].values).toEqual(fields([42, -85, 127]));
+        expect(rows[1].values).toEqual(matrix.values.slice(3));
+
+        // Per-row scales keep the small row accurate.
+        let per_tensor = quantization_error(matrix, values);
+        let per_row = rows.map((row, i) => quantization_error(row, values.slice(3 * i, 3 * i + 3)));
+        expect(per_tensor.within && per_row.every((report) => report.within)).toBe(true);
+        expect(per_row[0].max_error).toBeLessThan(per_tensor.max_error / 50);
+
+        expect(() => quantize_rows(values, [3, 3])).toThrow('Values length does not match the shape');
+
+    });
+
+    it('should compare proven outputs with float references', async () => {
+
+        // A product requantized in a circuit, checked against the float product.
+        let a = quantize([0.5, -1, 1.5, 2], [2, 2]);
+        let b = quantize([1, 0.25, -0.5, 1], [2, 2]);
+        let out = calibrate([-1, 3.5]);
+        let product = a.mul(b, { zero_point: Field(out.zero_point), scale: encode_scale(out.scale) });
+        let reference = [1, -0.875, 0.5, 2.375];
+
+        let report = quantization_error(product, reference);
+        expect(report.error_bound).toBeCloseTo(out.scale / 2, 12);
+        expect(report.max_error).toBeLessThan(4 * out.scale);
+        expect(quantization_error(product, reference, 4 * out.scale).within).toBe(true);
+        expect(report.mean_error).toBeLessThanOrEqual(report.max_error);
+
+        let plain = new Matrix(fields([1, -2]), [1, 2], Field(0), Field(1));
+        expect(dequantize(plain)).toEqual([1, -2]);
+        expect(quantization_error(plain, [1, -2])).toEqual({ max_error: 0, mean_error: 0, error_bound: 0, within: true });
+        expect(() => quantization_error(plain, [1])).toThrow('Expected 2 reference values, got 1');
+
+    });
+
+});
@@ -0,0 +1,228 @@
+/*
+ * calibration.ts
+ *
+ * Off-chain calibration of quantization parameters from real data, and the inverse conversion to
+ * check proven outputs against a float reference.
+ *
+ * calibrate chooses the scale and zero point of a uint8 or int8 encoding from the range of the data:
+ *
+ * - minmax: The full range [min, max] of the values, so that nothing is clamped.
+ * - percentile: The range between the (100 - p)-th and p-th percentiles, which ignores outliers at
+ *   the cost of clamping them.
+ *
+ * The range is always widened to contain zero, so that real zero is represented exactly. An
+ * asymmetric encoding maps the range onto the whole value type; a symmetric one uses the range
+ * [-m, m] with m the largest magnitude, centred on zero_point 0 (int8) or 128 (uint8), as expected
+ * by kernels that require symmetric weights.
+ *
+ * The scale is rounded to what encode_scale can represent before quantizing, so that the values
+ * read back by dequantize are within half a scale step of the data that was not clamped.
+ */
+
+import { Matrix, Shape } from './matrix_ops.js';
+import { QuantDtype, QUANT_RANGES, decode_scale, encode_scale } from './quantization.js';
+
+/** Methods to choose the calibrated range, see calibrate. */
+export type CalibrationMethod = 'minmax' | 'percentile';
+
+/**
+ * Options of calibrate.
+ *
+ * - method: How to choose the range; 'minmax' by default.
+ * - percentile: The upper percentile p of the 'percentile' method, in (50, 100]; 99.99 by default.
+ * - symmetric: Whether to use a symmetric range around zero; false by default.
+ * - dtype: The quantized value type; 'uint8' by default.
+ */
+export interface CalibrationOptions {
+  method?: CalibrationMethod;
+  percentile?: number;
+  symmetric?: boolean;
+  dtype?: QuantDtype;
+}
+
+/**
+ * Real quantization parameters, as accepted by the quant option of Matrix.from_real,
+ * Matrix.from_npy and Matrix.from_csv.
+ */
+export interface Calibration {
+  scale: number;
+  zero_point: number;
+  dtype: QuantDtype;
+}
+
+/**
+ * Result of quantization_error.
+ *
+ * - max_error: The largest absolute difference between the matrix and the reference.
+ * - mean_error: The mean absolute difference.
+ * - error_bound: The tolerance the errors were checked against.
+ * - within: Whether max_error is at most error_bound, up to float rounding.
+ */
+export interface ErrorReport {
+  max_error: number;
+  mean_error: number;
+  error_bound: number;
+  within: boolean;
+}
+
+/** Default upper percentile of the 'percentile' method. */
+const DEFAULT_PERCENTILE = 99.99;
+
+/** Relative slack for float rounding when comparing errors with their bound. */
+const FLOAT_SLACK = 1e-9;
+
+/**
+ * Computes quantization parameters for real values.
+ *
+ * @param values - The real values.
+ * @param options - The calibration method and encoding, see CalibrationOptions.
+ * @returns The scale, zero point and value type.
+ * @throws Error if there are no values, a value is not finite or the percentile is out of range.
+ */
+export function calibrate(values: number[], options: CalibrationOptions = {}): Calibration {
+  if (values.length === 0) {
+    throw new Error('Cannot calibrate an empty array');
+  }
+  values.forEach((x) => {
+    if (!Number.isFinite(x)) throw new Error(`Cannot calibrate non-finite value ${x}`);
+  });
+  let dtype = options.dtype ?? 'uint8';
+  let [qmin, qmax] = QUANT_RANGES[dtype].map(Number);
+
+  let lo: number;
+  let hi: number;
+  if ((options.method ?? 'minmax') === 'minmax') {
+    lo = values.reduce((a, b) => Math.min(a, b));
+    hi = values.reduce((a, b) => Math.max(a, b));
+  } else {
+    let p = options.percentile ?? DEFAULT_PERCENTILE;
+    if (!(p > 50 && p <= 100)) {
+      throw new Error(`Percentile must be in (50, 100], got ${p}`);
+    }
+    let sorted = [...values].sort((a, b) => a - b);
+    [lo, hi] = [percentile(sorted, 100 - p), percentile(sorted, p)];
+  }
+  lo = Math.min(lo, 0);
+  hi = Math.max(hi, 0);
+
+  if (options.symmetric) {
+    let magnitude = Math.max(-lo, hi);
+    let zero_point = (qmin + qmax + 1) / 2;
+    return { scale: encodable(magnitude / ((qmax - qmin - 1) / 2)), zero_point, dtype };
+  }
+  let scale = encodable((hi - lo) / (qmax - qmin));
+  let zero_point = Math.min(Math.max(Math.round(qmin - lo / scale), qmin), qmax);
+  return { scale, zero_point, dtype };
+}
+
+/**
+ * Calibrates and quantizes real values into a single quantized matrix.
+ *
+ * @param values - The real values in row-major order.
+ * @param shape - The shape of the matrix as a tuple [rows, columns].
+ * @param options - The calibration method and encoding, see CalibrationOptions.
+ * @returns A new quantized Matrix instance.
+ * @throws Error if the values cannot be calibrated or do not match the shape.
+ */
+export function quantize(values: number[], shape: Shape, options: CalibrationOptions = {}): Matrix {
+  return Matrix.from_real(values, shape, { quant: calibrate(values, options) });
+}
+
+/**
+ * Calibrates and quantizes every row separately, as for per-channel weights. Matrix operations take
+ * a single scale per operand, so the rows are returned as 1 x n matrices with their own parameters.
+ *
+ * @param values - The real values in row-major order.
+ * @param shape - The shape of the data as a tuple [rows, columns].
+ * @param options - The calibration method and encoding, see CalibrationOptions.
+ * @returns One quantized 1 x n Matrix instance per row.
+ * @throws Error if the values cannot be calibrated or do not match the shape.
+ */
+export function quantize_rows(values: number[], shape: Shape, options: CalibrationOptions = {}): Matrix[] {
+  let [rows, cols] = shape;
+  if (values.length !== rows * cols) {
+    throw new Error('Values length does not match the shape');
+  }
+  let result: Matrix[] = [];
+  for (let i = 0; i < rows; i++) {
+    result.push(quantize(values.slice(i * cols, (i + 1) * cols), [1, cols], options));
+  }
+  return result;
+}
+
+/**
+ * Converts a constant quantized, fixed-point or plain matrix back to real values, see
+ * Matrix.to_real.
+ *
+ * @param matrix - The Matrix instance, such as the public output of a proof.
+ * @returns The real values in row-major order.
+ */
+export function dequantize(matrix: Matrix): number[] {
+  return matrix.to_real();
+}
+
+/**
+ * Compares the real values of a constant matrix with float reference results.
+ *
+ * By default, the errors are checked against the rounding error of the matrix encoding alone: half
+ * a scale step for quantized matrices, half of the least significant fractional bit for fixed-point
+ * matrices, and zero for plain ones. That is the bound for data quantized directly; outputs of
+ * requantizing operations accumulate the rounding of every step, so pass a wider tolerance for them.
+ *
+ * @param matrix - The Matrix instance.
+ * @param reference - The reference values in row-major order.
+ * @param tolerance - The largest acceptable absolute error, the encoding's rounding error by default.
+ * @returns The errors and whether they are within the bound.
+ * @throws Error if the number of reference values does not match the matrix.
+ */
+export function quantization_error(matrix: Matrix, reference: number[], tolerance?: number): ErrorReport {
+  let real = dequantize(matrix);
+  if (reference.length !== real.length) {
+    throw new Error(`Expected ${real.length} reference values, got ${reference.length}`);
+  }
+  let errors = real.map((x, k) => Math.abs(x - reference[k]));
+  let max_error = errors.reduce((a, b) => Math.max(a, b));
+  let mean_error = errors.reduce((a, b) => a + b) / errors.length;
+  let error_bound = tolerance ?? rounding_error(matrix);
+  let within = max_error <= error_bound * (1 + FLOAT_SLACK) + Number.EPSILON;
+  return { max_error, mean_error, error_bound, within };
+}
+
+/**
+ * Computes a percentile of sorted values, interpolating linearly between neighbours as NumPy does
+ * by default.
+ *
+ * @param sorted - The values in ascending order.
+ * @param p - The percentile, in [0, 100].
+ * @returns The percentile.
+ */
+function percentile(sorted: number[], p: number): number {
+  let position = (p / 100) * (sorted.length - 1);
+  let below = Math.floor(position);
+  let above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (position - below) * (sorted[above] - sorted[below]);
+}
+
+/**
+ * Rounds a scale to the nearest value representable by encode_scale. An empty range, where every
+ * value is zero, gets the scale 1.
+ *
+ * @param scale - The real scale.
+ * @returns The representable scale.
+ * @throws Error if the scale is too small to be represented.
+ */
+function encodable(scale: number): number {
+  return scale === 0 ? 1 : decode_scale(encode_scale(scale));
+}
+
+/**
+ * Returns the largest rounding error of the encoding of a matrix.
+ *
+ * @param matrix - The Matrix instance.
+ * @returns Half of the real value of one step of the encoding.
+ */
+function rounding_error(matrix: Matrix): number {
+  if (matrix.fixed_point !== undefined) return 2 ** -(matrix.fixed_point.frac_bits + 1);
+  if (matrix.scale.toBigInt() === 1n && matrix.zero_point.toBigInt() === 0n) return 0;
+  return decode_scale(matrix.scale) / 2;
+}
@@ -0,0 +1,109 @@
+/*
+ * conv.ts
+ *
+ * Index arithmetic for 2D convolution and pooling on row-major matrices.
+ *
+ * Convolutions are lowered to a matrix product (im2col): every output position becomes one row of a
+ * patch matrix holding the input values under the kernel window, across all channels, and the
+ * kernels become the columns of a weight matrix. Multiplying the two with Matrix.mul gives every
+ * output channel as a column, so convolutions inherit the plain, fixed-point and quantized modes of
+ * mul. As in deep learning frameworks, the kernel is not flipped (cross-correlation).
+ */
+
+import { Field } from 'o1js';
+
+/**
+ * Computes the output shape of a sliding window.
+ *
+ * @param shape - The input shape [rows, columns].
+ * @param window - The window shape [rows, columns].
+ * @param stride - The step between windows.
+ * @param padding - The number of padded rows and columns on every side.
+ * @returns The output shape [rows, columns].
+ * @throws Error if the parameters are invalid or the window does not fit.
+ */
+export function window_shape(
+  shape: [number, number],
+  window: [number, number],
+  stride: number,
+  padding: number
+): [number, number] {
+  if (!Number.isInteger(stride) || stride < 1 || !Number.isInteger(padding) || padding < 0) {
+    throw new Error(`Invalid stride ${stride} or padding ${padding}`);
+  }
+  let rows = Math.floor((shape[0] + 2 * padding - window[0]) / stride) + 1;
+  let cols = Math.floor((shape[1] + 2 * padding - window[1]) / stride) + 1;
+  if (window[0] < 1 || window[1] < 1 || rows < 1 || cols < 1) {
+    throw new Error(`A ${window[0]}x${window[1]} window does not fit a ${shape[0]}x${shape[1]} input`);
+  }
+  return [rows, cols];
+}
+
+/**
+ * Collects the values under every window position, padding outside the input.
+ *
+ * @param channels - The values of every input channel, in row-major order.
+ * @param shape - The shape [rows, columns] of every channel.
+ * @param window - The window shape [rows, columns].
+ * @param stride - The step between windows.
+ * @param padding - The number of padded rows and columns on every side.
+ * @param pad - The padding value of every channel.
+ * @returns The patch matrix values, one row per output position with channels * window entries.
+ */
+export function im2col(
+  channels: Field[][],
+  shape: [number, number],
+  window: [number, number],
+  stride: number,
+  padding: number,
+  pad: Field[]
+): Field[] {
+  let [out_rows, out_cols] = window_shape(shape, window, stride, padding);
+  let patches: Field[] = [];
+  for (let i = 0; i < out_rows; i++) {
+    for (let j = 0; j < out_cols; j++) {
+      channels.forEach((values, c) => {
+        for (let u = 0; u < window[0]; u++) {
+          for (let v = 0; v < window[1]; v++) {
+            let [row, col] = [i * stride + u - padding, j * stride + v - padding];
+            let inside = row >= 0 && row < shape[0] && col >= 0 && col < shape[1];
+            patches.push(inside ? values[row * shape[1] + col] : pad[c]);
+          }
+        }
+      });
+    }
+  }
+  return patches;
+}
+
+/**
+ * Arranges the kernels as a weight matrix with one column per output channel.
+ *
+ * @param kernels - The kernel values, kernels[output][input], each in row-major order.
+ * @returns The weight matrix values, of shape (inputs * window, outputs).
+ */
+export function kernel_matrix(kernels: Field[][][]): Field[] {
+  let outputs = kernels.length;
+  let column = kernels.map((per_input) => per_input.flat());
+  let result: Field[] = [];
+  for (let k = 0; k < column[0].length; k++) {
+    for (let o = 0; o < outputs; o++) result.push(column[o][k]);
+  }
+  return result;
+}
+
+/**
+ * Collects the values of every pooling window.
+ *
+ * @param values - The values of the input, in row-major order.
+ * @param shape - The shape [rows, columns] of the input.
+ * @param size - The side of the square window.
+ * @param stride - The step between windows.
+ * @returns The values of every window, in row-major order of the windows.
+ */
+export function pool_windows(values: Field[], shape: [number, number], size: number, stride: number): Field[][] {
+  let patches = im2col([values], shape, [size, size], stride, 0, []);
+  let windows: Field[][] = [];
+  for (let k = 0; k < patches.length; k += size * size) windows.push(patches.slice(k, k + size * size));
+  return windows;
+}
@@ -0,0 +1,405 @@
+/*
+ * decomposition.ts
+ *
+ * Witnessed matrix decompositions for square matrices over the field.
+ *
+ * Factorizations and inverses are computed out of circuit by Gaussian elimination (see
+ * NativeMatrix in native.ts) and passed into the circuit as witnesses. The circuit then only verifies them, which costs O(n^3) constraints
+ * instead of the factorial cost of cofactor expansion:
+ * - an inverse X is verified by A * X == I,
+ * - an LU decomposition with partial pivoting is verified by P * A == L * U, where L is unit lower
+ *   triangular and U is upper triangular by construction, and P is checked to be a permutation matrix,
+ * - a Cholesky factor L of fixed-point data is lower triangular by construction with a positive
+ *   diagonal; the caller verifies L * L^T against A with assert_rounding_residual.
+ *
+ * Fixed-point solutions and factors are rounded to the format, so products of them only match
+ * their targets approximately. assert_rounding_residual bounds the residual by the error that
+ * rounding the witness to one unit in the last place can cause, computed from the witnessed data.
+ *
+ * Matrices are square, given as arrays of Field elements in row-major order together with their size n.
+ */
+
+import { Field, Provable } from 'o1js';
+import { abs_signed, assert_bits, assert_scaled_abs_at_most, bit_length, less_than_signed } from './gadgets.js';
+import { FixedPointConfig, assert_fixed_range, decode_fixed, encode_fixed } from './fixed_point.js';
+import { NativeMatrix } from './native.js';
+
+/**
+ * Witnesses the inverse of a square matrix and verifies it by A * X == I.
+ *
+ * @param matrix - The array of Field elements representing the matrix.
+ * @param n - The size of the matrix.
+ * @returns An array of Field elements representing the inverse matrix.
+ * @throws An error if the matrix is not invertible.
+ */
+export function witness_inverse(matrix: Field[], n: number): Field[] {
+  let inverse = Provable.witness(Provable.Array(Field, n * n), () =>
+    NativeMatrix.from_fields(matrix, [n, n]).inverse().to_fields()
+  );
+  assert_identity(product(matrix, inverse, n), n);
+  return inverse;
+}
+
+/**
+ * Witnesses the solution X of A * X = B for a non-singular square matrix A.
+ * The solution is not constrained here; the caller verifies A * X == B.
+ *
+ * @param matrix - The array of Field elements representing A.
+ * @param rhs - The array of Field elements representing B.
+ * @param n - The size of A.
+ * @param m - The number of columns of B.
+ * @returns An array of Field elements representing X.
+ * @throws An error if A is not invertible.
+ */
+export function witness_solution(matrix: Field[], rhs: Field[], n: number, m: number): Field[] {
+  return Provable.witness(Provable.Array(Field, n * m), () => {
+    let inverse = NativeMatrix.from_fields(matrix, [n, n]).inverse();
+    return inverse.mul(NativeMatrix.from_fields(rhs, [n, m])).to_fields();
+  });
+}
+
+/**
+ * Witnesses the solution X of A * X = B for fixed-point data, solving in floating point and
+ * range-checking the rounded result. The caller verifies A * X against B up to a tolerance.
+ *
+ * @param matrix - The encoded values of A.
+ * @param rhs - The encoded values of B.
+ * @param n - The size of A.
+ * @param m - The number of columns of B.
+ * @param config - The fixed-point format.
+ * @returns The encoded values of X.
+ * @throws An error if A is singular.
+ */
+export function witness_fixed_solution(
+  matrix: Field[],
+  rhs: Field[],
+  n: number,
+  m: number,
+  config: FixedPointConfig
+): Field[] {
+  let x = Provable.witness(Provable.Array(Field, n * m), () => {
+    let a = matrix.map((x) => decode_fixed(x, config));
+    let b = rhs.map((x) => decode_fixed(x, config));
+    let native = native_solve_real(a, b, n, m);
+    if (native === undefined) throw new Error('Matrix is not invertible');
+    return native.map((x) => encode_fixed(x, config));
+  });
+  x.forEach((value) => assert_fixed_range(value, config));
+  return x;
+}
+
+/**
+ * Returns the sums of the absolute values of every row of a matrix.
+ *
+ * @param values - The signed values in row-major order, with absolute values below 2^bits.
+ * @param shape - The shape [rows, columns] of the matrix.
+ * @param bits - The bit bound on the absolute values.
+ * @returns One sum per row.
+ */
+export function abs_row_sums(values: Field[], shape: [number, number], bits: number): Field[] {
+  let [rows, cols] = shape;
+  let magnitudes = values.map((x) => abs_signed(x, bits));
+  let sums: Field[] = [];
+  for (let i = 0; i < rows; i++) {
+    sums.push(magnitudes.slice(i * cols, (i + 1) * cols).reduce((a, b) => a.add(b)));
+  }
+  return sums;
+}
+
+/**
+ * Asserts that a fixed-point residual is within the error caused by rounding a witnessed factor:
+ * |residual[i][j]| * 2^frac_bits <= row_weights[i] + col_weights[j] + slack * 2^frac_bits.
+ *
+ * A factor rounded by at most one unit in the last place changes an entry of a product by at most
+ * the sum of the absolute values of the other operand's row, in units of 2^-frac_bits; the slack
+ * covers the rounding of the product itself.
+ *
+ * @param residual - The differences between the product and its target, in row-major order.
+ * @param shape - The shape [rows, columns] of the residual.
+ * @param row_weights - The sums of absolute values weighing the rounding error of every row.
+ * @param col_weights - The sums weighing the rounding error of every column, if any.
+ * @param slack - The additional tolerance, in units of 2^-frac_bits.
+ * @param config - The fixed-point format of the values.
+ * @param message - The message of a failing check.
+ */
+export function assert_rounding_residual(
+  residual: Field[],
+  shape: [number, number],
+  row_weights: Field[],
+  col_weights: Field[] | undefined,
+  slack: number,
+  config: FixedPointConfig,
+  message: string
+) {
+  let [rows, cols] = shape;
+  let { frac_bits, total_bits } = config;
+  // Residuals of range-checked values are below 2^total_bits, and the weights below 2^(total_bits + log n).
+  let bits = total_bits + frac_bits + bit_length(BigInt(Math.max(rows, cols))) + 2;
+  let slack_field = Field(BigInt(slack) << BigInt(frac_bits));
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) {
+      let bound = row_weights[i].add(slack_field);
+      if (col_weights !== undefined) bound = bound.add(col_weights[j]);
+      assert_scaled_abs_at_most(residual[i * cols + j], frac_bits, bound, bits, message);
+    }
+  }
+}
+
+/**
+ * Witnesses an LU decomposition with partial pivoting, P * A = L * U, and verifies it.
+ * The decomposition exists for every square matrix, including singular ones.
+ *
+ * @param matrix - The array of Field elements representing the matrix.
+ * @param n - The size of the matrix.
+ * @returns The permutation matrix P, the unit lower triangular L and the upper triangular U.
+ */
+export function plu_decomposition(matrix: Field[], n: number): { p: Field[]; l: Field[]; u: Field[] } {
+  let lower_size = (n * (n - 1)) / 2;
+  let upper_size = (n * (n + 1)) / 2;
+
+  let witness = Provable.witness(Provable.Array(Field, n * n + lower_size + upper_size), () => {
+    let { perm, l, u } = NativeMatrix.from_fields(matrix, [n, n]).plu();
+    let p: bigint[] = new Array(n * n).fill(0n);
+    perm.forEach((j, i) => (p[i * n + j] = 1n));
+    let lower: bigint[] = [];
+    let upper: bigint[] = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (j < i) lower.push(l.values[i * n + j]);
+        else upper.push(u.values[i * n + j]);
+      }
+    }
+    return [...p, ...lower, ...upper].map((x) => Field(x));
+  });
+
+  let p = witness.slice(0, n * n);
+  let lower = witness.slice(n * n, n * n + lower_size);
+  let upper = witness.slice(n * n + lower_size);
+
+  // Build L and U with their fixed zero and unit entries as constants.
+  let l: Field[] = [];
+  let u: Field[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      l.push(j < i ? lower.shift()! : Field(j === i ? 1 : 0));
+      u.push(j >= i ? upper.shift()! : Field(0));
+    }
+  }
+
+  assert_permutation(p, n);
+  let pa = product(p, matrix, n);
+  let lu = product(l, u, n);
+  for (let i = 0; i < n * n; i++) {
+    pa[i].assertEquals(lu[i]);
+  }
+
+  return { p, l, u };
+}
+
+/**
+ * Witnesses the Cholesky factor of a symmetric positive definite fixed-point matrix.
+ * The entries above the diagonal are constant zeros, every entry is range-checked to the format,
+ * and the diagonal is constrained to be positive. Verifying L * L^T against A is left to the caller.
+ *
+ * @param matrix - The array of encoded fixed-point values representing the matrix.
+ * @param n - The size of the matrix.
+ * @param config - The fixed-point format.
+ * @returns The values of the lower triangular factor L.
+ * @throws An error if the matrix is not positive definite.
+ */
+export function witness_cholesky(matrix: Field[], n: number, config: FixedPointConfig): Field[] {
+  let lower = Provable.witness(Provable.Array(Field, (n * (n + 1)) / 2), () => {
+    let native = native_cholesky(matrix.map((x) => decode_fixed(x, config)), n);
+    if (native === undefined) throw new Error('Matrix is not positive definite');
+    let values: Field[] = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j <= i; j++) values.push(encode_fixed(native[i * n + j], config));
+    }
+    return values;
+  });
+
+  let l: Field[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (j > i) {
+        l.push(Field(0));
+        continue;
+      }
+      let value = lower.shift()!;
+      assert_fixed_range(value, config);
+      // Diagonal entries are positive: value - 1 lies in [0, 2^(total_bits - 1)).
+      if (i === j) assert_bits(value.sub(Field(1)), config.total_bits - 1, 'Cholesky diagonal must be positive');
+      l.push(value);
+    }
+  }
+  return l;
+}
+
+/**
+ * Computes the determinant of a square matrix from a witnessed LU decomposition:
+ * det(A) = det(P) * prod(U[i][i]), since det(P) = ±1 and L has a unit diagonal.
+ *
+ * @param matrix - The array of Field elements representing the matrix.
+ * @param n - The size of the matrix.
+ * @returns The determinant as a Field element.
+ */
+export function lu_determinant(matrix: Field[], n: number): Field {
+  let { p, u } = plu_decomposition(matrix, n);
+  let det = permutation_sign(p, n);
+  for (let i = 0; i < n; i++) {
+    det = det.mul(u[i * n + i]);
+  }
+  return det;
+}
+
+/**
+ * Computes the sign of a permutation matrix by counting inversions of the permutation.
+ * The matrix must already be verified to be a permutation matrix.
+ *
+ * @param p - The array of Field elements representing the permutation matrix.
+ * @param n - The size of the matrix.
+ * @returns 1 for even and -1 for odd permutations.
+ */
+export function permutation_sign(p: Field[], n: number): Field {
+  // Row i of P selects column perm[i], recover perm[i] as a field element.
+  let perm: Field[] = [];
+  for (let i = 0; i < n; i++) {
+    let index = Field(0);
+    for (let j = 1; j < n; j++) {
+      index = index.add(p[i * n + j].mul(Field(j)));
+    }
+    perm.push(index);
+  }
+
+  let bits = bit_length(BigInt(n));
+  let sign = Field(1);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      let inversion = less_than_signed(perm[j], perm[i], bits);
+      sign = Provable.if(inversion, sign.neg(), sign);
+    }
+  }
+  return sign;
+}
+
+/**
+ * Asserts that a square matrix is a permutation matrix: every entry is 0 or 1, and every row and
+ * every column sums to 1.
+ *
+ * @param p - The array of Field elements representing the matrix.
+ * @param n - The size of the matrix.
+ */
+export function assert_permutation(p: Field[], n: number) {
+  p.forEach((x) => x.assertBool());
+  for (let i = 0; i < n; i++) {
+    let row = Field(0);
+    let col = Field(0);
+    for (let j = 0; j < n; j++) {
+      row = row.add(p[i * n + j]);
+      col = col.add(p[j * n + i]);
+    }
+    row.assertEquals(Field(1));
+    col.assertEquals(Field(1));
+  }
+}
+
+/**
+ * Asserts that a square matrix is the identity.
+ *
+ * @param matrix - The array of Field elements representing the matrix.
+ * @param n - The size of the matrix.
+ */
+function assert_identity(matrix: Field[], n: number) {
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      matrix[i * n + j].assertEquals(Field(i === j ? 1 : 0));
+    }
+  }
+}
+
+/**
+ * Multiplies two square matrices.
+ *
+ * @param a - The values of the first matrix.
+ * @param b - The values of the second matrix.
+ * @param n - The size of the matrices.
+ * @returns The values of the product.
+ */
+function product(a: Field[], b: Field[], n: number): Field[] {
+  let result: Field[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      let element = Field(0);
+      for (let k = 0; k < n; k++) {
+        element = element.add(a[i * n + k].mul(b[k * n + j]));
+      }
+      result.push(element);
+    }
+  }
+  return result;
+}
+
+/* Floating-point (out-of-circuit) computations, used to generate fixed-point witnesses */
+
+/**
+ * Computes the Cholesky factor of a symmetric positive definite matrix in floating point.
+ *
+ * @param a - The real values of the matrix.
+ * @param n - The size of the matrix.
+ * @returns The real values of the lower triangular factor, or undefined if the matrix is not positive definite.
+ */
+function native_cholesky(a: number[], n: number): number[] | undefined {
+  let l: number[] = new Array(n * n).fill(0);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = a[i * n + j];
+      for (let k = 0; k < j; k++) sum -= l[i * n + k] * l[j * n + k];
+      if (i === j) {
+        if (!(sum > 0)) return undefined;
+        l[i * n + i] = Math.sqrt(sum);
+      } else {
+        l[i * n + j] = sum / l[j * n + j];
+      }
+    }
+  }
+  return l;
+}
+
+/**
+ * Solves A * X = B in floating point by Gaussian elimination with partial pivoting.
+ *
+ * @param a - The real values of A.
+ * @param b - The real values of B.
+ * @param n - The size of A.
+ * @param m - The number of columns of B.
+ * @returns The real values of X, or undefined if A is singular.
+ */
+function native_solve_real(a: number[], b: number[], n: number, m: number): number[] | undefined {
+  let u = [...a];
+  let x = [...b];
+
+  for (let k = 0; k < n; k++) {
+    let pivot = k;
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(u[i * n + k]) > Math.abs(u[pivot * n + k])) pivot = i;
+    }
+    if (u[pivot * n + k] === 0) return undefined;
+    for (let j = 0; j < n; j++) [u[k * n + j], u[pivot * n + j]] = [u[pivot * n + j], u[k * n + j]];
+    for (let j = 0; j < m; j++) [x[k * m + j], x[pivot * m + j]] = [x[pivot * m + j], x[k * m + j]];
+
+    for (let i = k + 1; i < n; i++) {
+      let factor = u[i * n + k] / u[k * n + k];
+      for (let j = k; j < n; j++) u[i * n + j] -= factor * u[k * n + j];
+      for (let j = 0; j < m; j++) x[i * m + j] -= factor * x[k * m + j];
+    }
+  }
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = 0; j < m; j++) {
+      let sum = x[i * m + j];
+      for (let k = i + 1; k < n; k++) sum -= u[i * n + k] * x[k * m + j];
+      x[i * m + j] = sum / u[i * n + i];
+    }
+  }
+  return x;
+}
@@ -0,0 +1,101 @@
+import { jest } from '@jest/globals';
+import { Matrix } from './matrix_ops';
+import { DynamicMatrix, DynamicShape } from './dynamic';
+import { fields, int_matrix } from './test_utils';
+
+import { Field, Provable, ZkProgram } from 'o1js';
+
+jest.useFakeTimers();
+
+describe('Dynamic matrices', () => {
+
+    let small = int_matrix([1, 2, 3, 4, 5, 6], [2, 3]);
+
+    it('should pad, read and write entries', async () => {
+
+        let dynamic = DynamicMatrix.from(small, 3, 4);
+
+        expect(dynamic.matrix.values).toEqual(fields([1, 2, 3, 0, 4, 5, 6, 0, 0, 0, 0, 0]));
+        expect(dynamic.shape).toEqual(DynamicShape.from([2, 3]));
+        expect(dynamic.get(Field(1), Field(2))).toEqual(Field(6));
+
+        let updated = dynamic.set(Field(0), Field(1), Field(-7));
+        expect(updated.matrix.values).toEqual(fields([1, -7, 3, 0, 4, 5, 6, 0, 0, 0, 0, 0]));
+        expect(updated.matrix.bound).toEqual(small.bound);
+
+        expect(() => dynamic.get(Field(2), Field(0))).toThrow('Row index is out of range');
+        expect(() => dynamic.get(Field(0), Field(3))).toThrow('Column index is out of range');
+        expect(() => dynamic.set(Field(0), Field(7), Field(1))).toThrow('Column index is out of range');
+        expect(() => DynamicMatrix.from(small, 1, 4)).toThrow('A 2x3 matrix does not fit a capacity of 1x4');
+
+    });
+
+    it('should compute on the active block and mask the padding', async () => {
+
+        let a = DynamicMatrix.from(small, 3, 3);
+        let b = DynamicMatrix.from(int_matrix([1, 0, 2, 1, 0, 3], [3, 2]), 3, 3);
+
+        let product = a.mul(b);
+        expect(product.matrix.values).toEqual(fields([5, 11, 0, 14, 23, 0, 0, 0, 0]));
+        expect(product.shape).toEqual(DynamicShape.from([2, 2]));
+        expect(a.add(a).sum()).toEqual(Field(42));
+        expect(a.transpose().get(Field(2), Field(1))).toEqual(Field(6));
+        expect(() => a.add(b)).toThrow('Dynamic matrices have different shapes');
+        expect(() => b.mul(b)).toThrow('Inner dimensions do not match');
+
+        // Padding entries are replaced before taking maxima, so they cannot win.
+        let negative = DynamicMatrix.from(int_matrix([-3, -1, -2, -5], [2, 2]), 3, 3);
+        expect(negative.matrix.max().values).toEqual(fields([0, 0, 0]));
+        expect(negative.masked(Field(-(1 << 15))).max().values.slice(0, 2)).toEqual(fields([-1, -2]));
+
+    });
+
+    it('should reject non-zero padding and oversized shapes', async () => {
+
+        let Dynamic = DynamicMatrix.Typed(2, 2, { bits: 16, signed: true });
+        let matrix = new Matrix(fields([1, 2, 3, 4]), [2, 2], Field(0), Field(1));
+
+        await expect(Provable.runAndCheck(() => {
+            Provable.witness(Dynamic, () => new DynamicMatrix(matrix, DynamicShape.from([2, 1])));
+        })).rejects.toThrow('Padding entries must be zero');
+
+        await expect(Provable.runAndCheck(() => {
+            Provable.witness(Dynamic, () => new DynamicMatrix(matrix, DynamicShape.from([3, 2])));
+        })).rejects.toThrow('Row count exceeds the capacity');
+
+    });
+
+    it('should handle different shapes with one ZkProgram', async () => {
+
+        let Dynamic = DynamicMatrix.Typed(4, 4, { bits: 16, signed: true });
+
+        let program = ZkProgram({
+            name: 'dynamic-entry-sum',
+            publicInput: Field,
+            publicOutput: Field,
+
+            methods: {
+                entry_sum: {
+                    privateInputs: [Dynamic, Field],
+
+                    async method(i: Field, matrix: DynamicMatrix, j: Field) {
+                        let squared = matrix.mul(matrix.transpose());
+                        return { publicOutput: squared.get(i, j).add(matrix.sum()) };
+                    },
+                },
+            },
+        });
+
+        let wide = DynamicMatrix.from(small, 4, 4);
+        let out = await program.rawMethods.entry_sum(Field(1), wide, Field(0));
+        expect(out.publicOutput).toEqual(Field(32 + 21));
+
+        let square = DynamicMatrix.from(int_matrix([2, 1, 1, 3], [2, 2]).slice(0, 1, 0, 2), 4, 4);
+        out = await program.rawMethods.entry_sum(Field(0), square, Field(0));
+        expect(out.publicOutput).toEqual(Field(5 + 3));
+
+        await expect(program.rawMethods.entry_sum(Field(1), square, Field(0))).rejects.toThrow('Row index is out of range');
+
+    });
+
+});
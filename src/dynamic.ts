@@ -0,0 +1,401 @@
+/*
+ * dynamic.ts
+ *
+ * Matrices of a fixed capacity whose actual shape is a circuit value.
+ *
+ * The shape of a Matrix is static, so a compiled circuit only accepts matrices of exactly that
+ * shape. A DynamicMatrix stores its entries in a Matrix of shape (max_rows, max_cols) together with
+ * a DynamicShape, the actual number of rows and columns as Field elements, so that one circuit
+ * handles every shape up to the capacity. Entries outside the active top-left rows x cols block
+ * are padding and are constrained to be zero. All operations rely on this invariant: sums,
+ * element-wise products and matrix products of zero-padded matrices are zero-padded, and their
+ * active blocks are the results of the operations on the active blocks.
+ *
+ * The masks of active rows and columns are derived from a one-hot selector of the row and column
+ * counts, and the witness indices of get and set are one-hot selectors as well (see one_hot in
+ * gadgets.ts), so every access costs a few constraints per entry of the capacity.
+ */
+
+import { Field, Provable, ProvablePure, Bool, Struct } from 'o1js';
+import {
+  Matrix,
+  MatrixJson,
+  MatrixTypeOptions,
+  MatrixValue,
+  Shape,
+  constant_bound,
+  derive,
+  max_bigint,
+} from './matrix_ops.js';
+import { one_hot } from './gadgets.js';
+
+/** Plain JS representation of a DynamicMatrix, used by provable dynamic matrix types. */
+export type DynamicMatrixValue = MatrixValue & { rows: bigint; cols: bigint };
+
+/** JSON representation of a DynamicMatrix, used by provable dynamic matrix types. */
+export type DynamicMatrixJson = { rows: string; cols: string; matrix: MatrixJson };
+
+/** A provable type for dynamic matrices of a fixed capacity, returned by DynamicMatrix.Typed. */
+export type ProvableDynamicMatrix = ProvablePure<DynamicMatrix, DynamicMatrixValue> & {
+  toInput: (matrix: DynamicMatrix) => { fields: Field[] };
+  toJSON: (matrix: DynamicMatrix) => DynamicMatrixJson;
+  fromJSON: (json: DynamicMatrixJson) => DynamicMatrix;
+  empty: () => DynamicMatrix;
+};
+
+/**
+ * The shape of a matrix as circuit values, for shapes that vary between proofs. Static shapes are
+ * plain numbers, see Shape.
+ */
+export class DynamicShape extends Struct({ rows: Field, cols: Field }) {
+  /**
+   * Creates a dynamic shape from a static one.
+   *
+   * @param shape - The shape [rows, columns].
+   * @returns A new DynamicShape instance with constant rows and columns.
+   */
+  static from(shape: Shape): DynamicShape {
+    return new DynamicShape({ rows: Field(shape[0]), cols: Field(shape[1]) });
+  }
+
+  /**
+   * Asserts that two dynamic shapes are equal.
+   *
+   * @param other - The shape to compare with.
+   * @param message - Optional message for a failing check.
+   */
+  assert_equals(other: DynamicShape, message?: string) {
+    this.rows.assertEquals(other.rows, message);
+    this.cols.assertEquals(other.cols, message);
+  }
+
+  /**
+   * Returns which rows are active, proving that the number of rows fits the capacity.
+   *
+   * @param max_rows - The maximum number of rows.
+   * @returns max_rows Bools, true for the rows before the number of rows.
+   */
+  row_mask(max_rows: number): Bool[] {
+    return prefix_mask(this.rows, max_rows, 'Row count exceeds the capacity');
+  }
+
+  /**
+   * Returns which columns are active, proving that the number of columns fits the capacity.
+   *
+   * @param max_cols - The maximum number of columns.
+   * @returns max_cols Bools, true for the columns before the number of columns.
+   */
+  col_mask(max_cols: number): Bool[] {
+    return prefix_mask(this.cols, max_cols, 'Column count exceeds the capacity');
+  }
+
+  /**
+   * Returns the transposed shape.
+   *
+   * @returns A new DynamicShape instance with rows and columns swapped.
+   */
+  transpose(): DynamicShape {
+    return new DynamicShape({ rows: this.cols, cols: this.rows });
+  }
+}
+
+/**
+ * A matrix with a fixed capacity and a witness-dependent shape.
+ *
+ * Only matrices with zero_point 0 are supported, so that zero padding stands for absent entries.
+ */
+export class DynamicMatrix {
+  matrix: Matrix;
+  shape: DynamicShape;
+
+  /**
+   * Constructs a new DynamicMatrix instance. Like the Matrix constructor, this does not constrain
+   * the padding; use DynamicMatrix.from or a provable type from DynamicMatrix.Typed for that.
+   *
+   * @param matrix - The entries, as a Matrix of the capacity shape.
+   * @param shape - The number of active rows and columns.
+   */
+  constructor(matrix: Matrix, shape: DynamicShape) {
+    this.matrix = matrix;
+    this.shape = shape;
+  }
+
+  /** The maximum number of rows. */
+  get max_rows(): number {
+    return this.matrix.shape[0];
+  }
+
+  /** The maximum number of columns. */
+  get max_cols(): number {
+    return this.matrix.shape[1];
+  }
+
+  /**
+   * Pads a matrix with zeros to the given capacity.
+   *
+   * @param matrix - The matrix, which becomes the active block.
+   * @param max_rows - The maximum number of rows.
+   * @param max_cols - The maximum number of columns.
+   * @returns A new DynamicMatrix instance.
+   * @throws Error if the matrix exceeds the capacity.
+   */
+  static from(matrix: Matrix, max_rows: number, max_cols: number): DynamicMatrix {
+    let [rows, cols] = matrix.shape;
+    if (rows > max_rows || cols > max_cols) {
+      throw new Error(`A ${rows}x${cols} matrix does not fit a capacity of ${max_rows}x${max_cols}`);
+    }
+    matrix.zero_point.assertEquals(Field(0), 'Dynamic matrices require a zero point of 0');
+
+    let values: Field[] = [];
+    for (let i = 0; i < max_rows; i++) {
+      for (let j = 0; j < max_cols; j++) values.push(i < rows && j < cols ? matrix.values[i * cols + j] : Field(0));
+    }
+    let padded = derive(matrix, values, [max_rows, max_cols], matrix.bound);
+    return new DynamicMatrix(padded, DynamicShape.from(matrix.shape));
+  }
+
+  /**
+   * Returns a provable type for dynamic matrices of a fixed capacity.
+   *
+   * The matrix is laid out as the capacity matrix (see Matrix.Typed) followed by its DynamicShape.
+   * The check method applies the checks of the capacity matrix, asserts that the shape fits the
+   * capacity and that every padding entry is zero.
+   *
+   * @param max_rows - The maximum number of rows.
+   * @param max_cols - The maximum number of columns.
+   * @param options - Optional range and format of the values, as in Matrix.Typed.
+   * @returns The provable dynamic matrix type.
+   */
+  static Typed(max_rows: number, max_cols: number, options: MatrixTypeOptions = {}): ProvableDynamicMatrix {
+    let Inner = Matrix.Typed(max_rows, max_cols, options);
+    let size = Inner.sizeInFields();
+
+    let to_fields = (matrix: DynamicMatrix) => [...Inner.toFields(matrix.matrix), ...DynamicShape.toFields(matrix.shape)];
+
+    return {
+      sizeInFields: () => size + DynamicShape.sizeInFields(),
+      toFields: to_fields,
+      toAuxiliary: () => [],
+      fromFields: (fields: Field[]) =>
+        new DynamicMatrix(
+          Inner.fromFields(fields.slice(0, size)),
+          new DynamicShape(DynamicShape.fromFields(fields.slice(size)))
+        ),
+      check(matrix: DynamicMatrix) {
+        Inner.check(matrix.matrix);
+        matrix.matrix.zero_point.assertEquals(Field(0), 'Dynamic matrices require a zero point of 0');
+        let mask = matrix.mask();
+        matrix.matrix.values.forEach((x, k) => {
+          Provable.if(mask[k], Field(0), x).assertEquals(Field(0), 'Padding entries must be zero');
+        });
+      },
+      toValue: (matrix: DynamicMatrix) => ({
+        ...Inner.toValue(matrix.matrix),
+        rows: matrix.shape.rows.toBigInt(),
+        cols: matrix.shape.cols.toBigInt(),
+      }),
+      fromValue(value: DynamicMatrixValue | DynamicMatrix) {
+        if (value instanceof DynamicMatrix) return new DynamicMatrix(Inner.fromValue(value.matrix), value.shape);
+        let shape = new DynamicShape({ rows: Field(value.rows), cols: Field(value.cols) });
+        return new DynamicMatrix(Inner.fromValue(value), shape);
+      },
+      toInput: (matrix: DynamicMatrix) => ({ fields: to_fields(matrix) }),
+      toJSON: (matrix: DynamicMatrix) => ({
+        rows: matrix.shape.rows.toString(),
+        cols: matrix.shape.cols.toString(),
+        matrix: Inner.toJSON(matrix.matrix),
+      }),
+      fromJSON: (json: DynamicMatrixJson) =>
+        new DynamicMatrix(
+          Inner.fromJSON(json.matrix),
+          new DynamicShape({ rows: Field(json.rows), cols: Field(json.cols) })
+        ),
+      empty: () => new DynamicMatrix(Inner.empty(), DynamicShape.from([0, 0])),
+    };
+  }
+
+  /**
+   * Returns which entries are active, in row-major order, proving that the shape fits the capacity.
+   *
+   * @returns max_rows * max_cols Bools, true for the entries of the active block.
+   */
+  mask(): Bool[] {
+    let [rows, cols] = [this.shape.row_mask(this.max_rows), this.shape.col_mask(this.max_cols)];
+    return rows.flatMap((row) => cols.map((col) => row.and(col)));
+  }
+
+  /**
+   * Returns the capacity matrix with every padding entry replaced, for example by a value below
+   * every active entry before taking a maximum.
+   *
+   * @param fill - The value of the padding entries.
+   * @returns A new Matrix instance of the capacity shape.
+   */
+  masked(fill: Field): Matrix {
+    let mask = this.mask();
+    let values = this.matrix.values.map((x, k) => Provable.if(mask[k], x, fill));
+    let bound = this.matrix.bound;
+    bound = bound !== undefined && fill.isConstant() ? max_bigint(bound, constant_bound([fill])) : undefined;
+    return derive(this.matrix, values, this.matrix.shape, bound);
+  }
+
+  /**
+   * Reads the entry at witness indices.
+   *
+   * @param i - The row index, which may be a circuit variable.
+   * @param j - The column index, which may be a circuit variable.
+   * @returns The entry at (i, j).
+   * @throws Error if the indices are outside the active block.
+   */
+  get(i: Field, j: Field): Field {
+    let { rows, cols } = this.select(i, j);
+    let value = Field(0);
+    rows.forEach((row, r) => {
+      cols.forEach((col, c) => {
+        value = value.add(Provable.if(row.and(col), this.matrix.values[r * this.max_cols + c], Field(0)));
+      });
+    });
+    return value;
+  }
+
+  /**
+   * Replaces the entry at witness indices.
+   *
+   * @param i - The row index, which may be a circuit variable.
+   * @param j - The column index, which may be a circuit variable.
+   * @param value - The new entry.
+   * @returns A new DynamicMatrix instance with the entry replaced.
+   * @throws Error if the indices are outside the active block.
+   */
+  set(i: Field, j: Field, value: Field): DynamicMatrix {
+    let { rows, cols } = this.select(i, j);
+    let values = this.matrix.values.map((x, k) => {
+      let [r, c] = [Math.floor(k / this.max_cols), k % this.max_cols];
+      return Provable.if(rows[r].and(cols[c]), value, x);
+    });
+    // A constant value within the bound keeps the bound; anything else may exceed it.
+    let bound = this.matrix.bound;
+    if (bound !== undefined && !(value.isConstant() && constant_bound([value]) <= bound)) bound = undefined;
+    return new DynamicMatrix(derive(this.matrix, values, this.matrix.shape, bound), this.shape);
+  }
+
+  /**
+   * Adds another dynamic matrix of the same shape and capacity element-wise.
+   *
+   * @param other - The matrix to add.
+   * @returns A new DynamicMatrix instance with the summed values.
+   */
+  add(other: DynamicMatrix): DynamicMatrix {
+    this.shape.assert_equals(other.shape, 'Dynamic matrices have different shapes');
+    return new DynamicMatrix(this.matrix.add(other.matrix), this.shape);
+  }
+
+  /**
+   * Subtracts another dynamic matrix of the same shape and capacity element-wise.
+   *
+   * @param other - The matrix to subtract.
+   * @returns A new DynamicMatrix instance with the differences.
+   */
+  sub(other: DynamicMatrix): DynamicMatrix {
+    this.shape.assert_equals(other.shape, 'Dynamic matrices have different shapes');
+    return new DynamicMatrix(this.matrix.sub(other.matrix), this.shape);
+  }
+
+  /**
+   * Multiplies another dynamic matrix of the same shape and capacity element-wise.
+   *
+   * @param other - The matrix to multiply with.
+   * @returns A new DynamicMatrix instance with the products.
+   */
+  hadamard_product(other: DynamicMatrix): DynamicMatrix {
+    this.shape.assert_equals(other.shape, 'Dynamic matrices have different shapes');
+    return new DynamicMatrix(this.matrix.hadamard_product(other.matrix), this.shape);
+  }
+
+  /**
+   * Multiplies with another dynamic matrix. The column capacity of this matrix must equal the row
+   * capacity of the other, and the number of columns must equal the other's number of rows.
+   *
+   * @param other - The right factor.
+   * @returns A new DynamicMatrix instance with the product.
+   */
+  mul(other: DynamicMatrix): DynamicMatrix {
+    this.shape.cols.assertEquals(other.shape.rows, 'Inner dimensions do not match');
+    let shape = new DynamicShape({ rows: this.shape.rows, cols: other.shape.cols });
+    return new DynamicMatrix(this.matrix.mul(other.matrix), shape);
+  }
+
+  /**
+   * Multiplies every element by a scalar, see Matrix.scalar_mul.
+   *
+   * @param scalar - The scalar by which to multiply the matrix.
+   * @returns A new DynamicMatrix instance.
+   */
+  scalar_mul(scalar: Field): DynamicMatrix {
+    return new DynamicMatrix(this.matrix.scalar_mul(scalar), this.shape);
+  }
+
+  /**
+   * Returns the transpose, whose capacity is the transposed capacity.
+   *
+   * @returns A new DynamicMatrix instance.
+   */
+  transpose(): DynamicMatrix {
+    return new DynamicMatrix(this.matrix.transpose(), this.shape.transpose());
+  }
+
+  /**
+   * Returns the sum of all active entries, see Matrix.sum.
+   *
+   * @returns The sum as a Field element.
+   */
+  sum(): Field {
+    return this.matrix.sum();
+  }
+
+  /**
+   * Returns one-hot selectors for witness indices, asserting that they lie in the active block.
+   *
+   * @param i - The row index.
+   * @param j - The column index.
+   * @returns The row and column selectors.
+   */
+  private select(i: Field, j: Field): { rows: Bool[]; cols: Bool[] } {
+    let rows = one_hot(i, this.max_rows, 'Row index is out of range');
+    let cols = one_hot(j, this.max_cols, 'Column index is out of range');
+    active(rows, this.shape.row_mask(this.max_rows)).assertTrue('Row index is out of range');
+    active(cols, this.shape.col_mask(this.max_cols)).assertTrue('Column index is out of range');
+    return { rows, cols };
+  }
+}
+
+/**
+ * Returns the mask of the first length positions out of size.
+ *
+ * @param length - The number of active positions, which may be a circuit variable.
+ * @param size - The number of positions.
+ * @param message - The message if length exceeds size.
+ * @returns size Bools, true for the positions before length.
+ */
+function prefix_mask(length: Field, size: number, message: string): Bool[] {
+  let end = one_hot(length, size + 1, message);
+  let mask: Bool[] = [];
+  let ended = Bool(false);
+  for (let k = 0; k < size; k++) {
+    ended = ended.or(end[k]);
+    mask.push(ended.not());
+  }
+  return mask;
+}
+
+/**
+ * Returns whether a one-hot selector selects an active position.
+ *
+ * @param selector - The one-hot selector.
+ * @param mask - The active positions.
+ * @returns A Bool that is true iff the selected position is active.
+ */
+function active(selector: Bool[], mask: Bool[]): Bool {
+  let count = selector.reduce((sum, selected, k) => sum.add(selected.and(mask[k]).toField()), Field(0));
+  return count.equals(Field(1));
+}
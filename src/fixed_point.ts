@@ -0,0 +1,194 @@
+/*
+ * fixed_point.ts
+ *
+ * Signed fixed-point arithmetic for Matrix values.
+ *
+ * A fixed-point value with frac_bits fractional bits is stored as the signed integer
+ * round(x * 2^frac_bits) in a Field element, negative integers being represented as p - |x|.
+ * Every value is range-checked to lie in [-2^(total_bits - 1), 2^(total_bits - 1)), so the
+ * integer interpretation never wraps around the field modulus. Products are rescaled by
+ * 2^frac_bits with provable rounding, and divisions are rounded to the nearest representable
+ * value, which gives rational rather than field-inverse semantics.
+ */
+
+import { Field, Provable, Bool } from 'o1js';
+import { assert_signed_bits, bit_length, round_shift, to_signed } from './gadgets.js';
+
+/** Largest supported total bit width, which keeps products of two values far below the modulus. */
+const MAX_TOTAL_BITS = 120;
+
+/**
+ * Configuration of a fixed-point number format.
+ *
+ * - frac_bits: The number of fractional bits.
+ * - total_bits: The total number of bits, including the sign.
+ */
+export interface FixedPointConfig {
+  frac_bits: number;
+  total_bits: number;
+}
+
+/**
+ * Validates a fixed-point configuration.
+ *
+ * @param config - The configuration to validate.
+ * @throws Error if the bit widths are out of the supported range.
+ */
+export function check_fixed_config(config: FixedPointConfig) {
+  let { frac_bits, total_bits } = config;
+  if (!Number.isInteger(frac_bits) || !Number.isInteger(total_bits)) {
+    throw new Error('Fixed-point bit widths must be integers');
+  }
+  if (frac_bits < 0 || frac_bits >= total_bits || total_bits > MAX_TOTAL_BITS) {
+    throw new Error(`Unsupported fixed-point format: ${frac_bits} fractional of ${total_bits} total bits`);
+  }
+}
+
+/**
+ * Encodes a real number in the given fixed-point format.
+ *
+ * @param x - The real number.
+ * @param config - The fixed-point format.
+ * @returns The encoded Field element.
+ */
+export function encode_fixed(x: number, config: FixedPointConfig): Field {
+  return Field(BigInt(Math.round(x * 2 ** config.frac_bits)));
+}
+
+/**
+ * Decodes a fixed-point Field element into a real number.
+ *
+ * @param x - The encoded value; must be a constant or read inside prover code.
+ * @param config - The fixed-point format.
+ * @returns The real number.
+ */
+export function decode_fixed(x: Field, config: FixedPointConfig): number {
+  return Number(to_signed(x)) / 2 ** config.frac_bits;
+}
+
+/**
+ * Asserts that a value lies in the signed range of the fixed-point format.
+ *
+ * @param x - The encoded value.
+ * @param config - The fixed-point format.
+ */
+export function assert_fixed_range(x: Field, config: FixedPointConfig) {
+  assert_signed_bits(x, config.total_bits - 1);
+}
+
+/**
+ * Multiplies two fixed-point matrices element-wise, rounding each product.
+ *
+ * @param matrix1 - The values of the first matrix.
+ * @param matrix2 - The values of the second matrix.
+ * @param config - The fixed-point format.
+ * @returns The rescaled products.
+ */
+export function fixed_hadamard_product(matrix1: Field[], matrix2: Field[], config: FixedPointConfig): Field[] {
+  let result: Field[] = [];
+  for (let i = 0; i < matrix1.length; i++) {
+    result.push(rescale(matrix1[i].mul(matrix2[i]), 1, config));
+  }
+  return result;
+}
+
+/**
+ * Multiplies two fixed-point matrices, rounding each accumulated dot product once.
+ *
+ * @param matrix1 - The values of the first matrix.
+ * @param matrix2 - The values of the second matrix.
+ * @param dims - The dimensions [rows, inner, cols] of the product.
+ * @param config - The fixed-point format.
+ * @returns The rescaled product values.
+ */
+export function fixed_mul(
+  matrix1: Field[],
+  matrix2: Field[],
+  dims: [number, number, number],
+  config: FixedPointConfig
+): Field[] {
+  let [rows, inner, cols] = dims;
+
+  let result: Field[] = [];
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) {
+      let element = Field(0);
+      for (let k = 0; k < inner; k++) {
+        element = element.add(matrix1[i * inner + k].mul(matrix2[k * cols + j]));
+      }
+      result.push(rescale(element, inner, config));
+    }
+  }
+  return result;
+}
+
+/**
+ * Multiplies every element of a fixed-point matrix by a fixed-point scalar, rounding each product.
+ *
+ * @param matrix - The values of the matrix.
+ * @param scalar - The encoded scalar.
+ * @param config - The fixed-point format.
+ * @returns The rescaled products.
+ */
+export function fixed_scalar_mul(matrix: Field[], scalar: Field, config: FixedPointConfig): Field[] {
+  assert_fixed_range(scalar, config);
+  return matrix.map((x) => rescale(x.mul(scalar), 1, config));
+}
+
+/**
+ * Divides every element of a fixed-point matrix by a fixed-point scalar, rounding each quotient to
+ * the nearest representable value.
+ *
+ * For the numerator n = x * 2^frac_bits and the divisor d, the quotient q and remainder r are
+ * witnessed and constrained by 2n' + |d| = 2|d| * q + r with 0 <= r < 2|d|, where n' carries the
+ * sign of d. The sign of d is witnessed and enforced by range-checking |d|.
+ *
+ * @param matrix - The values of the matrix.
+ * @param scalar - The encoded divisor.
+ * @param config - The fixed-point format.
+ * @returns The rounded quotients.
+ * @throws An error if the scalar is zero.
+ */
+export function fixed_scalar_div(matrix: Field[], scalar: Field, config: FixedPointConfig): Field[] {
+  let bits = config.total_bits - 1;
+  let negative = Provable.witness(Bool, () => new Bool(to_signed(scalar) < 0n));
+  let divisor = Provable.if(negative, scalar.neg(), scalar);
+  // |d| - 1 in [0, 2^bits) proves both the sign and that the divisor is non-zero.
+  divisor.sub(Field(1)).toBits(bits);
+  let twice_divisor = divisor.mul(Field(2));
+
+  let result: Field[] = [];
+  for (let i = 0; i < matrix.length; i++) {
+    let numerator = matrix[i].mul(Field(1n << BigInt(config.frac_bits + 1)));
+    numerator = Provable.if(negative, numerator.neg(), numerator).add(divisor);
+
+    let [q, r] = Provable.witness(Provable.Array(Field, 2), () => {
+      let n = to_signed(numerator);
+      let d = twice_divisor.toBigInt();
+      let q = n >= 0n ? n / d : -((-n + d - 1n) / d);
+      return [Field(q), Field(n - q * d)];
+    });
+    assert_fixed_range(q, config);
+    r.toBits(bits + 2);
+    twice_divisor.sub(Field(1)).sub(r).toBits(bits + 2);
+    q.mul(twice_divisor).add(r).assertEquals(numerator);
+
+    result.push(q);
+  }
+  return result;
+}
+
+/**
+ * Rescales a sum of products of fixed-point values back to the fixed-point format.
+ *
+ * @param x - The sum of products.
+ * @param terms - The number of products summed into x.
+ * @param config - The fixed-point format.
+ * @returns round(x / 2^frac_bits), range-checked.
+ */
+function rescale(x: Field, terms: number, config: FixedPointConfig): Field {
+  let bits = 2 * (config.total_bits - 1) + bit_length(BigInt(terms));
+  let result = round_shift(x, config.frac_bits, bits);
+  assert_fixed_range(result, config);
+  return result;
+}
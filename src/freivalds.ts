@@ -0,0 +1,91 @@
+/*
+ * freivalds.ts
+ *
+ * Randomized verification of matrix products with Freivalds' algorithm.
+ *
+ * To check C == A * B for an m x k matrix A and a k x n matrix B, pick a random vector v and
+ * compare A * (B * v) with C * v. This costs O(mk + kn + mn) multiplications instead of the
+ * O(mkn) of computing the product. Here v = (1, r, r^2, ..., r^(n-1)) for a challenge r, so a
+ * wrong C passes a round only if r is a root of a non-zero polynomial of degree below n, which
+ * happens with probability at most (n - 1) / p per round.
+ *
+ * The challenge is derived non-interactively (Fiat-Shamir) by hashing A, B and C with Poseidon,
+ * so the prover cannot choose C after seeing r. Each additional round uses a fresh challenge.
+ */
+
+import { Field, Poseidon, Provable } from 'o1js';
+import { NativeMatrix } from './native.js';
+
+/**
+ * Asserts that C = A * B using Freivalds' test.
+ *
+ * @param a - The values of A.
+ * @param b - The values of B.
+ * @param c - The values of C.
+ * @param shape - The dimensions [m, k, n] of the product.
+ * @param digests - Poseidon digests binding A, B and C, used to derive the challenges.
+ * @param rounds - The number of independent rounds.
+ */
+export function assert_product(
+  a: Field[],
+  b: Field[],
+  c: Field[],
+  shape: [number, number, number],
+  digests: Field[],
+  rounds: number
+) {
+  let [m, k, n] = shape;
+  if (!Number.isInteger(rounds) || rounds < 1) {
+    throw new Error('Freivalds verification needs at least one round');
+  }
+
+  for (let round = 0; round < rounds; round++) {
+    let r = Poseidon.hash([...digests, Field(round)]);
+
+    let v: Field[] = [Field(1)];
+    for (let j = 1; j < n; j++) v.push(v[j - 1].mul(r));
+
+    let bv = mat_vec(b, v, k, n);
+    let abv = mat_vec(a, bv, m, k);
+    let cv = mat_vec(c, v, m, n);
+    for (let i = 0; i < m; i++) {
+      abv[i].assertEquals(cv[i], 'Matrix product does not match');
+    }
+  }
+}
+
+/**
+ * Witnesses the product C = A * B, computed out of circuit. The product is not constrained here.
+ *
+ * @param a - The values of A.
+ * @param b - The values of B.
+ * @param shape - The dimensions [m, k, n] of the product.
+ * @returns The values of C.
+ */
+export function witness_product(a: Field[], b: Field[], shape: [number, number, number]): Field[] {
+  let [m, k, n] = shape;
+  return Provable.witness(Provable.Array(Field, m * n), () =>
+    NativeMatrix.from_fields(a, [m, k]).mul(NativeMatrix.from_fields(b, [k, n])).to_fields()
+  );
+}
+
+/**
+ * Multiplies a matrix with a vector.
+ *
+ * @param matrix - The values of the matrix.
+ * @param vector - The values of the vector.
+ * @param rows - The number of rows of the matrix.
+ * @param cols - The number of columns of the matrix.
+ * @returns The values of the product vector.
+ */
+function mat_vec(matrix: Field[], vector: Field[], rows: number, cols: number): Field[] {
+  let result: Field[] = [];
+  for (let i = 0; i < rows; i++) {
+    let element = Field(0);
+    for (let j = 0; j < cols; j++) {
+      element = element.add(matrix[i * cols + j].mul(vector[j]));
+    }
+    result.push(element);
+  }
+  return result;
+}
@@ -0,0 +1,257 @@
+/*
+ * gadgets.ts
+ *
+ * Small provable building blocks for bounded integer arithmetic on field elements.
+ *
+ * Field elements carry no notion of sign or magnitude, so every helper in this module takes an
+ * explicit bit bound and interprets its inputs as signed integers x with |x| < 2^bits. Negative
+ * integers are represented the usual way, as p - |x|. All helpers work both inside a circuit and
+ * on constant Field elements outside of one.
+ */
+
+import { Field, Provable, Bool, Gadgets } from 'o1js';
+
+/**
+ * Returns the number of bits needed to represent the absolute value of a bigint.
+ *
+ * @param x - The integer to measure.
+ * @returns The bit length of |x| (0 for x = 0).
+ */
+export function bit_length(x: bigint): number {
+  if (x < 0n) x = -x;
+  let bits = 0;
+  while (x > 0n) {
+    x >>= 1n;
+    bits += 1;
+  }
+  return bits;
+}
+
+/**
+ * Returns the number of bits of a bound, rounded up to a multiple of 16 so that the range check
+ * uses lookups and reports its message.
+ *
+ * @param bound - The largest value to range-check.
+ * @returns The number of bits.
+ */
+export function lookup_bits(bound: bigint): number {
+  return 16 * Math.max(Math.ceil(bit_length(bound) / 16), 1);
+}
+
+/**
+ * Interprets a Field value as a signed integer in (-p/2, p/2).
+ * Only usable on constants or inside prover code.
+ *
+ * @param x - The Field element to convert.
+ * @returns The signed bigint represented by x.
+ */
+export function to_signed(x: Field): bigint {
+  let value = x.toBigInt();
+  return value > Field.ORDER / 2n ? value - Field.ORDER : value;
+}
+
+/**
+ * Asserts that a value lies in [0, 2^bits).
+ * Uses the lookup-based range checks of o1js where the bit width allows it.
+ *
+ * @param x - The value to range-check.
+ * @param bits - The number of bits.
+ * @param message - Optional message for a failing check.
+ */
+export function assert_bits(x: Field, bits: number, message?: string) {
+  if (bits === 8) {
+    Gadgets.rangeCheck8(x);
+  } else if (bits > 0 && bits % 16 === 0) {
+    Gadgets.rangeCheckN(bits, x, message);
+  } else {
+    x.toBits(bits);
+  }
+}
+
+/**
+ * Asserts that a signed value lies in [-2^bits, 2^bits).
+ *
+ * @param x - The value to range-check.
+ * @param bits - The bit bound on |x|.
+ * @param message - Optional message for a failing check.
+ */
+export function assert_signed_bits(x: Field, bits: number, message?: string) {
+  assert_bits(x.add(Field(1n << BigInt(bits))), bits + 1, message);
+}
+
+/**
+ * Asserts that |x| <= bound for a signed value x.
+ *
+ * Both x + bound and bound - x are range-checked to be non-negative, which only holds for x in
+ * [-bound, bound].
+ *
+ * @param x - The value to check.
+ * @param bound - The non-negative bound on |x|.
+ * @param message - Optional message for a failing check.
+ */
+export function assert_abs_at_most(x: Field, bound: bigint, message?: string) {
+  let bits = bit_length(2n * bound) + 1;
+  assert_bits(x.add(Field(bound)), bits, message);
+  assert_bits(Field(bound).sub(x), bits, message);
+}
+
+/**
+ * Returns |x| for a signed value x with |x| < 2^bits. The magnitude m is witnessed, range-checked
+ * to [0, 2^bits) and constrained by (m - x) * (m + x) = 0.
+ *
+ * @param x - The signed value.
+ * @param bits - The bit bound on |x|.
+ * @returns The absolute value.
+ */
+export function abs_signed(x: Field, bits: number): Field {
+  let magnitude = Provable.witness(Field, () => {
+    let value = to_signed(x);
+    return Field(value < 0n ? -value : value);
+  });
+  assert_bits(magnitude, bits);
+  magnitude.sub(x).mul(magnitude.add(x)).assertEquals(Field(0), 'Absolute value does not match');
+  return magnitude;
+}
+
+/**
+ * Asserts that |x| * 2^shift <= bound for a signed value x and a provable, non-negative bound.
+ *
+ * As in assert_abs_at_most, bound - x * 2^shift and bound + x * 2^shift are range-checked to be
+ * non-negative. The check is sound as long as |x| * 2^shift does not wrap around the modulus, which
+ * the caller ensures by range-checking the operands x is computed from.
+ *
+ * @param x - The value to check.
+ * @param shift - The power of two x is scaled by.
+ * @param bound - The bound on the scaled value.
+ * @param bits - A bit bound on |x| * 2^shift and on the bound.
+ * @param message - Optional message for a failing check.
+ */
+export function assert_scaled_abs_at_most(x: Field, shift: number, bound: Field, bits: number, message?: string) {
+  let scaled = x.mul(Field(1n << BigInt(shift)));
+  // A multiple of 16 bits, so that the lookup-based range check reports the message.
+  let width = Math.ceil((bits + 1) / 16) * 16;
+  assert_bits(bound.sub(scaled), width, message);
+  assert_bits(bound.add(scaled), width, message);
+}
+
+/**
+ * Returns whether a < b for signed values with |a|, |b| < 2^bits.
+ *
+ * The difference b - a - 1 is shifted by 2^(bits + 1) so that it is non-negative, and the top bit
+ * of its decomposition tells whether the unshifted difference was non-negative.
+ *
+ * @param a - The left-hand side.
+ * @param b - The right-hand side.
+ * @param bits - The bit bound on |a| and |b|.
+ * @returns A Bool that is true iff a < b.
+ */
+export function less_than_signed(a: Field, b: Field, bits: number): Bool {
+  let shifted = b.sub(a).sub(Field(1)).add(Field(1n << BigInt(bits + 1)));
+  return shifted.toBits(bits + 2)[bits + 1];
+}
+
+/**
+ * Clamps a signed value to the interval [lo, hi].
+ *
+ * @param x - The value to clamp, with |x| < 2^bits.
+ * @param lo - The lower bound.
+ * @param hi - The upper bound.
+ * @param bits - The bit bound on |x|, |lo| and |hi|.
+ * @returns The clamped value.
+ */
+export function clamp_signed(x: Field, lo: bigint, hi: bigint, bits: number): Field {
+  let below = less_than_signed(x, Field(lo), bits);
+  x = Provable.if(below, Field(lo), x);
+  let above = less_than_signed(Field(hi), x, bits);
+  return Provable.if(above, Field(hi), x);
+}
+
+/**
+ * Divides a signed value by 2^shift and rounds to the nearest integer (halves round up).
+ *
+ * The quotient and remainder are witnessed and constrained by
+ *   x + 2^(shift - 1) + offset = q * 2^shift + r,  0 <= r < 2^shift,
+ * where offset is a power of two that makes the left-hand side non-negative. Because both q and r
+ * are range-checked, the decomposition is the true integer one and the rounding is provable.
+ *
+ * @param x - The value to divide, with |x| < 2^bits.
+ * @param shift - The number of bits to shift out.
+ * @param bits - The bit bound on |x|.
+ * @returns round(x / 2^shift) as a signed Field value.
+ */
+export function round_shift(x: Field, shift: number, bits: number): Field {
+  if (shift === 0) return x;
+
+  let offset_bits = Math.max(bits, shift);
+  let offset = 1n << BigInt(offset_bits);
+  let shifted = x.add(Field((1n << BigInt(shift - 1)) + offset));
+
+  let [q, r] = Provable.witness(Provable.Array(Field, 2), () => {
+    let value = shifted.toBigInt();
+    return [Field(value >> BigInt(shift)), Field(value & ((1n << BigInt(shift)) - 1n))];
+  });
+  assert_bits(r, shift);
+  assert_bits(q, offset_bits + 2 - shift);
+  q.mul(Field(1n << BigInt(shift))).add(r).assertEquals(shifted);
+
+  return q.sub(Field(offset >> BigInt(shift)));
+}
+
+/**
+ * Divides a signed value by a positive integer constant and rounds to the nearest integer (halves
+ * round up).
+ *
+ * With offset = divisor * 2^bits making x + offset non-negative, the quotient and remainder are
+ * witnessed and constrained by
+ *   2 * (x + offset) + divisor = 2 * divisor * q + r,  0 <= r < 2 * divisor.
+ *
+ * @param x - The value to divide, with |x| < divisor * 2^bits.
+ * @param divisor - The positive integer divisor.
+ * @param bits - The bit bound on |x| / divisor.
+ * @returns round(x / divisor) as a signed Field value.
+ */
+export function div_round(x: Field, divisor: number, bits: number): Field {
+  if (divisor === 1) return x;
+  let d = BigInt(divisor);
+  let offset = d << BigInt(bits);
+  let shifted = x.add(Field(offset)).mul(2).add(Field(d));
+
+  let [q, r] = Provable.witness(Provable.Array(Field, 2), () => {
+    let value = shifted.toBigInt();
+    return [Field(value / (2n * d)), Field(value % (2n * d))];
+  });
+  let r_bits = bit_length(2n * d);
+  assert_bits(r, r_bits);
+  assert_bits(Field(2n * d - 1n).sub(r), r_bits);
+  assert_bits(q, bits + 2);
+  q.mul(Field(2n * d)).add(r).assertEquals(shifted);
+
+  return q.sub(Field(1n << BigInt(bits)));
+}
+
+/**
+ * Returns a one-hot selector for an index that may be a circuit variable.
+ *
+ * The selector is witnessed as booleans and constrained to have exactly one true entry, at the
+ * position equal to the index, which also proves 0 <= index < size.
+ *
+ * @param index - The index to select.
+ * @param size - The number of positions.
+ * @param message - Optional message for an index out of range.
+ * @returns size Bools, of which only the one at the index is true.
+ */
+export function one_hot(index: Field, size: number, message?: string): Bool[] {
+  let selection = Provable.witness(Provable.Array(Bool, size), () => {
+    let i = index.toBigInt();
+    return Array.from({ length: size }, (_, j) => new Bool(BigInt(j) === i));
+  });
+  let count = Field(0);
+  let position = Field(0);
+  selection.forEach((selected, j) => {
+    count = count.add(selected.toField());
+    position = position.add(Provable.if(selected, Field(j), Field(0)));
+  });
+  count.assertEquals(Field(1), message);
+  position.assertEquals(index, message);
+  return selection;
+}
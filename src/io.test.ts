@@ -0,0 +1,138 @@
+import { jest } from '@jest/globals';
+import { Matrix } from './matrix_ops';
+import { encode_scale } from './quantization';
+import { FixedPointConfig, encode_fixed } from './fixed_point';
+import { parse_npy } from './io';
+import { fields } from './test_utils';
+
+import { Field } from 'o1js';
+
+jest.useFakeTimers();
+
+describe('Matrix import and export', () => {
+
+    // Builds a .npy file the way numpy.save lays it out, with the data written by `write`.
+    function npy(descr: string, shape: string, fortran: boolean, size: number, write: (view: DataView) => void): Uint8Array {
+        let header = `{'descr': '${descr}', 'fortran_order': ${fortran ? 'True' : 'False'}, 'shape': ${shape}, }`;
+        header += ' '.repeat((64 - ((header.length + 11) % 64)) % 64) + '\n';
+        let buffer = new Uint8Array(10 + header.length + size);
+        buffer.set([0x93, ...'NUMPY'.split('').map((c) => c.charCodeAt(0)), 1, 0]);
+        new DataView(buffer.buffer).setUint16(8, header.length, true);
+        buffer.set(new TextEncoder().encode(header), 10);
+        write(new DataView(buffer.buffer, 10 + header.length));
+        return buffer;
+    }
+
+    let config: FixedPointConfig = { frac_bits: 16, total_bits: 48 };
+
+    it('should round-trip through JSON', async () => {
+
+        let plain = new Matrix(fields([1, -2, 3, -4, 5, -6]), [2, 3], Field(0), Field(1));
+        let json = plain.to_json();
+        expect(json).toEqual({ shape: [2, 3], values: ['1', '-2', '3', '-4', '5', '-6'], zero_point: '0', scale: '1' });
+        expect(Matrix.from_json(JSON.stringify(json)).values).toEqual(plain.values);
+        expect(Matrix.from_json(json).bound).toEqual(6n);
+        expect(Matrix.Typed(2, 3).fromJSON(json).values).toEqual(plain.values);
+
+        let quantized = new Matrix(fields([130, 0, 255, 12]), [2, 2], Field(128), encode_scale(0.05));
+        let restored = Matrix.from_json(JSON.parse(JSON.stringify(quantized.to_json())));
+        expect(restored.values).toEqual(quantized.values);
+        expect(restored.zero_point).toEqual(quantized.zero_point);
+        expect(restored.scale).toEqual(quantized.scale);
+
+        let fixed = Matrix.from_fixed_point([1.5, -0.25].map((x) => encode_fixed(x, config)), [1, 2], config);
+        let fixed_restored = Matrix.from_json(fixed.to_json());
+        expect(fixed_restored.fixed_point).toEqual(config);
+        expect(fixed_restored.values).toEqual(fixed.values);
+
+    });
+
+    it('should read integer and float .npy files', async () => {
+
+        // A Fortran-ordered big-endian int16 matrix [[1, -2, 3], [4, 5, -6]].
+        let fortran = npy('>i2', '(2, 3)', true, 12, (view) => {
+            [1, 4, -2, 5, 3, -6].forEach((x, k) => view.setInt16(2 * k, x, false));
+        });
+        let matrix = Matrix.from_npy(fortran);
+        expect(matrix.shape).toEqual([2, 3]);
+        expect(matrix.values).toEqual(fields([1, -2, 3, 4, 5, -6]));
+        expect(matrix.bound).toEqual(6n);
+
+        let vector = npy('|u1', '(4,)', false, 4, (view) => [0, 7, 200, 255].forEach((x, k) => view.setUint8(k, x)));
+        expect(Matrix.from_npy(vector).shape).toEqual([1, 4]);
+
+        let weights = npy('<f4', '(2, 2)', false, 16, (view) => {
+            [0.5, -1.25, 20, 0.02].forEach((x, k) => view.setFloat32(4 * k, x, true));
+        });
+        let quantized = Matrix.from_npy(weights, { quant: { scale: 0.05, zero_point: 128 } });
+        expect(quantized.values).toEqual(fields([138, 103, 255, 128]));
+        expect(quantized.zero_point).toEqual(Field(128));
+        expect(quantized.scale).toEqual(encode_scale(0.05));
+
+        let signed = Matrix.from_npy(weights, { quant: { scale: 0.05, zero_point: 0, dtype: 'int8' } });
+        expect(signed.values).toEqual(fields([10, -25, 127, 0]));
+
+        let fixed = Matrix.from_npy(weights, { fixed_point: config });
+        expect(fixed.values).toEqual([0.5, -1.25, 20, 0.02].map((x) => encode_fixed(Math.fround(x), config)));
+        expect(fixed.fixed_point).toEqual(config);
+
+        expect(() => Matrix.from_npy(weights)).toThrow('Real values need a fixed-point format or quantization parameters');
+        // With quantization parameters, integers are real values too.
+        let clamped = Matrix.from_npy(vector, { quant: { scale: 0.1, zero_point: 0, dtype: 'int8' } });
+        expect(clamped.values).toEqual(fields([0, 70, 127, 127]));
+        let nan = npy('<f8', '(1, 2)', false, 16, (view) => [1, NaN].forEach((x, k) => view.setFloat64(8 * k, x, true)));
+        expect(() => Matrix.from_npy(nan, { fixed_point: config })).toThrow('Invalid .npy value NaN');
+        let inf = npy('<f4', '(1,)', false, 4, (view) => view.setFloat32(0, -Infinity, true));
+        expect(() => Matrix.from_npy(inf, { quant: { scale: 0.1, zero_point: 0 } })).toThrow('Invalid .npy value -Infinity');
+        expect(() => Matrix.from_npy(npy('<i4', '(1, 2, 2)', false, 16, () => {}))).toThrow(
+            'Expected a 1- or 2-dimensional array, got 3 dimensions'
+        );
+        expect(() => Matrix.from_npy(npy('<c8', '(1, 1)', false, 8, () => {}))).toThrow('Unsupported .npy type <c8');
+        expect(() => Matrix.from_npy(new Uint8Array(16))).toThrow('Not a .npy file');
+
+    });
+
+    it('should write .npy files', async () => {
+
+        let matrix = new Matrix(fields([1, -2, 3, -4, 5, -6]), [3, 2], Field(0), Field(1));
+        let bytes = matrix.to_npy();
+        expect((10 + new DataView(bytes.buffer).getUint16(8, true)) % 64).toEqual(0);
+        expect(parse_npy(bytes)).toEqual({ shape: [3, 2], values: [1n, -2n, 3n, -4n, 5n, -6n] });
+        expect(Matrix.from_npy(bytes).values).toEqual(matrix.values);
+
+        let fixed = Matrix.from_fixed_point([1.5, -0.25].map((x) => encode_fixed(x, config)), [1, 2], config);
+        expect(parse_npy(fixed.to_npy({ real: true })).values).toEqual([1.5, -0.25]);
+
+        let quantized = new Matrix(fields([138, 103]), [1, 2], Field(128), encode_scale(0.25));
+        expect(parse_npy(quantized.to_npy({ real: true })).values).toEqual([2.5, -6.25]);
+        expect(parse_npy(quantized.to_npy()).values).toEqual([138n, 103n]);
+
+    });
+
+    it('should read and write CSV', async () => {
+
+        let matrix = Matrix.from_csv('1, -2, 3\n4, 5, -6\n\n');
+        expect(matrix.shape).toEqual([2, 3]);
+        expect(matrix.values).toEqual(fields([1, -2, 3, 4, 5, -6]));
+        expect(matrix.to_csv()).toEqual('1,-2,3\n4,5,-6\n');
+
+        let fixed = Matrix.from_csv('0.5,-1.25\r\n2,1e-1\r\n', { fixed_point: config });
+        expect(fixed.values).toEqual([0.5, -1.25, 2, 0.1].map((x) => encode_fixed(x, config)));
+        expect(fixed.to_csv({ real: true })).toEqual('0.5,-1.25\n2,0.100006103515625\n');
+
+        let quant = { scale: 0.1, zero_point: 128 };
+        expect(Matrix.from_csv('0,0.5\n1,-0.5\n', { quant }).values).toEqual(fields([128, 133, 138, 123]));
+        expect(Matrix.from_csv('-2,2.5\n', { quant }).values).toEqual(fields([108, 153]));
+        expect(Matrix.from_real([1, -2, 0.5], [1, 3], { quant }).values).toEqual(
+            Matrix.from_csv('1.0,-2.0,0.5\n', { quant }).values
+        );
+
+        expect(() => Matrix.from_csv('1,2\n3\n')).toThrow('CSV row 2 has 1 values, expected 2');
+        expect(() => Matrix.from_csv('1,x\n')).toThrow("Invalid CSV value 'x'");
+        expect(() => Matrix.from_csv('0.5\n', { fixed_point: config, quant: { scale: 1, zero_point: 0 } })).toThrow(
+            'Choose either a fixed-point format or quantization parameters'
+        );
+
+    });
+
+});
@@ -0,0 +1,235 @@
+/*
+ * io.ts
+ *
+ * Reading and writing numeric arrays in NumPy .npy and CSV formats.
+ *
+ * These functions only deal with the file formats: they turn bytes or text into a shape and a list
+ * of numbers, and back. Matrix.from_npy, Matrix.from_csv and the corresponding export methods
+ * convert the numbers into field elements, applying a fixed-point or quantization conversion to
+ * real values.
+ *
+ * Integers are read as bigints and real numbers as JS numbers, so that 64-bit integers are exact.
+ * The .npy reader supports format versions 1 to 3 with C or Fortran order, little- or big-endian
+ * integer types of 8 to 64 bits, bools, and 32- and 64-bit floats. Arrays must have one or two
+ * dimensions; a vector of length n is read as a 1 x n matrix.
+ */
+
+/** A numeric array read from a file, in row-major order. */
+export interface NumericArray {
+  shape: [number, number];
+  values: (bigint | number)[];
+}
+
+/** The magic string at the start of every .npy file. */
+const NPY_MAGIC = '\x93NUMPY';
+
+/** Byte sizes and kinds of the supported .npy element types, by type character and size. */
+const NPY_KINDS: Record<string, number[]> = {
+  b: [1],
+  i: [1, 2, 4, 8],
+  u: [1, 2, 4, 8],
+  f: [4, 8],
+};
+
+/**
+ * Parses a NumPy .npy file.
+ *
+ * @param buffer - The contents of the file.
+ * @returns The shape and the values in row-major order; integers and bools as bigints, floats as numbers.
+ * @throws Error if the file is malformed, uses an unsupported type or number of dimensions, or holds
+ *   a float that is NaN or infinite.
+ */
+export function parse_npy(buffer: Uint8Array): NumericArray {
+  let magic = String.fromCharCode(...buffer.subarray(0, 6));
+  if (magic !== NPY_MAGIC) {
+    throw new Error('Not a .npy file');
+  }
+  let view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  let major = buffer[6];
+  if (major < 1 || major > 3) {
+    throw new Error(`Unsupported .npy format version ${major}`);
+  }
+  let header_length = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  let offset = major === 1 ? 10 : 12;
+  let header = new TextDecoder().decode(buffer.subarray(offset, offset + header_length));
+  offset += header_length;
+
+  let descr = /'descr'\s*:\s*'([^']*)'/.exec(header)?.[1];
+  let fortran = /'fortran_order'\s*:\s*(True|False)/.exec(header)?.[1];
+  let dims = /'shape'\s*:\s*\(([^)]*)\)/.exec(header)?.[1];
+  if (descr === undefined || fortran === undefined || dims === undefined) {
+    throw new Error('Malformed .npy header');
+  }
+
+  let [order, kind, size] = [descr[0], descr[1], Number(descr.slice(2))];
+  if (!'<>|='.includes(order) || !NPY_KINDS[kind]?.includes(size)) {
+    throw new Error(`Unsupported .npy type ${descr}`);
+  }
+  let little = order !== '>';
+
+  let sizes = dims
+    .split(',')
+    .map((d) => d.trim())
+    .filter((d) => d !== '')
+    .map(Number);
+  if (sizes.length < 1 || sizes.length > 2) {
+    throw new Error(`Expected a 1- or 2-dimensional array, got ${sizes.length} dimensions`);
+  }
+  let shape: [number, number] = sizes.length === 1 ? [1, sizes[0]] : [sizes[0], sizes[1]];
+  let count = shape[0] * shape[1];
+  if (offset + count * size > buffer.byteLength) {
+    throw new Error('Unexpected end of .npy data');
+  }
+
+  let values: (bigint | number)[] = [];
+  for (let k = 0; k < count; k++) {
+    let value = read_element(view, offset + k * size, kind, size, little);
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error(`Invalid .npy value ${value}`);
+    }
+    values.push(value);
+  }
+  if (fortran === 'True' && sizes.length === 2) {
+    values = transpose(values, [shape[1], shape[0]]);
+  }
+  return { shape, values };
+}
+
+/**
+ * Writes a NumPy .npy file in format version 1.0 and C order.
+ *
+ * @param array - The shape and the values in row-major order. Bigints are written as signed
+ *   64-bit integers, numbers as 64-bit floats; all values must be of the same kind.
+ * @returns The contents of the file.
+ * @throws Error if the values mix integers and floats or an integer does not fit in 64 bits.
+ */
+export function write_npy(array: NumericArray): Uint8Array {
+  let floats = array.values.some((x) => typeof x === 'number');
+  if (floats && array.values.some((x) => typeof x === 'bigint')) {
+    throw new Error('Cannot write integers and floats to the same array');
+  }
+  let descr = floats ? '<f8' : '<i8';
+  let header = `{'descr': '${descr}', 'fortran_order': False, 'shape': (${array.shape[0]}, ${array.shape[1]}), }`;
+  // The header is padded with spaces and a newline so that the data is 64-byte aligned.
+  let padding = 64 - ((10 + header.length + 1) % 64);
+  header += ' '.repeat(padding % 64) + '\n';
+
+  let buffer = new Uint8Array(10 + header.length + 8 * array.values.length);
+  let view = new DataView(buffer.buffer);
+  buffer.set([...NPY_MAGIC].map((c) => c.charCodeAt(0)));
+  buffer.set([1, 0], 6);
+  view.setUint16(8, header.length, true);
+  buffer.set(new TextEncoder().encode(header), 10);
+
+  let offset = 10 + header.length;
+  array.values.forEach((x, k) => {
+    if (typeof x === 'number') {
+      view.setFloat64(offset + 8 * k, x, true);
+    } else {
+      if (x < -(1n << 63n) || x >= 1n << 63n) {
+        throw new Error(`Value ${x} does not fit in a 64-bit integer`);
+      }
+      view.setBigInt64(offset + 8 * k, x, true);
+    }
+  });
+  return buffer;
+}
+
+/**
+ * Parses comma-separated values, one matrix row per line. Empty lines are ignored.
+ *
+ * @param text - The CSV text.
+ * @returns The shape and the values in row-major order; integers as bigints, other numbers as numbers.
+ * @throws Error if the rows have different lengths or a value is not a number.
+ */
+export function parse_csv(text: string): NumericArray {
+  let rows = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .map((line) => line.split(',').map((cell) => parse_number(cell.trim())));
+  if (rows.length === 0) {
+    throw new Error('CSV input is empty');
+  }
+  let cols = rows[0].length;
+  rows.forEach((row, i) => {
+    if (row.length !== cols) {
+      throw new Error(`CSV row ${i + 1} has ${row.length} values, expected ${cols}`);
+    }
+  });
+  return { shape: [rows.length, cols], values: rows.flat() };
+}
+
+/**
+ * Writes comma-separated values, one matrix row per line.
+ *
+ * @param array - The shape and the values in row-major order.
+ * @returns The CSV text, ending with a newline.
+ */
+export function write_csv(array: NumericArray): string {
+  let [rows, cols] = array.shape;
+  let lines: string[] = [];
+  for (let i = 0; i < rows; i++) {
+    lines.push(array.values.slice(i * cols, (i + 1) * cols).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Reads one element of a .npy array.
+ *
+ * @param view - A view of the file.
+ * @param offset - The byte offset of the element.
+ * @param kind - The type character: 'b' (bool), 'i' (signed), 'u' (unsigned) or 'f' (float).
+ * @param size - The size of the element in bytes.
+ * @param little - Whether the element is little-endian.
+ * @returns The element, as a bigint for integers and bools or a number for floats.
+ */
+function read_element(view: DataView, offset: number, kind: string, size: number, little: boolean): bigint | number {
+  if (kind === 'f') {
+    return size === 4 ? view.getFloat32(offset, little) : view.getFloat64(offset, little);
+  }
+  let signed = kind === 'i';
+  switch (size) {
+    case 1:
+      return BigInt(signed ? view.getInt8(offset) : view.getUint8(offset));
+    case 2:
+      return BigInt(signed ? view.getInt16(offset, little) : view.getUint16(offset, little));
+    case 4:
+      return BigInt(signed ? view.getInt32(offset, little) : view.getUint32(offset, little));
+    default:
+      return signed ? view.getBigInt64(offset, little) : view.getBigUint64(offset, little);
+  }
+}
+
+/**
+ * Parses a CSV cell as an integer if possible, and as a real number otherwise.
+ *
+ * @param cell - The trimmed cell.
+ * @returns The value.
+ * @throws Error if the cell is not a number.
+ */
+function parse_number(cell: string): bigint | number {
+  if (/^[+-]?\d+$/.test(cell)) return BigInt(cell);
+  let value = Number(cell);
+  if (cell === '' || !Number.isFinite(value)) {
+    throw new Error(`Invalid CSV value '${cell}'`);
+  }
+  return value;
+}
+
+/**
+ * Transposes values in row-major order.
+ *
+ * @param values - The values.
+ * @param shape - The shape [rows, columns] of the values.
+ * @returns The values of the transpose in row-major order.
+ */
+function transpose<T>(values: T[], shape: [number, number]): T[] {
+  let [rows, cols] = shape;
+  let result: T[] = [];
+  for (let j = 0; j < cols; j++) {
+    for (let i = 0; i < rows; i++) result.push(values[i * cols + j]);
+  }
+  return result;
+}
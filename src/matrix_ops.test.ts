@@ -1,7 +1,11 @@
 import { jest } from '@jest/globals';
-import { Matrix } from './matrix_ops';
+import { Matrix, Shape } from './matrix_ops';
+import { QuantParams, encode_scale } from './quantization';
+import { FixedPointConfig, decode_fixed, encode_fixed } from './fixed_point';
+import { assert_permutation, assert_rounding_residual } from './decomposition';
+import { field_matrix, fields, int_matrix } from './test_utils';
 
-import { Field } from 'o1js';
+import { Field, Provable, ZkProgram } from 'o1js';
 
 jest.useFakeTimers();
 
@@ -24,8 +28,8 @@ describe('Matrix non-quant operations', () => {
             exp_out.push(val1.add(val2));
         }
 
-        let matrix1 = new Matrix(matrix1_values, [Field(shape[0]), Field(shape[1])], Field(0), Field(1));
-        let matrix2 = new Matrix(matrix2_values, [Field(shape[0]), Field(shape[1])], Field(0), Field(1));
+        let matrix1 = new Matrix(matrix1_values, [shape[0], shape[1]], Field(0), Field(1));
+        let matrix2 = new Matrix(matrix2_values, [shape[0], shape[1]], Field(0), Field(1));
 
         let out = matrix1.add(matrix2);
 
@@ -50,8 +54,8 @@ describe('Matrix non-quant operations', () => {
             exp_out.push(val1.sub(val2));
         }
 
-        let matrix1 = new Matrix(matrix1_values, [Field(shape[0]), Field(shape[1])], Field(0), Field(1));
-        let matrix2 = new Matrix(matrix2_values, [Field(shape[0]), Field(shape[1])], Field(0), Field(1));
+        let matrix1 = new Matrix(matrix1_values, [shape[0], shape[1]], Field(0), Field(1));
+        let matrix2 = new Matrix(matrix2_values, [shape[0], shape[1]], Field(0), Field(1));
 
         let out = matrix1.sub(matrix2);
 
@@ -76,8 +80,8 @@ describe('Matrix non-quant operations', () => {
             exp_out.push(val1.mul(val2));
         }
 
-        let matrix1 = new Matrix(matrix1_values, [Field(shape[0]), Field(shape[1])], Field(0), Field(1));
-        let matrix2 = new Matrix(matrix2_values, [Field(shape[0]), Field(shape[1])], Field(0), Field(1));
+        let matrix1 = new Matrix(matrix1_values, [shape[0], shape[1]], Field(0), Field(1));
+        let matrix2 = new Matrix(matrix2_values, [shape[0], shape[1]], Field(0), Field(1));
 
         let out = matrix1.hadamard_product(matrix2);
 
@@ -94,13 +98,13 @@ describe('Matrix non-quant operations', () => {
 
         let exp_out: Field[] = [58, 64, 139, 154].map((x) => Field(x));
 
-        let matrix1 = new Matrix(matrix1_values, [Field(matrix1_shape[0]), Field(matrix1_shape[1])], Field(0), Field(1));
-        let matrix2 = new Matrix(matrix2_values, [Field(matrix2_shape[0]), Field(matrix2_shape[1])], Field(0), Field(1));
+        let matrix1 = new Matrix(matrix1_values, [matrix1_shape[0], matrix1_shape[1]], Field(0), Field(1));
+        let matrix2 = new Matrix(matrix2_values, [matrix2_shape[0], matrix2_shape[1]], Field(0), Field(1));
 
         let out = matrix1.mul(matrix2);
 
         expect(out.values).toEqual(exp_out);
-        expect(out.shape).toEqual([Field(2), Field(2)]);
+        expect(out.shape).toEqual([2, 2]);
     });
 
     it('should  calculate scalar_mul and scalar div correctly', async () => {
@@ -121,7 +125,7 @@ describe('Matrix non-quant operations', () => {
             exp_div_out.push(val.div(scalar));
             val = val.mul(Field(2));
         }
-        let matrix = new Matrix(matrix_values, [Field(shape[0]), Field(shape[1])], Field(0), Field(1));
+        let matrix = new Matrix(matrix_values, [shape[0], shape[1]], Field(0), Field(1));
 
         let scalar_mul_out = matrix.scalar_mul(scalar);
         let scalar_div_out = matrix.scalar_div(scalar);
@@ -134,7 +138,7 @@ describe('Matrix non-quant operations', () => {
     it('should calculate determinant of matrix correctly', async () => {
 
         let matrix_values = [1, 2, 3, 4, 5, 6, 7, 8, 9].map((x) => Field(x));
-        let matrix_obj = new Matrix(matrix_values, [Field(3), Field(3)], Field(0), Field(1));
+        let matrix_obj = new Matrix(matrix_values, [3, 3], Field(0), Field(1));
 
         let det = matrix_obj.determinant();
         expect(det).toEqual(Field(0));
@@ -144,7 +148,7 @@ describe('Matrix non-quant operations', () => {
     it('should calculate adjoint of matrix correctly', async () => {
 
         let matrix_values = [0, 1, 2, 4, 5, 6, 7, 8, 0].map((x) => Field(x));
-        let matrix_obj = new Matrix(matrix_values, [Field(3), Field(3)], Field(0), Field(1));
+        let matrix_obj = new Matrix(matrix_values, [3, 3], Field(0), Field(1));
 
         let adj = matrix_obj.adjoint();
         expect(adj.values).toEqual([-48, 16, -4, 42, -14, 8, -3, 7, -4].map((x) => Field(x)));
@@ -155,10 +159,10 @@ describe('Matrix non-quant operations', () => {
     it('should calculate inverse of matrix correctly', async () => {
 
         let matrix_values = [0, 2, 3, 4, 5, 6, 7, 8, 9].map((x) => Field(x));
-        let matrix_obj = new Matrix(matrix_values, [Field(3), Field(3)], Field(0), Field(1));
+        let matrix_obj = new Matrix(matrix_values, [3, 3], Field(0), Field(1));
         let inv = matrix_obj.inverse();
 
-        let new_matrix = new Matrix(inv.values, [Field(3), Field(3)], Field(0), Field(1));
+        let new_matrix = new Matrix(inv.values, [3, 3], Field(0), Field(1));
         let I = matrix_obj.mul(new_matrix);
 
         expect(I.values).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1].map((x) => Field(x)));
@@ -166,4 +170,1315 @@ describe('Matrix non-quant operations', () => {
     });
 
 
-});
\ No newline at end of file
+});
+
+describe('Matrix quant operations', () => {
+
+    let params1 = { zero_point: Field(128), scale: encode_scale(0.05) };
+    let params2 = { zero_point: Field(100), scale: encode_scale(0.1) };
+    let out: QuantParams = { zero_point: Field(120), scale: encode_scale(0.12), dtype: 'uint8' };
+
+    let q1 = [12, 200, 128, 255, 0, 77];
+    let q2 = [100, 3, 250, 91, 180, 100];
+
+    function dequantize(q: number[], zero_point: number, scale: number): number[] {
+        return q.map((x) => (x - zero_point) * scale);
+    }
+
+    function quantize(real: number[]): number[] {
+        return real.map((x) => Math.min(255, Math.max(0, Math.round(x / 0.12) + 120)));
+    }
+
+    function expect_close(values: Field[], exp_out: number[]) {
+        values.forEach((x, i) => expect(Math.abs(Number(x.toBigInt()) - exp_out[i])).toBeLessThanOrEqual(1));
+    }
+
+    let r1 = dequantize(q1, 128, 0.05);
+    let r2 = dequantize(q2, 100, 0.1);
+    let matrix1 = new Matrix(q1.map((x) => Field(x)), [2, 3], params1.zero_point, params1.scale);
+    let matrix2 = new Matrix(q2.map((x) => Field(x)), [2, 3], params2.zero_point, params2.scale);
+
+    it('should add two quantized matrix correctly', async () => {
+
+        let result = matrix1.add(matrix2, out);
+
+        expect_close(result.values, quantize(r1.map((x, i) => x + r2[i])));
+        expect(result.zero_point).toEqual(out.zero_point);
+        expect(result.scale).toEqual(out.scale);
+
+    });
+
+    it('should subtract two quantized matrix correctly', async () => {
+
+        let result = matrix1.sub(matrix2, out);
+
+        expect_close(result.values, quantize(r1.map((x, i) => x - r2[i])));
+
+    });
+
+    it('should calculate hadamard_product of two quantized matrix correctly', async () => {
+
+        let result = matrix1.hadamard_product(matrix2, out);
+
+        expect_close(result.values, quantize(r1.map((x, i) => x * r2[i])));
+
+    });
+
+    it('should multiply two quantized matrix correctly', async () => {
+
+        let matrix3 = new Matrix(q2.map((x) => Field(x)), [3, 2], params2.zero_point, params2.scale);
+        let result = matrix1.mul(matrix3, out);
+
+        let exp_real: number[] = [];
+        for (let i = 0; i < 2; i++) {
+            for (let j = 0; j < 2; j++) {
+                let element = 0;
+                for (let k = 0; k < 3; k++) {
+                    element += r1[i * 3 + k] * r2[k * 2 + j];
+                }
+                exp_real.push(element);
+            }
+        }
+
+        expect_close(result.values, quantize(exp_real));
+        expect(result.shape).toEqual([2, 2]);
+
+    });
+
+    it('should clamp to the int8 range', async () => {
+
+        let int8_out: QuantParams = { zero_point: Field(-10), scale: encode_scale(0.01), dtype: 'int8' };
+        let result = matrix1.add(matrix2, int8_out);
+
+        expect(result.values[3]).toEqual(Field(127));
+        expect(result.values[0]).toEqual(Field(-128));
+
+    });
+
+    it('should satisfy the requantization constraints in a circuit', async () => {
+
+        let Quantized = Matrix.Typed(2, 3, { bits: 8, scale: params1.scale });
+        await Provable.runAndCheck(() => {
+            let matrix = Provable.witness(Quantized, () => matrix1);
+            let result = matrix.add(matrix2, out);
+            Provable.asProver(() => {
+                expect_close(result.values.map((x) => Field(x.toBigInt())), quantize(r1.map((x, i) => x + r2[i])));
+            });
+        });
+
+        // Requantization assumes 8-bit operands, so witnessed values must be range-checked.
+        await expect(Provable.runAndCheck(() => {
+            let values = Provable.witness(Provable.Array(Field, 6), () => q1.map((x) => Field(x)));
+            new Matrix(values, [2, 3], params1.zero_point, params1.scale).add(matrix2, out);
+        })).rejects.toThrow('Quantized add requires values range-checked to 8 bits');
+
+        let fixed = Matrix.from_fixed_point(fields([1, 2, 3, 4, 5, 6]), [2, 3], { frac_bits: 4, total_bits: 16 });
+        expect(() => fixed.mul(matrix2.transpose(), out)).toThrow('Quantized mul is not supported for fixed-point matrices');
+        let wide = new Matrix(fields([300, 0, 0, 0, 0, 0]), [2, 3], params1.zero_point, params1.scale);
+        expect(() => wide.add(matrix2, out)).toThrow('Quantized add requires values range-checked to 8 bits');
+
+    });
+
+});
+
+describe('Matrix fixed-point operations', () => {
+
+    let config: FixedPointConfig = { frac_bits: 16, total_bits: 48 };
+
+    function fixed_matrix(values: number[], shape: Shape): Matrix {
+        return Matrix.from_fixed_point(values.map((x) => encode_fixed(x, config)), shape, config);
+    }
+
+    function expect_close(values: Field[], exp_out: number[]) {
+        values.forEach((x, i) => expect(decode_fixed(x, config)).toBeCloseTo(exp_out[i], 4));
+    }
+
+    it('should multiply two signed fixed-point matrix correctly', async () => {
+
+        let matrix1 = fixed_matrix([1.5, -2.25, 0.5, 3, -1, 0.125], [2, 3]);
+        let matrix2 = fixed_matrix([-0.5, 2, 1.75, -3, 4, 0.25], [3, 2]);
+
+        let out = matrix1.mul(matrix2);
+
+        expect_close(out.values, [-2.6875, 9.875, -2.75, 9.03125]);
+        expect(out.fixed_point).toEqual(config);
+
+    });
+
+    it('should add and subtract negative values without wrapping', async () => {
+
+        let matrix1 = fixed_matrix([1.5, -2.25], [1, 2]);
+        let matrix2 = fixed_matrix([-3, 1], [1, 2]);
+
+        expect_close(matrix1.add(matrix2).values, [-1.5, -1.25]);
+        expect_close(matrix1.sub(matrix2).values, [4.5, -3.25]);
+
+    });
+
+    it('should calculate scalar_mul and scalar_div with rounding', async () => {
+
+        let matrix = fixed_matrix([1, -2, 3.5, 10], [2, 2]);
+
+        expect_close(matrix.scalar_mul(encode_fixed(-0.5, config)).values, [-0.5, 1, -1.75, -5]);
+        expect_close(matrix.scalar_div(encode_fixed(3, config)).values, [1 / 3, -2 / 3, 3.5 / 3, 10 / 3]);
+        expect_close(matrix.scalar_div(encode_fixed(-4, config)).values, [-0.25, 0.5, -0.875, -2.5]);
+
+        // 1 / 3 = 21845.33 / 2^16 rounds down, 2 / 3 = 43690.67 / 2^16 rounds up.
+        let divided = matrix.scalar_div(encode_fixed(3, config)).values;
+        expect(divided[0]).toEqual(Field(21845));
+        expect(divided[1]).toEqual(Field(-43691));
+
+    });
+
+    it('should reject values outside the fixed-point range', async () => {
+
+        let small: FixedPointConfig = { frac_bits: 4, total_bits: 8 };
+        expect(() => Matrix.from_fixed_point([encode_fixed(8, small)], [1, 1], small)).toThrow();
+
+        let matrix = Matrix.from_fixed_point([encode_fixed(7, small)], [1, 1], small);
+        expect(() => matrix.scalar_mul(encode_fixed(2, small))).toThrow();
+        expect(() => matrix.scalar_div(Field(0))).toThrow();
+
+    });
+
+    it('should refuse field-only operations on fixed-point matrices', async () => {
+
+        let matrix = fixed_matrix([1, 2, 3, 4], [2, 2]);
+
+        expect(() => matrix.inverse()).toThrow('inverse is not supported for fixed-point matrices');
+        expect(() => matrix.determinant()).toThrow();
+
+    });
+
+    it('should satisfy the fixed-point constraints in a circuit', async () => {
+
+        await Provable.runAndCheck(() => {
+            let values = Provable.witness(Provable.Array(Field, 4), () => [1, -2, 3.5, 10].map((x) => encode_fixed(x, config)));
+            let matrix = Matrix.from_fixed_point(values, [2, 2], config);
+            let divisor = Provable.witness(Field, () => encode_fixed(-4, config));
+            let out = matrix.mul(matrix).scalar_div(divisor);
+            Provable.asProver(() => {
+                expect_close(out.values.map((x) => Field(x.toBigInt())), [1.5, 5.5, -9.625, -23.25]);
+            });
+        });
+
+    });
+
+});
+
+describe('Matrix shapes', () => {
+
+    function matrix(shape: Shape): Matrix {
+        return new Matrix(new Array(shape[0] * shape[1]).fill(Field(1)), shape, Field(0), Field(1));
+    }
+
+    it('should report mismatched shapes with descriptive errors', async () => {
+
+        expect(() => matrix([2, 3]).mul(matrix([2, 3]))).toThrow('Cannot multiply a 2x3 matrix with a 2x3 matrix');
+        expect(() => matrix([2, 3]).add(matrix([3, 2]))).toThrow('Matrix shapes 2x3 and 3x2 do not match');
+        expect(() => matrix([2, 3]).determinant()).toThrow('determinant requires a square matrix, got 2x3');
+        expect(() => matrix([2, 2]).solve(matrix([3, 1]))).toThrow('Cannot solve a 2x2 system for a 3x1 right-hand side');
+        expect(() => matrix([2, 3]).dense(matrix([3, 2]), matrix([1, 3]))).toThrow('Expected a 1x2 bias, got 1x3');
+        expect(() => new Matrix([Field(1)], [0.5, 2], Field(0), Field(1))).toThrow('Invalid matrix shape 0.5x2');
+        expect(() => new Matrix([Field(1)], [1, 2], Field(0), Field(1))).toThrow('Values length does not match the shape');
+
+    });
+
+    it('should check shapes when the circuit is built', async () => {
+
+        let left = Matrix.Typed(2, 3);
+        let right = Matrix.Typed(2, 2);
+
+        await expect(Provable.constraintSystem(() => {
+            let a = Provable.witness(left, () => matrix([2, 3]));
+            let b = Provable.witness(right, () => matrix([2, 2]));
+            a.mul(b);
+        })).rejects.toThrow('Cannot multiply a 2x3 matrix with a 2x2 matrix');
+
+        let shape: Shape = [0, 0];
+        await Provable.runAndCheck(() => {
+            let a = Provable.witness(left, () => matrix([2, 3]));
+            shape = a.transpose().mul(a).shape;
+        });
+        expect(shape).toEqual([3, 3]);
+
+    });
+
+});
+
+describe('Matrix range-checked constructors', () => {
+
+    it('should record the bound of range-checked values', async () => {
+
+        let shape: Shape = [2, 2];
+
+        expect(Matrix.from_uint8([1, 2, 3, 255].map((x) => Field(x)), shape).bound).toEqual(255n);
+        expect(Matrix.from_uint32([1, 2, 3, 4].map((x) => Field(x)), shape).bound).toEqual((1n << 32n) - 1n);
+        expect(Matrix.from_int64([1, -2, 3, -4].map((x) => Field(x)), shape).bound).toEqual(1n << 63n);
+        expect(new Matrix([1, 2, 3, 4].map((x) => Field(x)), shape, Field(0), Field(1)).bound).toBeUndefined();
+
+    });
+
+    it('should reject values outside the range', async () => {
+
+        let shape: Shape = [1, 2];
+
+        expect(() => Matrix.from_uint8([Field(1), Field(256)], shape)).toThrow();
+        expect(() => Matrix.from_uint64([Field(1), Field(-1)], shape)).toThrow();
+        expect(() => Matrix.from_int64([Field(1), Field(1n << 63n)], shape)).toThrow();
+        expect(() => Matrix.from_int64([Field(1), Field(-(1n << 63n))], shape)).not.toThrow();
+
+    });
+
+    it('should reject out-of-range witnesses in a circuit', async () => {
+
+        await expect(Provable.runAndCheck(() => {
+            let values = Provable.witness(Provable.Array(Field, 2), () => [Field(3), Field(1n << 32n)]);
+            Matrix.from_uint32(values, [1, 2]);
+        })).rejects.toThrow();
+
+    });
+
+    it('should propagate bounds through arithmetic', async () => {
+
+        let matrix1 = Matrix.from_uint8([1, 2, 3, 4, 5, 6].map((x) => Field(x)), [2, 3]);
+        let matrix2 = Matrix.from_uint8([7, 8, 9, 10, 11, 12].map((x) => Field(x)), [3, 2]);
+
+        expect(matrix1.mul(matrix2).bound).toEqual(3n * 255n * 255n);
+        expect(matrix1.add(matrix1).bound).toEqual(510n);
+        expect(matrix1.scalar_mul(Field(-3)).bound).toEqual(765n);
+        expect(matrix1.transpose().bound).toEqual(255n);
+        expect(matrix1.scalar_div(Field(3)).bound).toBeUndefined();
+
+    });
+
+    it('should refuse products that may overflow the field modulus', async () => {
+
+        let shape: Shape = [2, 2];
+        let matrix = Matrix.from_uint64([1, 2, 3, 4].map((x) => Field(x)), shape);
+
+        let square = matrix.mul(matrix).mul(matrix);
+        expect(() => square.mul(square)).toThrow('Matrix operation may overflow the field modulus');
+
+    });
+
+});
+
+describe('Matrix provable type', () => {
+
+    let Matrix2x3 = Matrix.Typed(2, 3, { bits: 8 });
+    let matrix = Matrix.from_uint8([1, 2, 3, 4, 5, 6].map((x) => Field(x)), [2, 3]);
+
+    it('should round-trip through fields and JSON', async () => {
+
+        expect(Matrix2x3.sizeInFields()).toEqual(8);
+
+        let from_fields = Matrix2x3.fromFields(Matrix2x3.toFields(matrix));
+        expect(from_fields.values).toEqual(matrix.values);
+        expect(from_fields.shape).toEqual(matrix.shape);
+        expect(from_fields.bound).toEqual(255n);
+
+        let json = Matrix2x3.toJSON(matrix);
+        expect(json).toEqual({ shape: [2, 3], values: ['1', '2', '3', '4', '5', '6'], zero_point: '0', scale: '1' });
+        expect(Matrix2x3.fromJSON(json).values).toEqual(matrix.values);
+        expect(() => Matrix.Typed(3, 2).fromJSON(json)).toThrow('Expected a 3x2 matrix, got 2x3');
+
+    });
+
+    it('should keep a static scale out of the field representation', async () => {
+
+        let scale = Field(12345);
+        let Quantized = Matrix.Typed(1, 2, { scale });
+        let quantized = new Matrix([Field(7), Field(9)], [1, 2], Field(3), scale);
+
+        expect(Quantized.toFields(quantized)).toEqual([Field(7), Field(9), Field(3)]);
+        expect(Quantized.fromFields(Quantized.toFields(quantized)).scale).toEqual(scale);
+
+    });
+
+    it('should range-check witnessed matrices', async () => {
+
+        await Provable.runAndCheck(() => {
+            let witness = Provable.witness(Matrix2x3, () => matrix);
+            expect(witness.bound).toEqual(255n);
+        });
+
+        let too_large = new Matrix([1, 2, 3, 4, 5, 256].map((x) => Field(x)), [2, 3], Field(0), Field(1));
+        await expect(Provable.runAndCheck(() => {
+            Provable.witness(Matrix2x3, () => too_large);
+        })).rejects.toThrow();
+
+    });
+
+    it('should be usable as ZkProgram input and output', async () => {
+
+        let Matrix3x2 = Matrix.Typed(3, 2, { bits: 8 });
+        let Matrix2x2 = Matrix.Typed(2, 2);
+
+        let program = ZkProgram({
+            name: 'matrix-typed',
+            publicInput: Matrix2x3,
+            publicOutput: Matrix2x2,
+
+            methods: {
+                mul: {
+                    privateInputs: [Matrix3x2],
+
+                    async method(left: Matrix, right: Matrix) {
+                        return { publicOutput: left.mul(right) };
+                    },
+                },
+            },
+        });
+
+        let { mul } = await program.analyzeMethods();
+        expect(mul.rows).toBeGreaterThan(0);
+
+        let right = Matrix.from_uint8([7, 8, 9, 10, 11, 12].map((x) => Field(x)), [3, 2]);
+        let out = await program.rawMethods.mul(matrix, right);
+        expect(out.publicOutput.values).toEqual([58, 64, 139, 154].map((x) => Field(x)));
+
+    });
+
+});
+
+describe('Matrix witnessed determinant and inverse', () => {
+
+    function square(values: number[]): Matrix {
+        let n = Math.sqrt(values.length);
+        return new Matrix(values.map((x) => Field(x)), [n, n], Field(0), Field(1));
+    }
+
+    // Reference determinant by cofactor expansion along the first row.
+    function cofactor_determinant(values: Field[], n: number): Field {
+        if (n === 1) return values[0];
+        let det = Field(0);
+        for (let j = 0; j < n; j++) {
+            let minor = values.filter((_, k) => k >= n && k % n !== j);
+            let term = values[j].mul(cofactor_determinant(minor, n - 1));
+            det = j % 2 === 0 ? det.add(term) : det.sub(term);
+        }
+        return det;
+    }
+
+    it('should calculate determinants that need pivoting', async () => {
+
+        expect(square([0, 2, 3, 4, 5, 6, 7, 8, 9]).determinant()).toEqual(Field(3));
+        expect(square([0, 1, 0, 1, 0, 0, 0, 0, 1]).determinant()).toEqual(Field(-1));
+        expect(square([0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0]).determinant()).toEqual(Field(1));
+        expect(square([1, 2, 3, 4, 2, 4, 6, 8, 0, 1, 0, 1, 5, 5, 5, 5]).determinant()).toEqual(Field(0));
+
+    });
+
+    it('should agree with cofactor expansion on random matrices', async () => {
+
+        for (let n = 3; n <= 6; n++) {
+            let values = Array.from({ length: n * n }, () => Field.random());
+            let matrix = new Matrix(values, [n, n], Field(0), Field(1));
+            expect(matrix.determinant()).toEqual(cofactor_determinant(values, n));
+        }
+
+    });
+
+    it('should invert a matrix and reject singular ones', async () => {
+
+        let n = 6;
+        let values = Array.from({ length: n * n }, () => Field.random());
+        let matrix = new Matrix(values, [n, n], Field(0), Field(1));
+
+        let I = matrix.mul(matrix.inverse());
+        expect(I.values).toEqual(Array.from({ length: n * n }, (_, k) => Field(k % (n + 1) === 0 ? 1 : 0)));
+
+        expect(() => square([1, 2, 3, 4, 5, 6, 7, 8, 9]).inverse()).toThrow('Matrix is not invertible');
+
+    });
+
+    it('should verify the witnesses in a circuit', async () => {
+
+        let n = 5;
+        let values = Array.from({ length: n * n }, (_, k) => Field((k * k + 3 * k + 1) % 11));
+        values[0] = Field(0);
+
+        await Provable.runAndCheck(() => {
+            let witness = Provable.witness(Matrix.Typed(n, n), () => new Matrix(values, [n, n], Field(0), Field(1)));
+            let det = witness.determinant();
+            witness.inverse();
+            Provable.asProver(() => {
+                expect(Field(det.toBigInt())).toEqual(cofactor_determinant(values, n));
+            });
+        });
+
+    });
+
+    it('should keep the constraint count polynomial', async () => {
+
+        let n = 8;
+        let Square = Matrix.Typed(n, n);
+        let { rows } = await Provable.constraintSystem(() => {
+            let matrix = Provable.witness(Square, () => Square.empty());
+            matrix.inverse();
+            matrix.determinant();
+        });
+        expect(rows).toBeLessThan(4 * n * n * n);
+
+    });
+
+});
+
+describe('Matrix decompositions', () => {
+
+    it('should compute a verified LU decomposition with pivoting', async () => {
+
+        let values = [0, 2, 3, 4, 5, 6, 7, 8, 9].map((x) => Field(x));
+        let matrix = new Matrix(values, [3, 3], Field(0), Field(1));
+
+        let { p, l, u } = matrix.lu();
+
+        expect(p.mul(matrix).values).toEqual(l.mul(u).values);
+        expect(p.values).not.toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1].map((x) => Field(x)));
+        for (let i = 0; i < 3; i++) {
+            expect(l.values[i * 3 + i]).toEqual(Field(1));
+            for (let j = i + 1; j < 3; j++) {
+                expect(l.values[i * 3 + j]).toEqual(Field(0));
+                expect(u.values[j * 3 + i]).toEqual(Field(0));
+            }
+        }
+
+    });
+
+    it('should reject a cheating permutation in a circuit', async () => {
+
+        let values = [0, 2, 3, 4, 5, 6, 7, 8, 9].map((x) => Field(x));
+        let matrix = new Matrix(values, [3, 3], Field(0), Field(1));
+
+        await Provable.runAndCheck(() => {
+            Provable.witness(Matrix.Typed(3, 3), () => matrix).lu();
+        });
+
+        // A matrix with a doubled row and a missing one is not a permutation.
+        await expect(Provable.runAndCheck(() => {
+            let p = Provable.witness(Provable.Array(Field, 4), () => [1, 0, 1, 0].map((x) => Field(x)));
+            assert_permutation(p, 2);
+        })).rejects.toThrow();
+
+    });
+
+    it('should compute a verified Cholesky factor of fixed-point data', async () => {
+
+        let config: FixedPointConfig = { frac_bits: 16, total_bits: 48 };
+        let real = [4, 12, -16, 12, 37, -43, -16, -43, 98.5];
+        let matrix = Matrix.from_fixed_point(real.map((x) => encode_fixed(x, config)), [3, 3], config);
+
+        let l = matrix.cholesky();
+
+        let expected = [2, 0, 0, 6, 1, 0, -8, 5, Math.sqrt(9.5)];
+        l.values.forEach((x, i) => expect(decode_fixed(x, config)).toBeCloseTo(expected[i], 4));
+
+        await Provable.runAndCheck(() => {
+            Provable.witness(Matrix.Typed(3, 3, { fixed_point: config }), () => matrix).cholesky();
+        });
+
+        // Entry (i, j) of L * L^T may be off by (row sum i + row sum j) / 2^frac_bits + 2 units.
+        let small: FixedPointConfig = { frac_bits: 4, total_bits: 16 };
+        let weights = [Field(8), Field(4)];
+        let check = (residual: number[]) =>
+            assert_rounding_residual(
+                residual.map((x) => Field(x)), [2, 2], weights, weights, 2, small, 'L * L^T does not match the matrix'
+            );
+        check([3, 2, -2, 2]);
+        expect(() => check([3, 3, 0, 0])).toThrow('L * L^T does not match the matrix');
+        expect(() => check([0, 0, 0, -3])).toThrow('L * L^T does not match the matrix');
+
+    });
+
+    it('should reject matrices that are not positive definite', async () => {
+
+        let config: FixedPointConfig = { frac_bits: 16, total_bits: 48 };
+        let matrix = Matrix.from_fixed_point([1, 2, 2, 1].map((x) => encode_fixed(x, config)), [2, 2], config);
+
+        expect(() => matrix.cholesky()).toThrow('Matrix is not positive definite');
+        expect(() => new Matrix([Field(1)], [1, 1], Field(0), Field(1)).cholesky()).toThrow();
+
+    });
+
+});
+
+describe('Matrix linear system solver', () => {
+
+    it('should solve a square system over the field', async () => {
+
+        let a = field_matrix([0, 2, 3, 4, 5, 6, 7, 8, 9], [3, 3]);
+        let x0 = field_matrix([1, 2, 3, -4, 5, 6], [3, 2]);
+        let b = a.mul(x0);
+
+        let x = a.solve(b);
+
+        expect(x.values).toEqual(x0.values);
+        expect(x.shape).toEqual([3, 2]);
+
+    });
+
+    it('should reject singular systems', async () => {
+
+        let a = field_matrix([1, 2, 3, 4, 5, 6, 7, 8, 9], [3, 3]);
+        let b = field_matrix([6, 15, 24], [3, 1]);
+
+        expect(() => a.solve(b)).toThrow('Matrix is not invertible');
+
+    });
+
+    it('should solve the normal equations for least squares', async () => {
+
+        let a = field_matrix([1, 1, 1, 2, 1, 3, 1, 4], [4, 2]);
+        let x0 = field_matrix([5, 7], [2, 1]);
+
+        let x = a.solve(a.mul(x0), { least_squares: true });
+
+        expect(x.values).toEqual(x0.values);
+
+    });
+
+    it('should solve fixed-point systems within tolerance', async () => {
+
+        let config: FixedPointConfig = { frac_bits: 20, total_bits: 64 };
+        let encode = (values: number[], shape: Shape) =>
+            Matrix.from_fixed_point(values.map((x) => encode_fixed(x, config)), shape, config);
+
+        let a = encode([2, 1, -1, -3, -1, 2, -2, 1, 2], [3, 3]);
+        let b = encode([8, -11, -3], [3, 1]);
+        a.solve(b).values.forEach((x, i) => expect(decode_fixed(x, config)).toBeCloseTo([2, 3, -1][i], 4));
+
+        // Fit y = c0 + c1 * t to noisy samples of y = 1 + 2t.
+        let t = [0, 1, 2, 3, 4];
+        let y = [1.1, 2.9, 5.05, 7.0, 8.95];
+        let design = encode(t.flatMap((ti) => [1, ti]), [5, 2]);
+        let fit = design.solve(encode(y, [5, 1]), { least_squares: true });
+        fit.values.forEach((x, i) => expect(decode_fixed(x, config)).toBeCloseTo([1.04, 1.98][i], 4));
+
+        await Provable.runAndCheck(() => {
+            let witness = Provable.witness(Matrix.Typed(3, 3, { fixed_point: config }), () => a);
+            witness.solve(b);
+        });
+
+    });
+
+    it('should bound fixed-point residuals by the rounding error of the data', async () => {
+
+        let config: FixedPointConfig = { frac_bits: 4, total_bits: 16 };
+        let singular = Matrix.from_fixed_point([1, 2, 2, 4].map((x) => encode_fixed(x, config)), [2, 2], config);
+        let b = Matrix.from_fixed_point([1, 2].map((x) => encode_fixed(x, config)), [2, 1], config);
+        expect(() => singular.solve(b)).toThrow('Matrix is not invertible');
+
+        // Rows with absolute sums 2.0 and 0.5 allow residuals of 2 + 1 and 0.5 + 1 units.
+        let weights = [Field(32), Field(8)];
+        let check = (residual: number[]) =>
+            assert_rounding_residual(residual.map((x) => Field(x)), [2, 1], weights, undefined, 1, config, 'A * x does not match b');
+
+        expect(() => check([3, 1])).not.toThrow();
+        expect(() => check([-3, -1])).not.toThrow();
+        expect(() => check([4, 0])).toThrow('A * x does not match b');
+        expect(() => check([0, -2])).toThrow('A * x does not match b');
+
+    });
+
+    it('should verify the solution in a circuit', async () => {
+
+        let a = field_matrix([0, 2, 3, 4, 5, 6, 7, 8, 9], [3, 3]);
+        let b = field_matrix([1, 2, 3], [3, 1]);
+
+        await Provable.runAndCheck(() => {
+            let witness = Provable.witness(Matrix.Typed(3, 3), () => a);
+            let x = witness.solve(b);
+            Provable.asProver(() => {
+                let constant = field_matrix([0, 0, 0], [3, 1]);
+                constant.values = x.values.map((v) => Field(v.toBigInt()));
+                expect(a.mul(constant).values).toEqual(b.values);
+            });
+        });
+
+    });
+
+});
+
+describe('Matrix Freivalds verification', () => {
+
+    function random_matrix(rows: number, cols: number): Matrix {
+        let values = Array.from({ length: rows * cols }, () => Field.random());
+        return new Matrix(values, [rows, cols], Field(0), Field(1));
+    }
+
+    it('should witness and verify the product', async () => {
+
+        let a = random_matrix(4, 5);
+        let b = random_matrix(5, 3);
+
+        let product = a.mul_verified(b, 2);
+
+        expect(product.values).toEqual(a.mul(b).values);
+        expect(product.shape).toEqual([4, 3]);
+
+    });
+
+    it('should reject a wrong product', async () => {
+
+        let a = random_matrix(3, 3);
+        let b = random_matrix(3, 3);
+        let c = a.mul(b);
+        c.values[4] = c.values[4].add(1);
+
+        expect(() => Matrix.assert_product(a, b, c)).toThrow('Matrix product does not match');
+
+        await expect(Provable.runAndCheck(() => {
+            let witness = Provable.witness(Matrix.Typed(3, 3), () => c);
+            Matrix.assert_product(a, b, witness);
+        })).rejects.toThrow();
+
+        // Quantized and fixed-point operands are not plain products of their values.
+        let quantized = new Matrix(a.values, a.shape, Field(128), Field(1));
+        expect(() => quantized.mul_verified(b)).toThrow('mul_verified only supports plain field matrices');
+        let scaled = new Matrix(c.values, c.shape, Field(0), Field(2));
+        expect(() => Matrix.assert_product(a, b, scaled)).toThrow('assert_product only supports plain field matrices');
+        let fixed = Matrix.from_fixed_point(a.values.map((_, i) => Field(i)), [3, 3], { frac_bits: 4, total_bits: 16 });
+        expect(() => fixed.mul_verified(b)).toThrow('mul_verified only supports plain field matrices');
+
+    });
+
+    it('should grow quadratically rather than cubically', async () => {
+
+        let count = async (n: number, f: (a: Matrix, b: Matrix) => void) => {
+            let Square = Matrix.Typed(n, n);
+            let { rows } = await Provable.constraintSystem(() => {
+                let a = Provable.witness(Square, () => Square.empty());
+                let b = Provable.witness(Square, () => Square.empty());
+                f(a, b);
+            });
+            return rows;
+        };
+
+        let verified = [await count(8, (a, b) => a.mul_verified(b)), await count(16, (a, b) => a.mul_verified(b))];
+        let direct = [await count(8, (a, b) => a.mul(b)), await count(16, (a, b) => a.mul(b))];
+
+        expect(verified[1] / verified[0]).toBeLessThan(4.5);
+        expect(direct[1] / direct[0]).toBeGreaterThan(7.5);
+
+    });
+
+});
+
+describe('Matrix commitments', () => {
+
+    let values = [1, 2, 3, 4, 5, 6].map((x) => Field(x));
+    let matrix = new Matrix(values, [2, 3], Field(0), Field(1));
+
+    it('should bind values, shape and quantization parameters', async () => {
+
+        let hash = matrix.hash();
+
+        expect(new Matrix(values, [3, 2], Field(0), Field(1)).hash()).not.toEqual(hash);
+        expect(new Matrix(values, [2, 3], Field(1), Field(1)).hash()).not.toEqual(hash);
+        expect(new Matrix(values, [2, 3], Field(0), Field(2)).hash()).not.toEqual(hash);
+        expect(matrix.scalar_mul(Field(1)).hash()).toEqual(hash);
+
+    });
+
+    it('should check salted commitments', async () => {
+
+        let salt = Field.random();
+        let commitment = matrix.commit(salt);
+
+        expect(commitment).not.toEqual(matrix.hash());
+        expect(() => matrix.assert_commitment(commitment, salt)).not.toThrow();
+        expect(() => matrix.assert_commitment(commitment, salt.add(1))).toThrow('Matrix does not match the commitment');
+        expect(() => matrix.assert_commitment(matrix.hash())).not.toThrow();
+
+    });
+
+    it('should take the commitment as public input of a ZkProgram', async () => {
+
+        let Matrix2x3 = Matrix.Typed(2, 3);
+
+        let program = ZkProgram({
+            name: 'matrix-commitment',
+            publicInput: Field,
+            publicOutput: Field,
+
+            methods: {
+                sum: {
+                    privateInputs: [Matrix2x3, Field],
+
+                    async method(commitment: Field, private_matrix: Matrix, salt: Field) {
+                        private_matrix.assert_commitment(commitment, salt);
+                        return { publicOutput: private_matrix.values.reduce((a, b) => a.add(b)) };
+                    },
+                },
+            },
+        });
+
+        let salt = Field.random();
+        let out = await program.rawMethods.sum(matrix.commit(salt), matrix, salt);
+        expect(out.publicOutput).toEqual(Field(21));
+
+        await expect(program.rawMethods.sum(matrix.commit(salt), matrix, Field(0))).rejects.toThrow();
+
+    });
+
+});
+
+describe('Matrix neural network layers', () => {
+
+    let config: FixedPointConfig = { frac_bits: 16, total_bits: 32 };
+    let inputs = [-6, -3, -1.5, -0.5, 0, 0.5, 1.5, 3, 6];
+
+    function fixed_matrix(values: number[], shape: Shape): Matrix {
+        return Matrix.from_fixed_point(values.map((x) => encode_fixed(x, config)), shape, config);
+    }
+
+    function int8_matrix(values: number[], shape: Shape): Matrix {
+        return Matrix.from_bits(values.map((x) => Field(x)), shape, 8, true);
+    }
+
+    function sigmoid(x: number): number {
+        return 1 / (1 + Math.exp(-x));
+    }
+
+    it('should apply a dense layer with bias to every row', async () => {
+
+        let x = int8_matrix([1, -2, 3, 0, 4, -1], [2, 3]);
+        let w = int8_matrix([2, -1, 0, 3, -4, 1], [3, 2]);
+        let b = int8_matrix([5, -7], [1, 2]);
+
+        let out = x.dense(w, b);
+
+        expect(out.values).toEqual([-5, -11, 9, 4].map((v) => Field(v)));
+        expect(out.shape).toEqual([2, 2]);
+
+    });
+
+    it('should apply a quantized dense layer with a 32-bit bias', async () => {
+
+        let x = new Matrix([12, 200, 128, 255, 0, 77].map((v) => Field(v)), [2, 3], Field(128), encode_scale(0.05));
+        let w = new Matrix([100, 3, 250, 91, 180, 100].map((v) => Field(v)), [3, 2], Field(100), encode_scale(0.1));
+        let b = new Matrix([Field(400), Field(-1200)], [1, 2], Field(0), Field(1));
+        let out: QuantParams = { zero_point: Field(120), scale: encode_scale(0.12) };
+
+        let result = x.dense(w, b, out);
+
+        let [qx, qw] = [[12, 200, 128, 255, 0, 77], [100, 3, 250, 91, 180, 100]];
+        let bias = [400, -1200];
+        result.values.forEach((value, index) => {
+            let [i, j] = [Math.floor(index / 2), index % 2];
+            let acc = bias[j];
+            for (let k = 0; k < 3; k++) acc += (qx[i * 3 + k] - 128) * (qw[k * 2 + j] - 100);
+            let expected = Math.min(255, Math.max(0, Math.round((acc * 0.05 * 0.1) / 0.12) + 120));
+            expect(Math.abs(Number(value.toBigInt()) - expected)).toBeLessThanOrEqual(1);
+        });
+
+    });
+
+    it('should rectify plain, fixed-point and quantized values', async () => {
+
+        expect(int8_matrix([-3, 0, 5, -128], [2, 2]).relu().values).toEqual([0, 0, 5, 0].map((v) => Field(v)));
+
+        let fixed = fixed_matrix([-1.5, 2.25], [1, 2]).relu();
+        expect(fixed.values.map((v) => decode_fixed(v, config))).toEqual([0, 2.25]);
+
+        let quantized = Matrix.from_uint8([10, 120, 130, 255].map((v) => Field(v)), [2, 2]);
+        quantized.zero_point = Field(128);
+        expect(quantized.relu().values).toEqual([128, 128, 130, 255].map((v) => Field(v)));
+
+        let unbounded = new Matrix([Field(1)], [1, 1], Field(0), Field(1));
+        expect(() => unbounded.relu()).toThrow('relu requires range-checked values');
+
+    });
+
+    it('should approximate sigmoid and tanh on fixed-point values', async () => {
+
+        let matrix = fixed_matrix(inputs, [3, 3]);
+
+        let sig = matrix.sigmoid().values.map((v) => decode_fixed(v, config));
+        let tanh = matrix.tanh().values.map((v) => decode_fixed(v, config));
+
+        inputs.forEach((x, i) => {
+            expect(Math.abs(sig[i] - sigmoid(x))).toBeLessThan(0.02);
+            expect(Math.abs(tanh[i] - Math.tanh(x))).toBeLessThan(0.04);
+        });
+        expect(() => int8_matrix([1], [1, 1]).sigmoid()).toThrow('sigmoid is only supported for fixed-point or quantized matrices');
+
+    });
+
+    it('should approximate sigmoid on quantized values', async () => {
+
+        let q = [0, 64, 100, 128, 150, 192, 255];
+        let matrix = new Matrix(q.map((v) => Field(v)), [1, 7], Field(128), encode_scale(0.05));
+        let out: QuantParams = { zero_point: Field(0), scale: encode_scale(1 / 256) };
+
+        let result = matrix.sigmoid(out);
+
+        result.values.forEach((value, i) => {
+            let expected = sigmoid((q[i] - 128) * 0.05);
+            expect(Math.abs(Number(value.toBigInt()) / 256 - Math.min(expected, 255 / 256))).toBeLessThan(0.025);
+        });
+
+    });
+
+    it('should approximate softmax and find the argmax of every row', async () => {
+
+        let logits = [1, 2, 3, -1, 0, 0, -2, 4, 4];
+        let matrix = fixed_matrix(logits, [3, 3]);
+
+        let probs = matrix.softmax().values.map((v) => decode_fixed(v, config));
+
+        for (let i = 0; i < 3; i++) {
+            let row = logits.slice(i * 3, i * 3 + 3);
+            let sum = row.reduce((a, b) => a + Math.exp(b), 0);
+            row.forEach((x, j) => expect(Math.abs(probs[i * 3 + j] - Math.exp(x) / sum)).toBeLessThan(0.03));
+        }
+        expect(matrix.argmax().values).toEqual([Field(2), Field(1), Field(1)]);
+        expect(matrix.argmax().shape).toEqual([3, 1]);
+
+    });
+
+    it('should prove a two-layer perceptron in a circuit', async () => {
+
+        let Input = Matrix.Typed(1, 4, { fixed_point: config });
+        let w1 = fixed_matrix([0.5, -1, 0.25, 1, -0.5, 0.75, 1, 0.5, -1, 0.25, 0.5, -0.25], [4, 3]);
+        let b1 = fixed_matrix([0.1, -0.2, 0.3], [1, 3]);
+        let w2 = fixed_matrix([1, -1, 0.5, 0.5, -1, 1], [3, 2]);
+        let b2 = fixed_matrix([0, 0.1], [1, 2]);
+
+        let prediction: Field[] = [];
+        await Provable.runAndCheck(() => {
+            let x = Provable.witness(Input, () => fixed_matrix([1, 2, -1, 0.5], [1, 4]));
+            let hidden = x.dense(w1, b1).relu();
+            let logits = hidden.dense(w2, b2);
+            let probs = logits.softmax();
+            let label = logits.argmax();
+            Provable.asProver(() => {
+                prediction = [label.values[0], ...probs.values].map((v) => v.toConstant());
+            });
+        });
+
+        // hidden = relu([1.725, -2.45, 2.925]), logits = [-1.2, 1.3] and softmax = [0.076, 0.924]
+        expect(prediction[0]).toEqual(Field(1));
+        expect(decode_fixed(prediction[2], config)).toBeGreaterThan(0.7);
+
+    });
+
+});
+
+describe('Matrix convolution and pooling', () => {
+
+    let image = [
+        3, -1, 4, 1, -5,
+        9, 2, -6, 5, 3,
+        -5, 8, 9, -7, 9,
+        3, 2, -3, 8, 4,
+        6, -2, 6, 4, 3,
+    ];
+
+    function naive_conv(input: number[], size: number, kernel: number[], k: number, stride: number, padding: number): number[] {
+        let out_size = Math.floor((size + 2 * padding - k) / stride) + 1;
+        let result: number[] = [];
+        for (let i = 0; i < out_size; i++) {
+            for (let j = 0; j < out_size; j++) {
+                let element = 0;
+                for (let u = 0; u < k; u++) {
+                    for (let v = 0; v < k; v++) {
+                        let [row, col] = [i * stride + u - padding, j * stride + v - padding];
+                        if (row >= 0 && row < size && col >= 0 && col < size) element += input[row * size + col] * kernel[u * k + v];
+                    }
+                }
+                result.push(element);
+            }
+        }
+        return result;
+    }
+
+    it('should convolve with stride and padding', async () => {
+
+        let kernel = [1, 0, -1, 2, 0, -2, 1, 0, -1];
+        let input = int_matrix(image, [5, 5]);
+
+        let same = input.conv2d(int_matrix(kernel, [3, 3]), 1, 1);
+        let strided = input.conv2d(int_matrix(kernel, [3, 3]), 2, 0);
+
+        expect(same.shape).toEqual([5, 5]);
+        expect(same.values).toEqual(naive_conv(image, 5, kernel, 3, 1, 1).map((x) => Field(x)));
+        expect(strided.shape).toEqual([2, 2]);
+        expect(strided.values).toEqual(naive_conv(image, 5, kernel, 3, 2, 0).map((x) => Field(x)));
+        expect(() => input.conv2d(int_matrix(new Array(36).fill(1), [6, 6]))).toThrow('A 6x6 window does not fit a 5x5 input');
+
+    });
+
+    it('should sum over input channels for every output channel', async () => {
+
+        let channels = [image, image.map((x) => -2 * x)];
+        let kernels = [[[1, 1, 1, 1], [0, 1, 0, 0]], [[2, 0, 0, -1], [1, 0, 0, 1]]];
+
+        let outputs = Matrix.conv2d_stack(
+            channels.map((c) => int_matrix(c, [5, 5])),
+            kernels.map((per_input) => per_input.map((k) => int_matrix(k, [2, 2]))),
+            1,
+            0
+        );
+
+        expect(outputs.length).toEqual(2);
+        outputs.forEach((output, o) => {
+            let expected = naive_conv(channels[0], 5, kernels[o][0], 2, 1, 0).map(
+                (x, i) => x + naive_conv(channels[1], 5, kernels[o][1], 2, 1, 0)[i]
+            );
+            expect(output.values).toEqual(expected.map((x) => Field(x)));
+        });
+        expect(() => Matrix.conv2d_stack([int_matrix(image, [5, 5])], [[]])).toThrow('Expected one kernel per input channel');
+
+    });
+
+    it('should convolve quantized images with zero-point padding', async () => {
+
+        let q = image.map((x) => 2 * x + 128);
+        let input = new Matrix(q.map((x) => Field(x)), [5, 5], Field(128), encode_scale(0.5));
+        let kernel = new Matrix([140, 100, 120, 130].map((x) => Field(x)), [2, 2], Field(120), encode_scale(0.25));
+        let out: QuantParams = { zero_point: Field(100), scale: encode_scale(0.5), dtype: 'uint8' };
+
+        let result = input.conv2d(kernel, 1, 1, out);
+
+        let real_kernel = [140, 100, 120, 130].map((x) => (x - 120) * 0.25);
+        let expected = naive_conv(image, 5, real_kernel, 2, 1, 1).map((x) => Math.min(255, Math.max(0, Math.round(x / 0.5) + 100)));
+        expect(result.shape).toEqual([6, 6]);
+        result.values.forEach((x, i) => expect(Math.abs(Number(x.toBigInt()) - expected[i])).toBeLessThanOrEqual(1));
+
+    });
+
+    it('should pool maxima and rounded averages', async () => {
+
+        let input = int_matrix(image, [5, 5]);
+
+        expect(input.max_pool(2).values).toEqual([9, 5, 8, 9].map((x) => Field(x)));
+        expect(input.max_pool(3, 2).values).toEqual([9, 9, 9, 9].map((x) => Field(x)));
+        // Window sums 13, 4, 8, 7 over 4 entries.
+        expect(input.avg_pool(2).values).toEqual([3, 1, 2, 2].map((x) => Field(x)));
+        // -9 / 4 and -6 / 4, rounding halves up.
+        expect(int_matrix([-3, -2, -1, -1, -2, -2, -1, -3], [2, 4]).avg_pool(2).values).toEqual([Field(-2), Field(-1)]);
+        expect(() => new Matrix(image.map((x) => Field(x)), [5, 5], Field(0), Field(1)).max_pool(2)).toThrow(
+            'max_pool requires range-checked values'
+        );
+
+    });
+
+    it('should satisfy the convolution and pooling constraints in a circuit', async () => {
+
+        let kernel = int_matrix([1, -1, 2, 0], [2, 2]);
+        let result: Field[] = [];
+
+        await Provable.runAndCheck(() => {
+            let input = Provable.witness(Matrix.Typed(5, 5, { bits: 8, signed: true }), () => int_matrix(image, [5, 5], 8));
+            let pooled = input.conv2d(kernel).relu().max_pool(2);
+            Provable.asProver(() => {
+                result = pooled.values.map((x) => x.toConstant());
+            });
+        });
+
+        let conv = naive_conv(image, 5, [1, -1, 2, 0], 2, 1, 0).map((x) => Math.max(x, 0));
+        let expected = [0, 2, 8, 10].map((k) => {
+            let [i, j] = [Math.floor(k / 4), k % 4];
+            return Math.max(conv[i * 4 + j], conv[i * 4 + j + 1], conv[(i + 1) * 4 + j], conv[(i + 1) * 4 + j + 1]);
+        });
+        expect(result).toEqual(expected.map((x) => Field(x)));
+
+    });
+
+});
+
+describe('Matrix comparisons and ordering', () => {
+
+    // 3 x 4, with ties in the first row and the last column.
+    let data = [
+        4, -2, 4, 7,
+        -5, 3, 0, 7,
+        1, 1, -8, 2,
+    ];
+    let matrix = int_matrix(data, [3, 4]);
+
+    it('should compute maxima, minima and argmax along rows and columns', async () => {
+
+        expect(matrix.max().values).toEqual(fields([7, 7, 2]));
+        expect(matrix.max().shape).toEqual([3, 1]);
+        expect(matrix.max('col').values).toEqual(fields([4, 3, 4, 7]));
+        expect(matrix.max('col').shape).toEqual([1, 4]);
+
+        expect(matrix.min().values).toEqual(fields([-2, -5, -8]));
+        expect(matrix.min('col').values).toEqual(fields([-5, -2, -8, 2]));
+
+        // Ties resolve to the first occurrence.
+        expect(matrix.argmax().values).toEqual(fields([3, 3, 3]));
+        expect(matrix.argmax('col').values).toEqual(fields([0, 1, 0, 0]));
+        expect(matrix.argmax('col').bound).toEqual(2n);
+
+        let unbounded = new Matrix(fields([1, 2, 3, 4]), [2, 2], Field(0), Field(1));
+        expect(() => unbounded.min()).toThrow('min requires range-checked values');
+
+    });
+
+    it('should clamp to constant and variable bounds', async () => {
+
+        let clamped = matrix.clamp(Field(-1), Field(3));
+
+        expect(clamped.values).toEqual(fields([3, -1, 3, 3, -1, 3, 0, 3, 1, 1, -1, 2]));
+        expect(clamped.bound).toEqual(3n);
+        expect(() => matrix.clamp(Field(3), Field(-1))).toThrow('Clamp bounds are not ordered');
+
+        let result: Field[] = [];
+        await Provable.runAndCheck(() => {
+            let input = Provable.witness(Matrix.Typed(3, 4, { bits: 16, signed: true }), () => matrix);
+            let [lo, hi] = Provable.witness(Provable.Array(Field, 2), () => [Field(0), Field(4)]);
+            let out = input.clamp(lo, hi);
+            Provable.asProver(() => {
+                result = out.values.map((x) => x.toConstant());
+            });
+        });
+        expect(result).toEqual(fields([4, 0, 4, 4, 0, 3, 0, 4, 1, 1, 0, 2]));
+
+        // A constant bound wider than the values widens the range of the variable bound.
+        let bound: bigint | undefined;
+        await Provable.runAndCheck(() => {
+            let input = Provable.witness(Matrix.Typed(3, 4, { bits: 8, signed: true }), () => matrix);
+            let hi = Provable.witness(Field, () => Field(1020));
+            let out = input.clamp(Field(1000), hi);
+            bound = out.bound;
+            Provable.asProver(() => {
+                result = out.values.map((x) => x.toConstant());
+            });
+        });
+        expect(result).toEqual(new Array(12).fill(Field(1000)));
+        expect(bound).toEqual(1024n);
+
+    });
+
+    it('should sort stably and take the top k with indices', async () => {
+
+        expect(matrix.sort().values).toEqual(fields([-2, 4, 4, 7, -5, 0, 3, 7, -8, 1, 1, 2]));
+        expect(matrix.sort('row', true).values).toEqual(fields([7, 4, 4, -2, 7, 3, 0, -5, 2, 1, 1, -8]));
+        expect(matrix.sort('col').values).toEqual(fields([-5, -2, -8, 2, 1, 1, 0, 7, 4, 3, 4, 7]));
+
+        let { values, indices } = matrix.top_k(2);
+        expect(values.values).toEqual(fields([7, 4, 7, 3, 2, 1]));
+        expect(values.shape).toEqual([3, 2]);
+        // Equal values are ranked by index.
+        expect(indices.values).toEqual(fields([3, 0, 3, 1, 3, 0]));
+
+        let by_col = matrix.top_k(1, 'col');
+        expect(by_col.values.values).toEqual(fields([4, 3, 4, 7]));
+        expect(by_col.indices.values).toEqual(fields([0, 1, 0, 0]));
+        expect(() => matrix.top_k(5)).toThrow('Cannot take the top 5 of 4 values');
+
+    });
+
+    it('should satisfy the ordering constraints in a circuit', async () => {
+
+        let sorted: Field[] = [];
+        let top: Field[] = [];
+
+        await Provable.runAndCheck(() => {
+            let input = Provable.witness(Matrix.Typed(3, 4, { bits: 16, signed: true }), () => matrix);
+            let out = input.sort('col', true);
+            let { indices } = input.top_k(3);
+            Provable.asProver(() => {
+                sorted = out.values.map((x) => x.toConstant());
+                top = indices.values.map((x) => x.toConstant());
+            });
+        });
+
+        expect(sorted).toEqual(fields([4, 3, 4, 7, 1, 1, 0, 7, -5, -2, -8, 2]));
+        expect(top).toEqual(fields([3, 0, 2, 3, 1, 2, 3, 0, 1]));
+
+    });
+
+});
+
+describe('Matrix reductions and structural operations', () => {
+
+    let matrix = int_matrix([
+        1, 2, 3,
+        4, 5, 6,
+        7, 8, 9,
+    ], [3, 3]);
+
+    it('should compute sums and traces', async () => {
+
+        expect(matrix.sum()).toEqual(Field(45));
+        expect(matrix.trace()).toEqual(Field(15));
+
+        let rows = matrix.sum_rows();
+        expect(rows.values).toEqual(fields([6, 15, 24]));
+        expect(rows.shape).toEqual([3, 1]);
+        expect(rows.bound).toEqual(3n * (1n << 15n));
+
+        let cols = matrix.sum_cols();
+        expect(cols.values).toEqual(fields([12, 15, 18]));
+        expect(cols.shape).toEqual([1, 3]);
+
+        expect(() => matrix.slice(0, 2, 0, 3).trace()).toThrow();
+        let quantized = new Matrix(fields([1, 2]), [1, 2], Field(3), Field(1));
+        expect(() => quantized.sum()).toThrow();
+
+    });
+
+    it('should slice rows, columns and submatrices', async () => {
+
+        expect(matrix.row(1).values).toEqual(fields([4, 5, 6]));
+        expect(matrix.row(1).shape).toEqual([1, 3]);
+        expect(matrix.col(2).values).toEqual(fields([3, 6, 9]));
+        expect(matrix.col(2).shape).toEqual([3, 1]);
+
+        let sub = matrix.slice(1, 3, 0, 2);
+        expect(sub.values).toEqual(fields([4, 5, 7, 8]));
+        expect(sub.shape).toEqual([2, 2]);
+        expect(sub.bound).toEqual(matrix.bound);
+
+        expect(() => matrix.row(3)).toThrow('Row range [3, 4) is out of bounds for 3 rows');
+        expect(() => matrix.slice(0, 1, 2, 2)).toThrow('Column range [2, 2) is out of bounds for 3 columns');
+
+    });
+
+    it('should concatenate and reshape matrices', async () => {
+
+        let left = matrix.slice(0, 3, 0, 1);
+        let right = matrix.slice(0, 3, 1, 3);
+        expect(Matrix.hstack([left, right]).values).toEqual(matrix.values);
+
+        let top = matrix.row(0);
+        let bottom = matrix.slice(1, 3, 0, 3);
+        let stacked = Matrix.vstack([top, bottom]);
+        expect(stacked.values).toEqual(matrix.values);
+        expect(stacked.shape).toEqual([3, 3]);
+
+        expect(() => Matrix.hstack([left, top])).toThrow();
+        expect(() => Matrix.vstack([top, left])).toThrow();
+        let requantized = new Matrix(top.values, top.shape, Field(1), Field(1));
+        expect(() => Matrix.vstack([top, requantized])).toThrow();
+        expect(() => Matrix.hstack([])).toThrow('Expected at least one matrix to concatenate');
+
+        let reshaped = matrix.slice(0, 2, 0, 3).reshape(3, 2);
+        expect(reshaped.values).toEqual(fields([1, 2, 3, 4, 5, 6]));
+        expect(reshaped.shape).toEqual([3, 2]);
+        expect(() => matrix.reshape(2, 4)).toThrow('Cannot reshape a 3x3 matrix to 2x4');
+
+    });
+
+    it('should build identity, constant and diagonal matrices', async () => {
+
+        expect(Matrix.identity(3).values).toEqual(fields([1, 0, 0, 0, 1, 0, 0, 0, 1]));
+        expect(Matrix.identity(3).mul(matrix).values).toEqual(matrix.values);
+        expect(matrix.add(Matrix.zeros(3, 3)).values).toEqual(matrix.values);
+        expect(Matrix.ones(1, 3).mul(matrix).values).toEqual(matrix.sum_cols().values);
+
+        expect(matrix.diag().values).toEqual(fields([1, 5, 9]));
+        expect(matrix.diag().shape).toEqual([3, 1]);
+
+        let scaling = matrix.diag().diag();
+        expect(scaling.values).toEqual(fields([1, 0, 0, 0, 5, 0, 0, 0, 9]));
+        expect(scaling.mul(Matrix.ones(3, 1)).values).toEqual(fields([1, 5, 9]));
+
+        // Off-diagonal entries of a quantized diagonal matrix are the zero point.
+        let quantized = new Matrix(fields([130, 140]), [1, 2], Field(128), Field(1));
+        expect(quantized.diag().values).toEqual(fields([130, 128, 128, 140]));
+
+    });
+
+    it('should compose inside a circuit', async () => {
+
+        let result: Field[] = [];
+
+        await Provable.runAndCheck(() => {
+            let input = Provable.witness(Matrix.Typed(3, 3, { bits: 16, signed: true }), () => matrix);
+            let blocks = Matrix.vstack([input.slice(0, 1, 0, 3), input.slice(2, 3, 0, 3)]);
+            let out = Matrix.hstack([blocks.sum_rows(), blocks.col(0)]).reshape(1, 4);
+            out.values[0].add(input.trace()).assertEquals(Field(21));
+            Provable.asProver(() => {
+                result = out.values.map((x) => x.toConstant());
+            });
+        });
+
+        expect(result).toEqual(fields([6, 1, 24, 7]));
+
+    });
+
+});
+
+describe('Matrix powers and polynomials', () => {
+
+    let fibonacci = int_matrix([1, 1, 1, 0], [2, 2]);
+
+    it('should raise matrices to constant powers', async () => {
+
+        expect(fibonacci.pow(10).values).toEqual(fields([89, 55, 55, 34]));
+        expect(fibonacci.pow(1).values).toEqual(fibonacci.values);
+        expect(fibonacci.pow(0).values).toEqual(fields([1, 0, 0, 1]));
+        expect(fibonacci.pow(0).bound).toEqual(1n);
+        expect(fibonacci.pow(3).bound).toEqual(2n * (2n * (1n << 30n)) * (1n << 15n));
+
+        expect(() => fibonacci.pow(-1)).toThrow('Exponent must be a non-negative integer, got -1');
+        expect(() => int_matrix([1, 2], [1, 2]).pow(2)).toThrow('pow requires a square matrix, got 1x2');
+        expect(() => int_matrix([1, 2, 3, 4], [2, 2], 64).pow(8)).toThrow('Matrix operation may overflow the field modulus');
+
+    });
+
+    it('should evaluate polynomials with Horner\'s method', async () => {
+
+        let matrix = int_matrix([1, 2, 3, 4], [2, 2]);
+
+        // By Cayley-Hamilton, A satisfies its characteristic polynomial x^2 - 5x - 2.
+        expect(matrix.poly_eval(fields([-2, -5, 1])).values).toEqual(fields([0, 0, 0, 0]));
+        expect(matrix.poly_eval(fields([1, 0, 0, 2])).values).toEqual(matrix.pow(3).scalar_mul(Field(2)).add(Matrix.identity(2)).values);
+        expect(matrix.poly_eval(fields([7])).values).toEqual(fields([7, 0, 0, 7]));
+        expect(matrix.poly_eval(fields([3, 1])).values).toEqual(fields([4, 2, 3, 7]));
+        expect(() => matrix.poly_eval([])).toThrow('Expected at least one coefficient');
+
+    });
+
+    it('should advance a fixed-point Markov chain', async () => {
+
+        let config: FixedPointConfig = { frac_bits: 16, total_bits: 48 };
+        let transition = Matrix.from_fixed_point([0.9, 0.1, 0.5, 0.5].map((x) => encode_fixed(x, config)), [2, 2], config);
+        let state = Matrix.from_fixed_point([1, 0].map((x) => encode_fixed(x, config)), [1, 2], config);
+
+        let expected = [1, 0];
+        for (let step = 0; step < 5; step++) {
+            expected = [expected[0] * 0.9 + expected[1] * 0.5, expected[0] * 0.1 + expected[1] * 0.5];
+        }
+        let after = state.mul(transition.pow(5));
+        after.values.forEach((x, i) => expect(decode_fixed(x, config)).toBeCloseTo(expected[i], 3));
+        expect(after.fixed_point).toEqual(config);
+
+    });
+
+    it('should need fewer constraints than repeated multiplication', async () => {
+
+        let Square = Matrix.Typed(3, 3);
+
+        let count = async (f: (a: Matrix) => void) => {
+            let { rows } = await Provable.constraintSystem(() => {
+                f(Provable.witness(Square, () => Square.empty()));
+            });
+            return rows;
+        };
+
+        let naive = await count((a) => {
+            let result = a;
+            for (let i = 1; i < 8; i++) result = result.mul(a);
+        });
+        expect(await count((a) => a.pow(8))).toBeLessThan(naive);
+
+        let powers: Field[] = [];
+        await Provable.runAndCheck(() => {
+            let a = Provable.witness(Square, () => int_matrix([1, 1, 0, 0, 1, 1, 0, 0, 1], [3, 3]));
+            let out = a.pow(5);
+            Provable.asProver(() => {
+                powers = out.values.map((x) => x.toConstant());
+            });
+        });
+        expect(powers).toEqual(fields([1, 5, 10, 0, 1, 5, 0, 0, 1]));
+
+    });
+
+});
@@ -6,25 +6,169 @@
  *
  * Each Matrix instance contains:
  * - values: An array of Field elements representing the matrix entries in row-major order.
- * - shape: A tuple [rows, columns] (both are Field elements) representing the dimensions.
+ * - shape: A tuple [rows, columns] of plain numbers representing the dimensions.
  * - zero_point: The zero-point offset used for quantization.
  * - scale: The scale factor used for quantization.
+ * - fixed_point: The fixed-point format of the values, if the matrix holds fixed-point data.
+ * - bound: A bound on the absolute value of every entry, if the values are range-checked.
+ *
+ * Shapes are static: they are fixed when a circuit is built, and mismatched shapes are reported
+ * with descriptive errors at that time rather than as failing constraints. Matrices whose shape
+ * varies between proofs are handled by DynamicMatrix (see dynamic.ts) instead.
+ *
+ * Operations on constant matrices whose results are constants anyway (products, determinants,
+ * adjugates and inverses) are computed natively on bigints by NativeMatrix (see native.ts), which
+ * also computes the witnesses of the verified operations.
+ *
+ * Bounds are established by the range-checked constructors (from_uint8, from_int64, ...) and
+ * propagated through arithmetic, so that operations can refuse at circuit-build time to produce
+ * entries that could wrap around the field modulus.
  *
  * This module provides methods for common matrix operations such as addition, subtraction,
  * Hadamard product (element-wise multiplication), matrix multiplication, scalar multiplication/division,
- * transpose, determinant calculation, and computation of adjugate and inverse matrices.
+ * transpose, determinant calculation, computation of adjugate and inverse matrices, powers and
+ * polynomials, reductions and structural operations (sum, trace, slicing, concatenation,
+ * reshaping), as well as neural network layers (dense, relu, sigmoid, tanh, softmax, argmax, conv2d
+ * and pooling), and import and export in JSON, NumPy .npy and CSV formats (see io.ts).
+ */
+
+import { Field, Poseidon, Provable, ProvablePure } from 'o1js';
+import {
+  QUANT_BITS,
+  QUANT_RANGES,
+  QuantDtype,
+  QuantParams,
+  SCALE_BITS,
+  decode_scale,
+  dequantize_fixed,
+  encode_scale,
+  quant_add,
+  quant_hadamard_product,
+  quant_mul,
+  quantize_fixed,
+} from './quantization.js';
+import { assert_abs_at_most, assert_bits, assert_signed_bits, bit_length, div_round, to_signed } from './gadgets.js';
+import {
+  FixedPointConfig,
+  assert_fixed_range,
+  check_fixed_config,
+  decode_fixed,
+  encode_fixed,
+  fixed_hadamard_product,
+  fixed_mul,
+  fixed_scalar_div,
+  fixed_scalar_mul,
+} from './fixed_point.js';
+import {
+  abs_row_sums,
+  assert_rounding_residual,
+  lu_determinant,
+  plu_decomposition,
+  witness_cholesky,
+  witness_fixed_solution,
+  witness_inverse,
+  witness_solution,
+} from './decomposition.js';
+import { assert_product, witness_product } from './freivalds.js';
+import { NativeMatrix } from './native.js';
+import type { BenchMode, BenchOp } from './bench.js';
+import { NumericArray, parse_csv, parse_npy, write_csv, write_npy } from './io.js';
+import { relu, sigmoid, softmax, tanh } from './nn.js';
+import { clamp, row_argmax, sort_row } from './order.js';
+import { im2col, kernel_matrix, pool_windows, window_shape } from './conv.js';
+
+/**
+ * Options of a provable matrix type, see Matrix.Typed.
+ *
+ * - bits, signed: Range-check every value to the given bit width, as in Matrix.from_bits.
+ * - fixed_point: Treat the values as fixed-point data in the given format, as in Matrix.from_fixed_point.
+ * - scale: A static quantization scale, which is then not part of the field representation.
+ */
+export interface MatrixTypeOptions {
+  bits?: number;
+  signed?: boolean;
+  fixed_point?: FixedPointConfig;
+  scale?: Field;
+}
+
+/** The shape [rows, columns] of a matrix. */
+export type Shape = [number, number];
+
+/**
+ * The direction of a row- or column-wise operation: 'row' applies it to every row, 'col' to every
+ * column.
+ */
+export type Axis = 'row' | 'col';
+
+/**
+ * Options of Matrix.solve.
+ *
+ * - least_squares: Solve the normal equations A^T * A * x = A^T * b instead of A * x = b.
+ * - tolerance: For fixed-point matrices, a fixed maximum deviation per entry of A * x from b, in
+ *   units of 2^-frac_bits, instead of the rounding error derived from A.
+ */
+export interface SolveOptions {
+  least_squares?: boolean;
+  tolerance?: bigint;
+}
+
+/** Plain JS representation of a Matrix, used by provable matrix types. */
+export type MatrixValue = { values: bigint[]; zero_point: bigint; scale: bigint };
+
+/**
+ * JSON representation of a Matrix, used by provable matrix types and Matrix.to_json. Values are
+ * decimal integers, and the fixed-point format is only written by Matrix.to_json.
+ */
+export type MatrixJson = {
+  shape: [number, number];
+  values: string[];
+  zero_point: string;
+  scale: string;
+  fixed_point?: FixedPointConfig;
+};
+
+/**
+ * Conversion of numbers read by Matrix.from_npy and Matrix.from_csv.
+ *
+ * - fixed_point: Encode every value, integer or real, in the given fixed-point format.
+ * - quant: Quantize every value, integer or real, with the given real scale and zero point,
+ *   clamping to the value type (uint8 by default).
+ *
+ * Without either option, all values must be integers.
+ */
+export interface ImportOptions {
+  fixed_point?: FixedPointConfig;
+  quant?: { scale: number; zero_point: number; dtype?: QuantDtype };
+}
+
+/**
+ * Options of Matrix.to_npy and Matrix.to_csv.
+ *
+ * - real: Write the real values represented by fixed-point or quantized data as floats, instead of
+ *   the integers stored in the matrix.
  */
+export interface ExportOptions {
+  real?: boolean;
+}
 
-import { Field, Provable, Circuit, Bool } from 'o1js';
+/** A provable type for matrices of a fixed shape, returned by Matrix.Typed. */
+export type ProvableMatrix = ProvablePure<Matrix, MatrixValue> & {
+  toInput: (matrix: Matrix) => { fields: Field[] };
+  toJSON: (matrix: Matrix) => MatrixJson;
+  fromJSON: (json: MatrixJson) => Matrix;
+  empty: () => Matrix;
+};
 
 /**
  * Matrix class for field-based matrix arithmetic.
  */
 export class Matrix {
   values: Field[];
-  shape: [Field, Field];
+  shape: Shape;
   zero_point: Field;
   scale: Field;
+  fixed_point?: FixedPointConfig;
+  bound?: bigint;
 
   /**
    * Constructs a new Matrix instance.
@@ -33,11 +177,14 @@ export class Matrix {
    * @param shape - The shape of the matrix as a tuple [rows, columns].
    * @param zero_point - The quantization zero-point offset.
    * @param scale - The quantization scale factor.
-   * @throws Error if the number of values does not match the specified shape.
+   * @throws Error if the shape is invalid or the number of values does not match it.
    */
-  constructor(values: Field[], shape: [Field, Field], zero_point: Field, scale: Field) {
+  constructor(values: Field[], shape: Shape, zero_point: Field, scale: Field) {
+    if (!shape.every((n) => Number.isInteger(n) && n >= 0)) {
+      throw new Error(`Invalid matrix shape ${format_shape(shape)}`);
+    }
     // Ensure the number of values matches the product of the dimensions.
-    if (values.length !== Number(shape[0]) * Number(shape[1])) {
+    if (values.length !== shape[0] * shape[1]) {
       throw new Error('Values length does not match the shape');
     }
 
@@ -47,149 +194,1299 @@ export class Matrix {
     this.scale = scale;
   }
 
+  /**
+   * Creates a fixed-point matrix, range-checking every value against the format.
+   * Values are encoded real numbers, see encode_fixed.
+   *
+   * @param values - The encoded fixed-point values.
+   * @param shape - The shape of the matrix as a tuple [rows, columns].
+   * @param config - The fixed-point format of the values.
+   * @returns A new fixed-point Matrix instance.
+   * @throws Error if the format is unsupported or the number of values does not match the shape.
+   */
+  static from_fixed_point(values: Field[], shape: Shape, config: FixedPointConfig): Matrix {
+    check_fixed_config(config);
+    values.forEach((x) => assert_fixed_range(x, config));
+    let matrix = new Matrix(values, shape, Field(0), Field(1));
+    matrix.fixed_point = config;
+    matrix.bound = 1n << BigInt(config.total_bits - 1);
+    return matrix;
+  }
+
+  /**
+   * Creates a matrix whose values are range-checked to the given bit width, and records the
+   * resulting bound on the matrix. Unsigned values must lie in [0, 2^bits), signed values in
+   * [-2^(bits - 1), 2^(bits - 1)).
+   *
+   * @param values - The array of Field elements representing the matrix entries.
+   * @param shape - The shape of the matrix as a tuple [rows, columns].
+   * @param bits - The bit width of the values, including the sign for signed values.
+   * @param signed - Whether the values are signed.
+   * @returns A new range-checked Matrix instance.
+   * @throws Error if the number of values does not match the shape.
+   */
+  static from_bits(values: Field[], shape: Shape, bits: number, signed = false): Matrix {
+    let bound = bits_bound(bits, signed);
+    assert_range(values, bits, signed);
+
+    let matrix = new Matrix(values, shape, Field(0), Field(1));
+    matrix.bound = bound;
+    return matrix;
+  }
+
+  /**
+   * Creates a matrix of range-checked unsigned 8-bit values.
+   *
+   * @param values - The array of Field elements representing the matrix entries.
+   * @param shape - The shape of the matrix as a tuple [rows, columns].
+   * @returns A new range-checked Matrix instance.
+   */
+  static from_uint8(values: Field[], shape: Shape): Matrix {
+    return Matrix.from_bits(values, shape, 8);
+  }
+
+  /**
+   * Creates a matrix of range-checked unsigned 32-bit values.
+   *
+   * @param values - The array of Field elements representing the matrix entries.
+   * @param shape - The shape of the matrix as a tuple [rows, columns].
+   * @returns A new range-checked Matrix instance.
+   */
+  static from_uint32(values: Field[], shape: Shape): Matrix {
+    return Matrix.from_bits(values, shape, 32);
+  }
+
+  /**
+   * Creates a matrix of range-checked unsigned 64-bit values.
+   *
+   * @param values - The array of Field elements representing the matrix entries.
+   * @param shape - The shape of the matrix as a tuple [rows, columns].
+   * @returns A new range-checked Matrix instance.
+   */
+  static from_uint64(values: Field[], shape: Shape): Matrix {
+    return Matrix.from_bits(values, shape, 64);
+  }
+
+  /**
+   * Creates a matrix of range-checked signed 64-bit values.
+   *
+   * @param values - The array of Field elements representing the matrix entries.
+   * @param shape - The shape of the matrix as a tuple [rows, columns].
+   * @returns A new range-checked Matrix instance.
+   */
+  static from_int64(values: Field[], shape: Shape): Matrix {
+    return Matrix.from_bits(values, shape, 64, true);
+  }
+
+  /**
+   * Creates an n x n identity matrix with default quantization parameters.
+   *
+   * @param n - The number of rows and columns.
+   * @returns A new Matrix instance with ones on the diagonal and zeros elsewhere.
+   */
+  static identity(n: number): Matrix {
+    let values: Field[] = [];
+    for (let i = 0; i < n * n; i++) values.push(Field(i % (n + 1) === 0 ? 1 : 0));
+    let matrix = new Matrix(values, [n, n], Field(0), Field(1));
+    matrix.bound = 1n;
+    return matrix;
+  }
+
+  /**
+   * Creates a matrix of zeros with default quantization parameters.
+   *
+   * @param rows - The number of rows.
+   * @param cols - The number of columns.
+   * @returns A new Matrix instance.
+   */
+  static zeros(rows: number, cols: number): Matrix {
+    let matrix = new Matrix(new Array(rows * cols).fill(Field(0)), [rows, cols], Field(0), Field(1));
+    matrix.bound = 0n;
+    return matrix;
+  }
+
+  /**
+   * Creates a matrix of ones with default quantization parameters.
+   *
+   * @param rows - The number of rows.
+   * @param cols - The number of columns.
+   * @returns A new Matrix instance.
+   */
+  static ones(rows: number, cols: number): Matrix {
+    let matrix = new Matrix(new Array(rows * cols).fill(Field(1)), [rows, cols], Field(0), Field(1));
+    matrix.bound = 1n;
+    return matrix;
+  }
+
+  /**
+   * Creates a constant matrix with default quantization parameters from a NativeMatrix.
+   *
+   * @param native - The NativeMatrix instance.
+   * @returns A new Matrix instance. Its values are reduced modulo the field order and unbounded.
+   */
+  static from_native(native: NativeMatrix): Matrix {
+    return new Matrix(native.to_fields(), native.shape, Field(0), Field(1));
+  }
+
+  /**
+   * Creates a constant matrix from its JSON representation, as written by Matrix.to_json or by the
+   * toJSON method of a provable matrix type.
+   *
+   * @param json - The JSON object, or a string containing it.
+   * @returns A new Matrix instance with the shape, zero point, scale and fixed-point format of the
+   *   JSON. Matrices without a fixed-point format are bounded by their largest absolute value.
+   * @throws Error if the values do not match the shape or a fixed-point value is out of range.
+   */
+  static from_json(json: MatrixJson | string): Matrix {
+    let parsed: MatrixJson = typeof json === 'string' ? JSON.parse(json) : json;
+    let values = parsed.values.map((x) => Field(x));
+    if (parsed.fixed_point !== undefined) {
+      return Matrix.from_fixed_point(values, parsed.shape, parsed.fixed_point);
+    }
+    let matrix = new Matrix(values, parsed.shape, Field(parsed.zero_point), Field(parsed.scale));
+    matrix.bound = constant_bound(values);
+    return matrix;
+  }
+
+  /**
+   * Creates a constant matrix from numbers, converted as by Matrix.from_npy: integral numbers are
+   * read as integers, and every number is converted when the options give a format or quantization
+   * parameters. See calibration.ts to derive quantization parameters from the data.
+   *
+   * @param values - The numbers in row-major order.
+   * @param shape - The shape of the matrix as a tuple [rows, columns].
+   * @param options - How to convert real values, see ImportOptions.
+   * @returns A new Matrix instance.
+   * @throws Error if the values cannot be converted or do not match the shape.
+   */
+  static from_real(values: number[], shape: Shape, options: ImportOptions = {}): Matrix {
+    let numbers = values.map((x) => (Number.isInteger(x) ? BigInt(x) : x));
+    return from_numbers({ shape, values: numbers }, options);
+  }
+
+  /**
+   * Reads a constant matrix from a NumPy .npy file with one or two dimensions; a vector becomes a
+   * single row. Integer arrays are read as they are without options; otherwise every value is
+   * converted according to the options, see ImportOptions. For example, a float weight matrix exported from PyTorch together with its
+   * quantization parameters is loaded with `Matrix.from_npy(bytes, { quant: { scale, zero_point } })`.
+   *
+   * @param buffer - The contents of the .npy file.
+   * @param options - How to convert real values, see ImportOptions.
+   * @returns A new Matrix instance.
+   * @throws Error if the file is malformed or the values cannot be converted.
+   */
+  static from_npy(buffer: Uint8Array, options: ImportOptions = {}): Matrix {
+    return from_numbers(parse_npy(buffer), options);
+  }
+
+  /**
+   * Reads a constant matrix from comma-separated values, one row per line. Values without a decimal
+   * point or exponent are integers and all others are real; real values need options, which
+   * convert every value.
+   *
+   * @param text - The CSV text.
+   * @param options - How to convert real values, see ImportOptions.
+   * @returns A new Matrix instance.
+   * @throws Error if the text is malformed or the values cannot be converted.
+   */
+  static from_csv(text: string, options: ImportOptions = {}): Matrix {
+    return from_numbers(parse_csv(text), options);
+  }
+
+  /**
+   * Returns a provable type for matrices of a fixed shape, so that a Matrix can be used directly as
+   * a ZkProgram input or output, or anywhere else o1js expects a provable type.
+   *
+   * The matrix is laid out as its values in row-major order, followed by the zero point and the
+   * scale. The shape and the options are part of the type and are not stored in fields. The
+   * check method applies the range checks implied by the options, and fromFields records the
+   * corresponding bound and fixed-point format on the matrix.
+   *
+   * @param rows - The number of rows.
+   * @param cols - The number of columns.
+   * @param options - Optional range and format of the values, and a static quantization scale.
+   * @returns The provable matrix type.
+   */
+  static Typed(rows: number, cols: number, options: MatrixTypeOptions = {}): ProvableMatrix {
+    let { bits, signed = false, fixed_point, scale } = options;
+    if (bits !== undefined && fixed_point !== undefined) {
+      throw new Error('A matrix type cannot be both range-checked and fixed-point');
+    }
+    let bound = bits !== undefined ? bits_bound(bits, signed) : undefined;
+    if (fixed_point !== undefined) {
+      check_fixed_config(fixed_point);
+      bound = 1n << BigInt(fixed_point.total_bits - 1);
+    }
+    if (scale !== undefined && !scale.isConstant()) {
+      throw new Error('A static matrix scale must be a constant');
+    }
+
+    let size = rows * cols;
+    let shape: Shape = [rows, cols];
+
+    let create = (values: Field[], zero_point: Field, matrix_scale: Field) => {
+      let matrix = new Matrix(values, shape, zero_point, scale ?? matrix_scale);
+      matrix.fixed_point = fixed_point;
+      matrix.bound = bound;
+      return matrix;
+    };
+    let to_fields = (matrix: Matrix) => {
+      if (matrix.values.length !== size) {
+        throw new Error(`Expected a ${rows}x${cols} matrix`);
+      }
+      return scale !== undefined
+        ? [...matrix.values, matrix.zero_point]
+        : [...matrix.values, matrix.zero_point, matrix.scale];
+    };
+    let from_fields = (fields: Field[]) => create(fields.slice(0, size), fields[size], fields[size + 1]);
+
+    return {
+      sizeInFields: () => size + (scale !== undefined ? 1 : 2),
+      toFields: to_fields,
+      toAuxiliary: () => [],
+      fromFields: from_fields,
+      check(matrix: Matrix) {
+        if (bits !== undefined) assert_range(matrix.values, bits, signed);
+        if (fixed_point !== undefined) matrix.values.forEach((x) => assert_fixed_range(x, fixed_point!));
+      },
+      toValue: (matrix: Matrix) => ({
+        values: matrix.values.map((x) => x.toBigInt()),
+        zero_point: matrix.zero_point.toBigInt(),
+        scale: matrix.scale.toBigInt(),
+      }),
+      fromValue(value: MatrixValue | Matrix) {
+        if (value instanceof Matrix) return create(value.values, value.zero_point, value.scale);
+        return create(value.values.map((x) => Field(x)), Field(value.zero_point), Field(value.scale));
+      },
+      toInput: (matrix: Matrix) => ({ fields: to_fields(matrix) }),
+      toJSON: (matrix: Matrix) => ({
+        shape: [rows, cols],
+        values: matrix.values.map((x) => x.toString()),
+        zero_point: matrix.zero_point.toString(),
+        scale: matrix.scale.toString(),
+      }),
+      fromJSON(json: MatrixJson) {
+        if (json.shape[0] !== rows || json.shape[1] !== cols) {
+          throw new Error(`Expected a ${rows}x${cols} matrix, got ${json.shape[0]}x${json.shape[1]}`);
+        }
+        return create(json.values.map((x) => Field(x)), Field(json.zero_point), Field(json.scale));
+      },
+      empty: () => create(new Array(size).fill(Field(0)), Field(0), Field(1)),
+    };
+  }
+
   /**
    * Adds the current matrix with another matrix element-wise.
-   * Ensures matrices have the same configuration and that the other matrix has default quantization.
+   * Without output parameters, ensures matrices have the same configuration and that the other
+   * matrix has default quantization. With output parameters, both matrices are treated as
+   * quantized and the sum is requantized to the given zero point and scale.
    *
    * @param other - The matrix to add.
+   * @param out - Optional quantization parameters of the output.
    * @returns A new Matrix instance with the summed values.
    */
-  add(other: Matrix): Matrix {
+  add(other: Matrix, out?: QuantParams): Matrix {
+    if (out !== undefined) {
+      constr_matrix_shape(this, other);
+      [this, other].forEach((matrix) => constr_quantized(matrix, 'add'));
+      let values = quant_add(this.values, this, other.values, other, out, 1);
+      return quantized(values, this.shape, out);
+    }
     constr_matrix_config(this, other);
     Provable.assertEqual(Field, other.zero_point, Field(0));
     Provable.assertEqual(Field, other.scale, Field(1));
 
     let values = add(this.values, other.values);
-    return new Matrix(values, this.shape, this.zero_point, this.scale);
+    if (this.fixed_point !== undefined) {
+      values.forEach((x) => assert_fixed_range(x, this.fixed_point!));
+      return derive(this, values, this.shape, this.bound);
+    }
+    return derive(this, values, this.shape, combine_bounds(this.bound, other.bound, (a, b) => a + b));
+  }
+
+  /**
+   * Subtracts another matrix from the current matrix element-wise.
+   * Without output parameters, ensures matrices have the same configuration and that the other
+   * matrix has default quantization. With output parameters, both matrices are treated as
+   * quantized and the difference is requantized to the given zero point and scale.
+   *
+   * @param other - The matrix to subtract.
+   * @param out - Optional quantization parameters of the output.
+   * @returns A new Matrix instance with the subtracted values.
+   */
+  sub(other: Matrix, out?: QuantParams): Matrix {
+    if (out !== undefined) {
+      constr_matrix_shape(this, other);
+      [this, other].forEach((matrix) => constr_quantized(matrix, 'sub'));
+      let values = quant_add(this.values, this, other.values, other, out, -1);
+      return quantized(values, this.shape, out);
+    }
+    constr_matrix_config(this, other);
+    Provable.assertEqual(Field, other.zero_point, Field(0));
+    Provable.assertEqual(Field, other.scale, Field(1));
+
+    let values = sub(this.values, other.values);
+    if (this.fixed_point !== undefined) {
+      values.forEach((x) => assert_fixed_range(x, this.fixed_point!));
+      return derive(this, values, this.shape, this.bound);
+    }
+    return derive(this, values, this.shape, combine_bounds(this.bound, other.bound, (a, b) => a + b));
+  }
+
+  /**
+   * Computes the Hadamard product (element-wise multiplication) with another matrix.
+   * Without output parameters, ensures matrices have the same configuration and that the other
+   * matrix has default quantization. With output parameters, both matrices are treated as
+   * quantized and the product is requantized to the given zero point and scale.
+   *
+   * @param other - The matrix to multiply element-wise.
+   * @param out - Optional quantization parameters of the output.
+   * @returns A new Matrix instance with the Hadamard product values.
+   */
+  hadamard_product(other: Matrix, out?: QuantParams): Matrix {
+    if (out !== undefined) {
+      constr_matrix_shape(this, other);
+      [this, other].forEach((matrix) => constr_quantized(matrix, 'hadamard_product'));
+      let values = quant_hadamard_product(this.values, this, other.values, other, out);
+      return quantized(values, this.shape, out);
+    }
+    constr_matrix_config(this, other);
+    Provable.assertEqual(Field, other.zero_point, Field(0));
+    Provable.assertEqual(Field, other.scale, Field(1));
+
+    if (this.fixed_point !== undefined) {
+      let values = fixed_hadamard_product(this.values, other.values, this.fixed_point);
+      return derive(this, values, this.shape, this.bound);
+    }
+    let bound = combine_bounds(this.bound, other.bound, (a, b) => a * b);
+    let values = hadamard_product(this.values, other.values);
+    return derive(this, values, this.shape, bound);
+  }
+
+  /**
+   * Performs matrix multiplication with another matrix.
+   * Verifies that the inner dimensions match. Without output parameters, also verifies that
+   * quantization parameters are consistent. With output parameters, both matrices are treated as
+   * quantized and the product is requantized to the given zero point and scale.
+   *
+   * @param other - The matrix to multiply with.
+   * @param out - Optional quantization parameters of the output.
+   * @returns A new Matrix instance representing the product with updated dimensions.
+   */
+  mul(other: Matrix, out?: QuantParams): Matrix {
+    if (out !== undefined) {
+      let [rows, inner, cols] = product_shape(this, other);
+      [this, other].forEach((matrix) => constr_quantized(matrix, 'mul'));
+      let values = quant_mul(this.values, this, other.values, other, [rows, inner, cols], out);
+      return quantized(values, [rows, cols], out);
+    }
+    Provable.assertEqual(Field, other.zero_point, Field(0));
+    Provable.assertEqual(Field, other.scale, Field(1));
+    Provable.assertEqual(Field, this.zero_point, other.zero_point);
+    Provable.assertEqual(Field, this.scale, other.scale);
+    constr_fixed_point(this, other);
+
+    let [rows, inner, cols] = product_shape(this, other);
+    if (this.fixed_point !== undefined) {
+      let values = fixed_mul(this.values, other.values, [rows, inner, cols], this.fixed_point);
+      return derive(this, values, [rows, cols], this.bound);
+    }
+    // Every entry of the product is a sum of `inner` products of two bounded entries.
+    let bound = combine_bounds(this.bound, other.bound, (a, b) => BigInt(inner) * a * b);
+    let values = mul(this.values, other.values, [rows, inner, cols]);
+    return derive(this, values, [rows, cols], bound);
+  }
+
+  /**
+   * Performs matrix multiplication with another matrix, witnessing the product and verifying it
+   * with Freivalds' test instead of computing it in the circuit. This costs a quadratic rather
+   * than cubic number of constraints. Each round fails to detect a wrong product with probability
+   * at most (cols - 1) / p, so a single round is already sound for practical sizes.
+   *
+   * @param other - The matrix to multiply with.
+   * @param rounds - The number of verification rounds, 1 by default.
+   * @returns A new Matrix instance representing the product with updated dimensions.
+   * @throws Error if either matrix holds fixed-point data or non-default quantization parameters.
+   */
+  mul_verified(other: Matrix, rounds = 1): Matrix {
+    [this, other].forEach((matrix) => check_plain(matrix, 'mul_verified only supports plain field matrices'));
+    let shape = product_shape(this, other);
+    let bound = combine_bounds(this.bound, other.bound, (a, b) => BigInt(shape[1]) * a * b);
+    let values = witness_product(this.values, other.values, shape);
+    let product = derive(this, values, [shape[0], shape[2]], bound);
+    Matrix.assert_product(this, other, product, rounds);
+    return product;
+  }
+
+  /**
+   * Asserts that C = A * B with Freivalds' test, using Fiat-Shamir challenges derived by Poseidon
+   * from the contents of all three matrices. The matrices must hold plain field elements, with
+   * zero_point = 0 and scale = 1.
+   *
+   * @param a - The left factor.
+   * @param b - The right factor.
+   * @param c - The claimed product.
+   * @param rounds - The number of verification rounds, 1 by default.
+   * @throws Error if any matrix holds fixed-point or quantized data, or the shapes do not match.
+   */
+  static assert_product(a: Matrix, b: Matrix, c: Matrix, rounds = 1) {
+    [a, b, c].forEach((matrix) => check_plain(matrix, 'assert_product only supports plain field matrices'));
+    let shape = product_shape(a, b);
+    if (c.shape[0] !== shape[0] || c.shape[1] !== shape[2]) {
+      throw new Error(`Expected a ${shape[0]}x${shape[2]} product, got ${format_shape(c.shape)}`);
+    }
+    assert_product(a.values, b.values, c.values, shape, [a.hash(), b.hash(), c.hash()], rounds);
+  }
+
+  /**
+   * Raises a square matrix to a constant power by square-and-multiply, which takes
+   * floor(log2(k)) squarings and one multiplication per further set bit of k instead of k - 1
+   * multiplications. Assumes default quantization parameters (zero_point = 0 and scale = 1);
+   * fixed-point products are rounded as in mul.
+   *
+   * @param k - The exponent, a non-negative integer. A^0 is the identity.
+   * @returns A new Matrix instance with A^k.
+   * @throws Error if the matrix is not square or the exponent is invalid.
+   */
+  pow(k: number): Matrix {
+    check_square(this.shape, 'pow');
+    if (!Number.isInteger(k) || k < 0) {
+      throw new Error(`Exponent must be a non-negative integer, got ${k}`);
+    }
+    Provable.assertEqual(Field, this.zero_point, Field(0));
+    Provable.assertEqual(Field, this.scale, Field(1));
+
+    let result: Matrix | undefined;
+    let base: Matrix = this;
+    for (; k > 0; k = Math.floor(k / 2)) {
+      if (k % 2 === 1) result = result === undefined ? base : result.mul(base);
+      if (k > 1) base = base.mul(base);
+    }
+    let one = this.fixed_point === undefined ? 1n : 1n << BigInt(this.fixed_point.frac_bits);
+    return result ?? scalar_identity(this, Field(one));
+  }
+
+  /**
+   * Evaluates a polynomial c_0 * I + c_1 * A + ... + c_d * A^d in a square matrix with Horner's
+   * method, which takes d - 1 matrix multiplications. Assumes default quantization parameters
+   * (zero_point = 0 and scale = 1). For fixed-point matrices, the coefficients are encoded
+   * fixed-point values.
+   *
+   * @param coeffs - The coefficients [c_0, c_1, ..., c_d], starting with the constant term.
+   * @returns A new Matrix instance with the value of the polynomial.
+   * @throws Error if the matrix is not square or there are no coefficients.
+   */
+  poly_eval(coeffs: Field[]): Matrix {
+    check_square(this.shape, 'poly_eval');
+    let d = coeffs.length - 1;
+    if (d < 0) {
+      throw new Error('Expected at least one coefficient');
+    }
+    Provable.assertEqual(Field, this.zero_point, Field(0));
+    Provable.assertEqual(Field, this.scale, Field(1));
+
+    if (d === 0) return scalar_identity(this, coeffs[0]);
+
+    // Starting from c_d * A + c_(d-1) * I saves multiplying by the scalar matrix c_d * I.
+    let result = this.scalar_mul(coeffs[d]).add(scalar_identity(this, coeffs[d - 1]));
+    for (let i = d - 2; i >= 0; i--) {
+      result = result.mul(this).add(scalar_identity(this, coeffs[i]));
+    }
+    return result;
+  }
+
+  /**
+   * Multiplies every element of the matrix by a scalar.
+   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   * For fixed-point matrices, the scalar is an encoded fixed-point value and products are rounded.
+   *
+   * @param scalar - The scalar by which to multiply the matrix.
+   * @returns A new Matrix instance with elements scaled by the given scalar.
+   */
+  scalar_mul(scalar: Field): Matrix {
+    Provable.assertEqual(Field, this.zero_point, Field(0));
+    Provable.assertEqual(Field, this.scale, Field(1));
+
+    if (this.fixed_point !== undefined) {
+      let values = fixed_scalar_mul(this.values, scalar, this.fixed_point);
+      return derive(this, values, this.shape, this.bound);
+    }
+    // Only a constant scalar gives a static bound on the result.
+    let scalar_bound = scalar.isConstant() ? abs(to_signed(scalar)) : undefined;
+    let bound = combine_bounds(this.bound, scalar_bound, (a, b) => a * b);
+    let values = scalar_mul(this.values, scalar);
+    return derive(this, values, this.shape, bound);
+  }
+
+  /**
+   * Divides every element of the matrix by a scalar.
+   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   * For fixed-point matrices, the scalar is an encoded fixed-point value and quotients are rounded
+   * to the nearest representable value instead of using the field inverse.
+   *
+   * @param scalar - The scalar by which to divide the matrix.
+   * @returns A new Matrix instance with elements divided by the given scalar.
+   */
+  scalar_div(scalar: Field): Matrix {
+    Provable.assertEqual(Field, this.zero_point, Field(0));
+    Provable.assertEqual(Field, this.scale, Field(1));
+
+    if (this.fixed_point !== undefined) {
+      let values = fixed_scalar_div(this.values, scalar, this.fixed_point);
+      return derive(this, values, this.shape, this.bound);
+    }
+    // Field division does not preserve magnitudes, so the result is unbounded.
+    let values = scalar_div(this.values, scalar);
+    return derive(this, values, this.shape, undefined);
+  }
+
+  /**
+   * Returns the transpose of the current matrix.
+   *
+   * @returns A new Matrix instance that is the transpose of the current matrix.
+   */
+  transpose(): Matrix {
+    let values = transpose(this.values, this.shape);
+    // Swap the dimensions in the shape tuple.
+    return derive(this, values, [this.shape[1], this.shape[0]], this.bound);
+  }
+
+  /**
+   * Returns the sum of all entries.
+   * Assumes default quantization parameters (zero_point = 0 and scale = 1). For fixed-point
+   * matrices, the sum is in the same fixed-point format.
+   *
+   * @returns The sum as a Field element.
+   */
+  sum(): Field {
+    Provable.assertEqual(Field, this.zero_point, Field(0));
+    Provable.assertEqual(Field, this.scale, Field(1));
+    return this.values.reduce((a, b) => a.add(b), Field(0));
+  }
+
+  /**
+   * Sums the entries of every row.
+   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   *
+   * @returns A new (rows, 1) Matrix instance with the row sums.
+   */
+  sum_rows(): Matrix {
+    return reduce_sum(this, 'row');
+  }
+
+  /**
+   * Sums the entries of every column.
+   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   *
+   * @returns A new (1, cols) Matrix instance with the column sums.
+   */
+  sum_cols(): Matrix {
+    return reduce_sum(this, 'col');
+  }
+
+  /**
+   * Returns the sum of the diagonal entries of a square matrix.
+   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   *
+   * @returns The trace as a Field element.
+   */
+  trace(): Field {
+    check_square(this.shape, 'trace');
+    return this.diag().sum();
+  }
+
+  /**
+   * Returns a single row of the matrix.
+   *
+   * @param i - The index of the row.
+   * @returns A new (1, cols) Matrix instance.
+   * @throws Error if the index is out of range.
+   */
+  row(i: number): Matrix {
+    return this.slice(i, i + 1, 0, this.shape[1]);
+  }
+
+  /**
+   * Returns a single column of the matrix.
+   *
+   * @param j - The index of the column.
+   * @returns A new (rows, 1) Matrix instance.
+   * @throws Error if the index is out of range.
+   */
+  col(j: number): Matrix {
+    return this.slice(0, this.shape[0], j, j + 1);
+  }
+
+  /**
+   * Returns the submatrix of rows r0 to r1 - 1 and columns c0 to c1 - 1.
+   *
+   * @param r0 - The first row.
+   * @param r1 - The row after the last row.
+   * @param c0 - The first column.
+   * @param c1 - The column after the last column.
+   * @returns A new (r1 - r0, c1 - c0) Matrix instance.
+   * @throws Error if the ranges are empty or out of bounds.
+   */
+  slice(r0: number, r1: number, c0: number, c1: number): Matrix {
+    let [rows, cols] = this.shape;
+    check_range(r0, r1, rows, 'Row');
+    check_range(c0, c1, cols, 'Column');
+
+    let values: Field[] = [];
+    for (let i = r0; i < r1; i++) values.push(...this.values.slice(i * cols + c0, i * cols + c1));
+    return derive(this, values, [r1 - r0, c1 - c0], this.bound);
+  }
+
+  /**
+   * Concatenates matrices side by side.
+   * Ensures all matrices have the same number of rows and the same configuration.
+   *
+   * @param matrices - The matrices to concatenate, from left to right.
+   * @returns A new Matrix instance with the columns of all matrices.
+   */
+  static hstack(matrices: Matrix[]): Matrix {
+    let first = stack_head(matrices);
+    let rows = first.shape[0];
+    let parts = matrices.map((m) => {
+      constr_matrix_params(first, m);
+      if (m.shape[0] !== rows) {
+        throw new Error(`Cannot stack a ${format_shape(m.shape)} matrix next to ${rows} rows`);
+      }
+      return lines(m, 'row');
+    });
+
+    let values: Field[] = [];
+    for (let i = 0; i < rows; i++) parts.forEach((part) => values.push(...part[i]));
+    let cols = matrices.reduce((n, m) => n + m.shape[1], 0);
+    return derive(first, values, [rows, cols], max_bound(matrices));
+  }
+
+  /**
+   * Concatenates matrices on top of each other.
+   * Ensures all matrices have the same number of columns and the same configuration.
+   *
+   * @param matrices - The matrices to concatenate, from top to bottom.
+   * @returns A new Matrix instance with the rows of all matrices.
+   */
+  static vstack(matrices: Matrix[]): Matrix {
+    let first = stack_head(matrices);
+    matrices.forEach((m) => {
+      constr_matrix_params(first, m);
+      if (m.shape[1] !== first.shape[1]) {
+        throw new Error(`Cannot stack a ${format_shape(m.shape)} matrix below ${first.shape[1]} columns`);
+      }
+    });
+
+    let rows = matrices.reduce((n, m) => n + m.shape[0], 0);
+    let values = matrices.flatMap((m) => m.values);
+    return derive(first, values, [rows, first.shape[1]], max_bound(matrices));
+  }
+
+  /**
+   * Returns the matrix with the same entries in row-major order and a new shape.
+   *
+   * @param rows - The new number of rows.
+   * @param cols - The new number of columns.
+   * @returns A new Matrix instance.
+   * @throws Error if the new shape has a different number of entries.
+   */
+  reshape(rows: number, cols: number): Matrix {
+    if (!(Number.isInteger(rows) && Number.isInteger(cols) && rows * cols === this.values.length)) {
+      throw new Error(`Cannot reshape a ${format_shape(this.shape)} matrix to ${rows}x${cols}`);
+    }
+    return derive(this, this.values, [rows, cols], this.bound);
+  }
+
+  /**
+   * Converts between diagonal matrices and their diagonals. A row or column vector becomes the
+   * square matrix with the vector on its diagonal and the zero point elsewhere; any other matrix
+   * gives its main diagonal as a column vector.
+   *
+   * @returns A new Matrix instance.
+   */
+  diag(): Matrix {
+    let [rows, cols] = this.shape;
+    if (rows === 1 || cols === 1) {
+      let n = this.values.length;
+      let values: Field[] = [];
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) values.push(i === j ? this.values[i] : this.zero_point);
+      }
+      // Off-diagonal entries are zero points, which a quantized bound already covers.
+      return derive(this, values, [n, n], this.bound);
+    }
+    let n = Math.min(rows, cols);
+    let values: Field[] = [];
+    for (let i = 0; i < n; i++) values.push(this.values[i * cols + i]);
+    return derive(this, values, [n, 1], this.bound);
+  }
+
+  /**
+   * Computes the determinant of a square matrix.
+   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   * Matrices larger than 2x2 use a witnessed and verified LU decomposition.
+   *
+   * @returns The determinant as a Field element.
+   * @throws Error if the matrix holds fixed-point data.
+   */
+  determinant(): Field {
+    constr_field_mode(this, 'determinant');
+    Provable.assertEqual(Field, this.zero_point, Field(0));
+    Provable.assertEqual(Field, this.scale, Field(1));
+    return determinant(this.values, this.shape);
+  }
+
+  /**
+   * Computes an LU decomposition with partial pivoting, P * A = L * U, of a square matrix.
+   * The factors are witnessed and verified: P is a permutation matrix, L is unit lower
+   * triangular, U is upper triangular and the products agree. The decomposition exists for
+   * every square matrix, including singular ones.
+   *
+   * @returns The permutation matrix P and the factors L and U as new Matrix instances.
+   * @throws Error if the matrix holds fixed-point data.
+   */
+  lu(): { p: Matrix; l: Matrix; u: Matrix } {
+    constr_field_mode(this, 'lu');
+    check_square(this.shape, 'lu');
+    let { p, l, u } = plu_decomposition(this.values, this.shape[0]);
+    return {
+      p: derive(this, p, this.shape, 1n),
+      l: derive(this, l, this.shape, undefined),
+      u: derive(this, u, this.shape, undefined),
+    };
+  }
+
+  /**
+   * Computes the Cholesky factor L of a symmetric positive definite fixed-point matrix, such that
+   * L * L^T == A. The factor is witnessed with a positive diagonal, and every entry of L * L^T is
+   * verified to be within the given tolerance of A.
+   *
+   * The default tolerance covers the rounding of L to the fixed-point format, computed from the
+   * witnessed factor: rounding L by one unit moves entry (i, j) of L * L^T by at most
+   * sum_k |L_ik| + sum_k |L_jk| units of 2^-frac_bits, plus two units for the product of the
+   * rounding errors and the rounding of the product.
+   *
+   * @param tolerance - Optional fixed maximum deviation per entry, in units of 2^-frac_bits.
+   * @returns A new Matrix instance representing the lower triangular factor.
+   * @throws Error if the matrix does not hold fixed-point data, or is not positive definite.
+   */
+  cholesky(tolerance?: bigint): Matrix {
+    if (this.fixed_point === undefined) {
+      throw new Error('cholesky is only supported for fixed-point matrices');
+    }
+    check_square(this.shape, 'cholesky');
+    let n = this.shape[0];
+    let config = this.fixed_point;
+
+    let l = derive(this, witness_cholesky(this.values, n, config), this.shape, this.bound);
+    let product = l.mul(l.transpose());
+    let residual = product.values.map((value, i) => value.sub(this.values[i]));
+    if (tolerance !== undefined) {
+      residual.forEach((r) => assert_abs_at_most(r, tolerance, 'L * L^T does not match the matrix'));
+    } else {
+      let weights = abs_row_sums(l.values, this.shape, config.total_bits - 1);
+      assert_rounding_residual(residual, this.shape, weights, weights, 2, config, 'L * L^T does not match the matrix');
+    }
+    return l;
+  }
+
+  /**
+   * Solves the linear system A * x = b, where A is this square matrix.
+   * The solution is witnessed and verified by A.mul(x) == b, and A is proven non-singular with a
+   * witnessed inverse, so the solution is unique. For fixed-point matrices, A * x is verified
+   * against b up to the rounding of x: by default, entry i may be off by sum_k |A_ik| units of
+   * 2^-frac_bits of x, computed from the values of A, plus one unit for the rounding of the product.
+   *
+   * With the least_squares option, A may have more rows than columns and the normal equations
+   * A^T * A * x = A^T * b are solved instead.
+   *
+   * @param b - The right-hand side, with as many rows as A.
+   * @param options - Optional least-squares mode and fixed-point tolerance.
+   * @returns A new Matrix instance representing the solution x.
+   * @throws Error if A is singular, or if the shapes do not match.
+   */
+  solve(b: Matrix, options: SolveOptions = {}): Matrix {
+    if (options.least_squares) {
+      let transposed = this.transpose();
+      return transposed.mul(this).solve(transposed.mul(b), { tolerance: options.tolerance });
+    }
+    check_square(this.shape, 'solve');
+    let [n, m] = [this.shape[0], b.shape[1]];
+    if (b.shape[0] !== n) {
+      throw new Error(`Cannot solve a ${format_shape(this.shape)} system for a ${format_shape(b.shape)} right-hand side`);
+    }
+    constr_fixed_point(this, b);
+    let shape: Shape = [n, m];
+
+    let x: Matrix;
+    if (this.fixed_point !== undefined) {
+      let config = this.fixed_point;
+      x = derive(this, witness_fixed_solution(this.values, b.values, n, m, config), shape, this.bound);
+      let product = this.mul(x);
+      let residual = product.values.map((value, i) => value.sub(b.values[i]));
+      if (options.tolerance !== undefined) {
+        residual.forEach((r) => assert_abs_at_most(r, options.tolerance!, 'A * x does not match b'));
+      } else {
+        // Rounding x by one unit moves entry i of A * x by at most sum_k |A_ik| units, and the product
+        // is rounded once more.
+        let weights = abs_row_sums(this.values, this.shape, value_bits(this, 'solve'));
+        assert_rounding_residual(residual, shape, weights, undefined, 1, config, 'A * x does not match b');
+      }
+    } else {
+      x = derive(this, witness_solution(this.values, b.values, n, m), shape, undefined);
+      let product = this.mul(x);
+      for (let i = 0; i < n * m; i++) {
+        product.values[i].assertEquals(b.values[i], 'A * x does not match b');
+      }
+    }
+    // The encoded values of a singular fixed-point matrix form a singular integer matrix, so a
+    // witnessed inverse proves A non-singular in both modes.
+    witness_inverse(this.values, n);
+    return x;
+  }
+
+  /**
+   * Computes the adjugate (adjoint) matrix of a square matrix.
+   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   *
+   * @returns A new Matrix instance representing the adjugate.
+   * @throws Error if the matrix holds fixed-point data.
+   */
+  adjoint(): Matrix {
+    constr_field_mode(this, 'adjoint');
+    Provable.assertEqual(Field, this.zero_point, Field(0));
+    Provable.assertEqual(Field, this.scale, Field(1));
+    let values = adjoint(this.values, this.shape);
+    return derive(this, values, this.shape, undefined);
+  }
+
+  /**
+   * Computes the inverse of a square matrix.
+   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   * The inverse is witnessed and verified by A * A_inv == I.
+   *
+   * @returns A new Matrix instance representing the inverse.
+   * @throws An error if the matrix is non-invertible.
+   * @throws Error if the matrix holds fixed-point data.
+   */
+  inverse(): Matrix {
+    constr_field_mode(this, 'inverse');
+    Provable.assertEqual(Field, this.zero_point, Field(0));
+    Provable.assertEqual(Field, this.scale, Field(1));
+    let values = inverse(this.values, this.shape);
+    return derive(this, values, this.shape, undefined);
+  }
+
+  /**
+   * Applies a dense layer, X * W + b, with the current matrix as the batch X of input rows and the
+   * bias b added to every row. With output parameters, X and W are treated as quantized, the bias
+   * is a signed 32-bit integer with scale s_x * s_w and zero point 0, and the result is requantized.
+   *
+   * @param weights - The weights W, of shape (inputs, outputs).
+   * @param bias - The bias b, of shape (1, outputs).
+   * @param out - Optional quantization parameters of the output.
+   * @returns A new Matrix instance with one row of outputs per input row.
+   */
+  dense(weights: Matrix, bias: Matrix, out?: QuantParams): Matrix {
+    if (bias.shape[0] !== 1 || bias.shape[1] !== weights.shape[1]) {
+      throw new Error(`Expected a 1x${weights.shape[1]} bias, got ${format_shape(bias.shape)}`);
+    }
+    if (out !== undefined) {
+      let [rows, inner, cols] = product_shape(this, weights);
+      [this, weights].forEach((matrix) => constr_quantized(matrix, 'dense'));
+      let values = quant_mul(this.values, this, weights.values, weights, [rows, inner, cols], out, bias.values);
+      return quantized(values, [rows, cols], out);
+    }
+
+    let product = this.mul(weights);
+    let rows = product.shape[0];
+    let broadcast = derive(bias, new Array(rows).fill(bias.values).flat(), product.shape, bias.bound);
+    return product.add(broadcast);
+  }
+
+  /**
+   * Applies the rectified linear unit element-wise. Quantized values are rectified at the zero
+   * point, so that the real value max(x, 0) keeps the same quantization parameters.
+   *
+   * @returns A new Matrix instance with the rectified values.
+   * @throws Error if the values are not range-checked.
+   */
+  relu(): Matrix {
+    let bits = value_bits(this, 'relu');
+    let bound: bigint;
+    if (this.zero_point.isConstant()) {
+      bound = max_bigint(this.bound!, abs(to_signed(this.zero_point)));
+      bits = Math.max(bits, bit_length(bound));
+    } else {
+      assert_signed_bits(this.zero_point, bits, 'Zero point is out of range');
+      bound = 1n << BigInt(bits);
+    }
+    let values = relu(this.values, this.zero_point, bits + 1);
+    return derive(this, values, this.shape, bound);
+  }
+
+  /**
+   * Applies the logistic sigmoid element-wise, using a piecewise-linear approximation with an
+   * absolute error below 0.019. Fixed-point matrices keep their format. With output parameters,
+   * the values are treated as quantized and the result is quantized to the given parameters.
+   *
+   * @param out - Optional quantization parameters of the output.
+   * @returns A new Matrix instance with the activations.
+   * @throws Error if the matrix is neither fixed-point nor quantized.
+   */
+  sigmoid(out?: QuantParams): Matrix {
+    return activation(this, 'sigmoid', sigmoid, out);
+  }
+
+  /**
+   * Applies the hyperbolic tangent element-wise, as 2 * sigmoid(2x) - 1 with the sigmoid
+   * approximation. Fixed-point matrices keep their format. With output parameters, the values are
+   * treated as quantized and the result is quantized to the given parameters.
+   *
+   * @param out - Optional quantization parameters of the output.
+   * @returns A new Matrix instance with the activations.
+   * @throws Error if the matrix is neither fixed-point nor quantized.
+   */
+  tanh(out?: QuantParams): Matrix {
+    return activation(this, 'tanh', tanh, out);
+  }
+
+  /**
+   * Approximates the softmax of every row, with exp(x) approximated by (1 + x / 8)^8 after
+   * subtracting the row maximum. Fixed-point matrices keep their format. With output parameters,
+   * the values are treated as quantized and the probabilities are quantized to the given parameters.
+   *
+   * @param out - Optional quantization parameters of the output.
+   * @returns A new Matrix instance with the probabilities of each row.
+   * @throws Error if the matrix is neither fixed-point nor quantized.
+   */
+  softmax(out?: QuantParams): Matrix {
+    let shape = this.shape;
+    if (out !== undefined) {
+      constr_quantized(this, 'softmax');
+      let fixed = dequantize_fixed(this.values, this);
+      let values = softmax(fixed.values, shape, SCALE_BITS, fixed.bits);
+      return quantized(quantize_fixed(values, SCALE_BITS + 1, out), this.shape, out);
+    }
+    let config = activation_config(this, 'softmax');
+    let values = softmax(this.values, shape, config.frac_bits, config.total_bits);
+    return derive(this, values, this.shape, this.bound);
+  }
+
+  /**
+   * Returns the maximum of every row or column. Quantized and fixed-point matrices keep their
+   * parameters, since the maximum commutes with their monotone encodings.
+   *
+   * @param axis - 'row' for the maximum of every row, 'col' for the maximum of every column.
+   * @returns A new (rows, 1) or (1, cols) Matrix instance with the maxima.
+   * @throws Error if the values are not range-checked.
+   */
+  max(axis: Axis = 'row'): Matrix {
+    let bits = value_bits(this, 'max');
+    let values = lines(this, axis).map((line) => row_argmax(line, bits).max);
+    return derive(this, values, reduced_shape(this, axis), this.bound);
+  }
+
+  /**
+   * Returns the minimum of every row or column. Quantized and fixed-point matrices keep their
+   * parameters, since the minimum commutes with their monotone encodings.
+   *
+   * @param axis - 'row' for the minimum of every row, 'col' for the minimum of every column.
+   * @returns A new (rows, 1) or (1, cols) Matrix instance with the minima.
+   * @throws Error if the values are not range-checked.
+   */
+  min(axis: Axis = 'row'): Matrix {
+    let bits = value_bits(this, 'min');
+    let values = lines(this, axis).map((line) => row_argmax(line.map((x) => x.neg()), bits).max.neg());
+    return derive(this, values, reduced_shape(this, axis), this.bound);
+  }
+
+  /**
+   * Returns the index of the maximum of every row or column; ties resolve to the first occurrence.
+   *
+   * @param axis - 'row' for column indices of the row maxima, 'col' for row indices of the column maxima.
+   * @returns A new (rows, 1) or (1, cols) Matrix instance of indices.
+   * @throws Error if the values are not range-checked.
+   */
+  argmax(axis: Axis = 'row'): Matrix {
+    let bits = value_bits(this, 'argmax');
+    let lines_ = lines(this, axis);
+    let indices = lines_.map((line) => row_argmax(line, bits).index);
+    let result = new Matrix(indices, reduced_shape(this, axis), Field(0), Field(1));
+    result.bound = BigInt(lines_[0].length - 1);
+    return result;
+  }
+
+  /**
+   * Clamps every value to the interval [lo, hi]. The bounds are raw values in the encoding of the
+   * matrix, e.g. encoded with encode_fixed for fixed-point matrices, and may be circuit variables.
+   *
+   * @param lo - The lower bound.
+   * @param hi - The upper bound.
+   * @returns A new Matrix instance with the clamped values.
+   * @throws Error if the values are not range-checked.
+   */
+  clamp(lo: Field, hi: Field): Matrix {
+    let { values, bits } = clamp(this.values, lo, hi, value_bits(this, 'clamp'));
+    // The results lie in [lo, hi]; variable bounds are range-checked to the widened bit width.
+    let constants = [lo, hi].filter((x) => x.isConstant()).map((x) => abs(to_signed(x)));
+    let bound = constants.reduce(max_bigint, constants.length === 2 ? 0n : 1n << BigInt(bits));
+    return derive(this, values, this.shape, bound);
+  }
+
+  /**
+   * Sorts every row or column with a witnessed permutation and pairwise ordering checks. Equal
+   * values keep their original order.
+   *
+   * @param axis - 'row' to sort every row, 'col' to sort every column.
+   * @param descending - Whether to sort from largest to smallest, false by default.
+   * @returns A new Matrix instance with the sorted values.
+   * @throws Error if the values are not range-checked.
+   */
+  sort(axis: Axis = 'row', descending = false): Matrix {
+    let bits = value_bits(this, 'sort');
+    let sorted = lines(this, axis).map((line) => sort_row(line, bits, descending).values);
+    return derive(this, from_lines(sorted, axis), this.shape, this.bound);
+  }
+
+  /**
+   * Returns the k largest values of every row or column in descending order, with their indices.
+   * Equal values are ranked by index.
+   *
+   * @param k - The number of values to keep.
+   * @param axis - 'row' for the top k of every row, 'col' for the top k of every column.
+   * @returns The values and their indices, as (rows, k) or (k, cols) Matrix instances.
+   * @throws Error if k is out of range or the values are not range-checked.
+   */
+  top_k(k: number, axis: Axis = 'row'): { values: Matrix; indices: Matrix } {
+    let bits = value_bits(this, 'top_k');
+    let lines_ = lines(this, axis);
+    if (!Number.isInteger(k) || k < 1 || k > lines_[0].length) {
+      throw new Error(`Cannot take the top ${k} of ${lines_[0].length} values`);
+    }
+    let sorted = lines_.map((line) => sort_row(line, bits, true));
+    let shape: Shape = axis === 'row' ? [this.shape[0], k] : [k, this.shape[1]];
+
+    let values = derive(this, from_lines(sorted.map((x) => x.values.slice(0, k)), axis), shape, this.bound);
+    let indices = new Matrix(from_lines(sorted.map((x) => x.indices.slice(0, k)), axis), shape, Field(0), Field(1));
+    indices.bound = BigInt(lines_[0].length - 1);
+    return { values, indices };
+  }
+
+  /**
+   * Computes the 2D convolution (cross-correlation, as in deep learning frameworks) with a kernel.
+   * Padding uses the zero point, which represents real zero for quantized matrices. The
+   * convolution is computed as a matrix product, so fixed-point and quantized matrices are handled
+   * like in mul; with output parameters the result is requantized.
+   *
+   * @param kernel - The kernel.
+   * @param stride - The step between kernel positions, 1 by default.
+   * @param padding - The number of padded rows and columns on every side, 0 by default.
+   * @param out - Optional quantization parameters of the output.
+   * @returns A new Matrix instance with the convolution.
+   */
+  conv2d(kernel: Matrix, stride = 1, padding = 0, out?: QuantParams): Matrix {
+    return Matrix.conv2d_stack([this], [[kernel]], stride, padding, out)[0];
+  }
+
+  /**
+   * Computes the 2D convolution of a stack of input channels with a bank of kernels, where output
+   * channel o is the sum over input channels c of the convolution of inputs[c] with kernels[o][c].
+   * All inputs must share their shape and quantization parameters, and all kernels their shape.
+   *
+   * @param inputs - The input channels.
+   * @param kernels - The kernels, indexed by output channel and then input channel.
+   * @param stride - The step between kernel positions, 1 by default.
+   * @param padding - The number of padded rows and columns on every side, 0 by default.
+   * @param out - Optional quantization parameters of the output.
+   * @returns The output channels.
+   * @throws Error if the shapes of the inputs or kernels are inconsistent.
+   */
+  static conv2d_stack(inputs: Matrix[], kernels: Matrix[][], stride = 1, padding = 0, out?: QuantParams): Matrix[] {
+    let [input, kernel] = [inputs[0], kernels[0]?.[0]];
+    if (kernel === undefined || kernels.some((per_input) => per_input.length !== inputs.length)) {
+      throw new Error('Expected one kernel per input channel for every output channel');
+    }
+    inputs.forEach((x) => constr_matrix_config(input, x));
+    kernels.flat().forEach((k) => constr_matrix_config(kernel, k));
+
+    let shape = input.shape;
+    let window = kernel.shape;
+    let [rows, cols] = window_shape(shape, window, stride, padding);
+    let size = inputs.length * window[0] * window[1];
+
+    let patch_values = im2col(
+      inputs.map((x) => x.values),
+      shape,
+      window,
+      stride,
+      padding,
+      inputs.map((x) => x.zero_point)
+    );
+    let patches = derive(input, patch_values, [rows * cols, size], max_bound(inputs));
+    let weight_values = kernel_matrix(kernels.map((per_input) => per_input.map((k) => k.values)));
+    let weights = derive(kernel, weight_values, [size, kernels.length], max_bound(kernels.flat()));
+
+    let product = patches.mul(weights, out);
+    return kernels.map((_, o) => {
+      let values = product.values.filter((_, k) => k % kernels.length === o);
+      return derive(product, values, [rows, cols], product.bound);
+    });
+  }
+
+  /**
+   * Computes the maximum of every pooling window. Quantized and fixed-point matrices keep their
+   * parameters, since the maximum commutes with their monotone encodings. Apply it to every matrix
+   * of a channel stack to pool the stack.
+   *
+   * @param size - The side of the square window.
+   * @param stride - The step between windows, the window size by default.
+   * @returns A new Matrix instance with the maxima.
+   * @throws Error if the values are not range-checked.
+   */
+  max_pool(size: number, stride = size): Matrix {
+    let bits = value_bits(this, 'max_pool');
+    let shape = this.shape;
+    let [rows, cols] = window_shape(shape, [size, size], stride, 0);
+    let values = pool_windows(this.values, shape, size, stride).map((window) => row_argmax(window, bits).max);
+    return derive(this, values, [rows, cols], this.bound);
   }
 
   /**
-   * Subtracts another matrix from the current matrix element-wise.
-   * Ensures matrices have the same configuration and that the other matrix has default quantization.
+   * Computes the average of every pooling window, rounded to the nearest representable value.
+   * Quantized and fixed-point matrices keep their parameters, since averaging commutes with their
+   * affine encodings. Apply it to every matrix of a channel stack to pool the stack.
    *
-   * @param other - The matrix to subtract.
-   * @returns A new Matrix instance with the subtracted values.
+   * @param size - The side of the square window.
+   * @param stride - The step between windows, the window size by default.
+   * @returns A new Matrix instance with the averages.
+   * @throws Error if the values are not range-checked.
    */
-  sub(other: Matrix): Matrix {
-    constr_matrix_config(this, other);
-    Provable.assertEqual(Field, other.zero_point, Field(0));
-    Provable.assertEqual(Field, other.scale, Field(1));
-
-    let values = sub(this.values, other.values);
-    return new Matrix(values, this.shape, this.zero_point, this.scale);
+  avg_pool(size: number, stride = size): Matrix {
+    let bits = value_bits(this, 'avg_pool');
+    let shape = this.shape;
+    let [rows, cols] = window_shape(shape, [size, size], stride, 0);
+    let values = pool_windows(this.values, shape, size, stride).map((window) =>
+      div_round(window.reduce((a, b) => a.add(b)), size * size, bits)
+    );
+    return derive(this, values, [rows, cols], this.bound);
   }
 
   /**
-   * Computes the Hadamard product (element-wise multiplication) with another matrix.
-   * Ensures matrices have the same configuration and that the other matrix has default quantization.
+   * Reads the values into a NativeMatrix, to compute with plain bigints out of circuit. Only usable on
+   * constant matrices or inside prover code, such as Provable.asProver.
    *
-   * @param other - The matrix to multiply element-wise.
-   * @returns A new Matrix instance with the Hadamard product values.
+   * @returns A new NativeMatrix instance.
+   * @throws Error if the matrix holds fixed-point or quantized data.
    */
-  hadamard_product(other: Matrix): Matrix {
-    constr_matrix_config(this, other);
-    Provable.assertEqual(Field, other.zero_point, Field(0));
-    Provable.assertEqual(Field, other.scale, Field(1));
-
-    let values = hadamard_product(this.values, other.values);
-    return new Matrix(values, this.shape, this.zero_point, this.scale);
+  to_native(): NativeMatrix {
+    constr_field_mode(this, 'to_native');
+    if (this.zero_point.toBigInt() !== 0n || this.scale.toBigInt() !== 1n) {
+      throw new Error('to_native requires default quantization parameters');
+    }
+    return NativeMatrix.from_fields(this.values, this.shape);
   }
 
   /**
-   * Performs matrix multiplication with another matrix.
-   * Verifies that the inner dimensions match and that quantization parameters are consistent.
+   * Returns the real values represented by a constant matrix: the decoded fixed-point values, the
+   * dequantized values scale * (q - zero_point), or the signed integers of a plain matrix.
    *
-   * @param other - The matrix to multiply with.
-   * @returns A new Matrix instance representing the product with updated dimensions.
+   * @returns The real values in row-major order.
    */
-  mul(other: Matrix): Matrix {
-    Provable.assertEqual(Field, other.zero_point, Field(0));
-    Provable.assertEqual(Field, other.scale, Field(1));
-    Provable.assertEqual(Field, this.zero_point, other.zero_point);
-    Provable.assertEqual(Field, this.scale, other.scale);
-
-    let values = mul(this.values, other.values, this.shape, other.shape);
-    return new Matrix(values, [this.shape[0], other.shape[1]], this.zero_point, this.scale);
+  to_real(): number[] {
+    let config = this.fixed_point;
+    if (config !== undefined) return this.values.map((x) => decode_fixed(x, config!));
+    let zero_point = to_signed(this.zero_point);
+    let scale = this.scale.toBigInt() === 1n && zero_point === 0n ? 1 : decode_scale(this.scale);
+    return this.values.map((x) => scale * Number(to_signed(x) - zero_point));
   }
 
   /**
-   * Multiplies every element of the matrix by a scalar.
-   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   * Returns the JSON representation of a constant matrix, with signed decimal values. It keeps the
+   * shape, zero point, scale and fixed-point format, so that Matrix.from_json restores the matrix.
    *
-   * @param scalar - The scalar by which to multiply the matrix.
-   * @returns A new Matrix instance with elements scaled by the given scalar.
+   * @returns The JSON object; use JSON.stringify to get a string.
    */
-  scalar_mul(scalar: Field): Matrix {
-    Provable.assertEqual(Field, this.zero_point, Field(0));
-    Provable.assertEqual(Field, this.scale, Field(1));
-
-    let values = scalar_mul(this.values, scalar);
-    return new Matrix(values, this.shape, this.zero_point, this.scale);
+  to_json(): MatrixJson {
+    let json: MatrixJson = {
+      shape: [this.shape[0], this.shape[1]],
+      values: this.values.map((x) => to_signed(x).toString()),
+      zero_point: to_signed(this.zero_point).toString(),
+      scale: this.scale.toString(),
+    };
+    if (this.fixed_point !== undefined) json.fixed_point = { ...this.fixed_point };
+    return json;
   }
 
   /**
-   * Divides every element of the matrix by a scalar.
-   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   * Writes a constant matrix as a NumPy .npy file in C order, with signed 64-bit integers or, for
+   * real values, 64-bit floats. The file does not hold the zero point, scale or fixed-point format.
    *
-   * @param scalar - The scalar by which to divide the matrix.
-   * @returns A new Matrix instance with elements divided by the given scalar.
+   * @param options - Whether to write real values, see ExportOptions.
+   * @returns The contents of the .npy file.
+   * @throws Error if a value does not fit in a signed 64-bit integer.
    */
-  scalar_div(scalar: Field): Matrix {
-    Provable.assertEqual(Field, this.zero_point, Field(0));
-    Provable.assertEqual(Field, this.scale, Field(1));
+  to_npy(options: ExportOptions = {}): Uint8Array {
+    return write_npy(to_numbers(this, options));
+  }
 
-    let values = scalar_div(this.values, scalar);
-    return new Matrix(values, this.shape, this.zero_point, this.scale);
+  /**
+   * Writes a constant matrix as comma-separated values, one row per line.
+   *
+   * @param options - Whether to write real values, see ExportOptions.
+   * @returns The CSV text.
+   */
+  to_csv(options: ExportOptions = {}): string {
+    return write_csv(to_numbers(this, options));
   }
 
   /**
-   * Returns the transpose of the current matrix.
+   * Counts the constraint rows of an operation on private operands of the given shapes, without
+   * compiling a circuit, to budget circuits. See bench.ts for the operations and modes, and
+   * `npm run bench` to also measure compile, prove and verify times. bench.ts builds on Matrix, so
+   * it is only imported when needed.
    *
-   * @returns A new Matrix instance that is the transpose of the current matrix.
+   * @param op - The operation, such as 'mul'.
+   * @param shapes - The operand shapes, such as [[8, 8], [8, 8]].
+   * @param mode - The data representation of the operands, 'field' by default.
+   * @returns The number of rows.
+   * @throws Error if the operation is unknown, does not support the mode, or the shapes do not fit.
    */
-  transpose(): Matrix {
-    let values = transpose(this.values, this.shape);
-    // Swap the dimensions in the shape tuple.
-    return new Matrix(values, [this.shape[1], this.shape[0]], this.zero_point, this.scale);
+  static async estimate_rows(op: BenchOp, shapes: Shape[], mode: BenchMode = 'field'): Promise<number> {
+    let { analyze } = await import('./bench.js');
+    return (await analyze(op, shapes, mode)).rows;
   }
 
   /**
-   * Computes the determinant of a square matrix.
-   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   * Hashes the matrix with Poseidon, binding its shape, zero_point, scale and values.
    *
-   * @returns The determinant as a Field element.
+   * @returns The hash as a Field element.
    */
-  determinant(): Field {
-    Provable.assertEqual(Field, this.zero_point, Field(0));
-    Provable.assertEqual(Field, this.scale, Field(1));
-    return determinant(this.values, this.shape);
+  hash(): Field {
+    return Poseidon.hash([...this.shape.map((n) => Field(n)), this.zero_point, this.scale, ...this.values]);
   }
 
   /**
-   * Computes the adjugate (adjoint) matrix of a square matrix.
-   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   * Computes a hiding commitment to the matrix, Poseidon(salt, hash). Publishing the commitment
+   * reveals nothing about a private matrix as long as the salt is random and kept secret.
    *
-   * @returns A new Matrix instance representing the adjugate.
+   * @param salt - A random salt.
+   * @returns The commitment as a Field element.
    */
-  adjoint(): Matrix {
-    Provable.assertEqual(Field, this.zero_point, Field(0));
-    Provable.assertEqual(Field, this.scale, Field(1));
-    let values = adjoint(this.values, this.shape);
-    return new Matrix(values, this.shape, this.zero_point, this.scale);
+  commit(salt: Field): Field {
+    return Poseidon.hash([salt, this.hash()]);
   }
 
   /**
-   * Computes the inverse of a square matrix.
-   * Assumes default quantization parameters (zero_point = 0 and scale = 1).
+   * Asserts that the matrix matches a commitment created with commit, or with hash when no salt
+   * is given.
    *
-   * @returns A new Matrix instance representing the inverse.
-   * @throws An error if the determinant is zero (i.e., the matrix is non-invertible).
+   * @param commitment - The commitment to check against.
+   * @param salt - The salt used to create the commitment, if any.
    */
-  inverse(): Matrix {
-    Provable.assertEqual(Field, this.zero_point, Field(0));
-    Provable.assertEqual(Field, this.scale, Field(1));
-    let values = inverse(this.values, this.shape);
-    return new Matrix(values, this.shape, this.zero_point, this.scale);
+  assert_commitment(commitment: Field, salt?: Field) {
+    let expected = salt === undefined ? this.hash() : this.commit(salt);
+    expected.assertEquals(commitment, 'Matrix does not match the commitment');
   }
 }
 
@@ -241,38 +1538,31 @@ function hadamard_product(matrix1: Field[], matrix2: Field[]): Field[] {
 }
 
 /**
- * Performs matrix multiplication between two matrices represented by their values and shapes.
+ * Performs matrix multiplication between two matrices represented by their values.
  *
  * @param matrix1 - The array of Field elements for the first matrix.
  * @param matrix2 - The array of Field elements for the second matrix.
- * @param matrix1_shape - The shape (rows, columns) of the first matrix.
- * @param matrix2_shape - The shape (rows, columns) of the second matrix.
+ * @param dims - The dimensions [rows, inner, cols] of the product, see product_shape.
  * @returns An array of Field elements representing the resulting matrix multiplication.
  */
-function mul(
-  matrix1: Field[],
-  matrix2: Field[],
-  matrix1_shape: [Field, Field],
-  matrix2_shape: [Field, Field]
-): Field[] {
-  // Ensure the number of columns in the first matrix equals the number of rows in the second matrix.
-  Provable.assertEqual(Field, matrix1_shape[1], matrix2_shape[0]);
-  let result: Field[] = new Array(Number(matrix1_shape[0]) * Number(matrix2_shape[1])).fill(Field(0));
+function mul(matrix1: Field[], matrix2: Field[], dims: [number, number, number]): Field[] {
+  let [rows, inner, cols] = dims;
+  if (is_constant(matrix1) && is_constant(matrix2)) {
+    let native = NativeMatrix.from_fields(matrix1, [rows, inner]);
+    return native.mul(NativeMatrix.from_fields(matrix2, [inner, cols])).to_fields();
+  }
+  let result: Field[] = new Array(rows * cols).fill(Field(0));
 
   // Loop over rows of the first matrix.
-  for (let i = 0; i < matrix1_shape[0].toBigInt(); i++) {
+  for (let i = 0; i < rows; i++) {
     // Loop over columns of the second matrix.
-    for (let j = 0; j < matrix2_shape[1].toBigInt(); j++) {
+    for (let j = 0; j < cols; j++) {
       let element = Field(0);
       // Compute the dot product of the row and column.
-      for (let k = 0; k < matrix1_shape[1].toBigInt(); k++) {
-        element = element.add(
-          matrix1[i * Number(matrix1_shape[1]) + k].mul(
-            matrix2[k * Number(matrix2_shape[1]) + j]
-          )
-        );
+      for (let k = 0; k < inner; k++) {
+        element = element.add(matrix1[i * inner + k].mul(matrix2[k * cols + j]));
       }
-      result[i * Number(matrix2_shape[1]) + j] = element;
+      result[i * cols + j] = element;
     }
   }
   return result;
@@ -317,11 +1607,12 @@ function scalar_div(matrix: Field[], scalar: Field): Field[] {
  * @param shape - The shape of the matrix as a tuple [rows, columns].
  * @returns An array of Field elements representing the transposed matrix.
  */
-function transpose(matrix_values: Field[], shape: [Field, Field]): Field[] {
+function transpose(matrix_values: Field[], shape: Shape): Field[] {
   let result: Field[] = new Array(matrix_values.length).fill(Field(0));
-  for (let i = 0; i < Number(shape[0]); i++) {
-    for (let j = 0; j < Number(shape[1]); j++) {
-      result[j * Number(shape[0]) + i] = matrix_values[i * Number(shape[1]) + j];
+  let [rows, cols] = shape;
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) {
+      result[j * rows + i] = matrix_values[i * cols + j];
     }
   }
   return result;
@@ -329,74 +1620,48 @@ function transpose(matrix_values: Field[], shape: [Field, Field]): Field[] {
 
 /**
  * Computes the minor of a matrix by removing the specified row and column.
- * This function is used in determinant and adjugate calculations.
+ * This function is used in determinant and adjugate calculations. The minor only selects entries
+ * of the matrix, so it adds no witnesses or constraints.
  *
  * @param matrix - The array of Field elements representing the original matrix.
- * @param row - The row index (as a Field) to remove.
- * @param col - The column index (as a Field) to remove.
+ * @param row - The row index to remove.
+ * @param col - The column index to remove.
  * @param shape - The shape of the original matrix.
- * @param minor - An array to store the computed minor values.
  * @returns The minor matrix as an array of Field elements.
  */
-function get_minor(matrix: Field[], row: Field, col: Field, shape: [Field, Field], minor: Field[]): Field[] {
-  let native_minor: Field[] = new Array(Number(shape[0]) * Number(shape[1])).fill(Field(0));
-
-  let r = -1;
-
-  for (let i = 0; i < Number(shape[0]); i++) {
-    if (i != Number(row)) {
-      r += 1;
-      let c = -1;
-      for (let j = 0; j < Number(shape[1]); j++) {
-        if (j != Number(col)) {
-          c += 1;
-          let minor_idx = r * (Number(shape[1]) - 1) + c;
-          native_minor[minor_idx] = matrix[i * Number(shape[1]) + j];
-          minor[minor_idx] = Provable.witness(Field, () => native_minor[minor_idx]);
-          Provable.assertEqual(Field, minor[minor_idx], matrix[i * Number(shape[1]) + j]);
-        }
-      }
+function get_minor(matrix: Field[], row: number, col: number, shape: Shape): Field[] {
+  let [rows, cols] = shape;
+  let minor: Field[] = [];
+  for (let i = 0; i < rows; i++) {
+    if (i === row) continue;
+    for (let j = 0; j < cols; j++) {
+      if (j !== col) minor.push(matrix[i * cols + j]);
     }
   }
-
   return minor;
 }
 
 /**
- * Recursively computes the determinant of a square matrix.
+ * Computes the determinant of a square matrix.
+ * Small matrices use the closed-form formulas; larger ones use a witnessed LU decomposition,
+ * which costs O(n^3) constraints instead of the factorial cost of cofactor expansion.
  *
  * @param matrix - The array of Field elements representing the matrix.
  * @param shape - The shape of the matrix; must be square.
  * @returns The determinant as a Field element.
  */
-function determinant(matrix: Field[], shape: [Field, Field]): Field {
-  Provable.assertEqual(Field, shape[0], shape[1]);
+function determinant(matrix: Field[], shape: Shape): Field {
+  check_square(shape, 'determinant');
 
-  if (Number(shape[0]) == 2) {
+  if (shape[0] == 2) {
     // For a 2x2 matrix, use the shortcut formula: ad - bc
     return matrix[0].mul(matrix[3]).sub(matrix[1].mul(matrix[2]));
-  } else if (Number(shape[0]) == 1) {
+  } else if (shape[0] == 1) {
     return matrix[0];
+  } else if (is_constant(matrix)) {
+    return Field(NativeMatrix.from_fields(matrix, shape).determinant());
   } else {
-    let det = Field(0);
-    let sign = Field(1);
-
-    // Expand along the first row.
-    for (let i = 0; i < Number(shape[0]); i++) {
-      let minor = new Array((Number(shape[0]) - i) * (Number(shape[0]) - i)).fill(Field(0));
-      minor = get_minor(matrix, Field(0), Field(i), shape, minor);
-      det = det.add(
-        sign.mul(matrix[i]).mul(
-          determinant(minor, [
-            shape[0].sub(Field(1)),
-            shape[1].sub(Field(1))
-          ])
-        )
-      );
-      sign = sign.mul(Field(-1));
-    }
-
-    return det;
+    return lu_determinant(matrix, shape[0]);
   }
 }
 
@@ -407,23 +1672,23 @@ function determinant(matrix: Field[], shape: [Field, Field]): Field {
  * @param shape - The shape of the square matrix.
  * @returns An array of Field elements representing the adjugate matrix.
  */
-function adjoint(matrix: Field[], shape: [Field, Field]): Field[] {
-  Provable.assertEqual(Field, shape[0], shape[1]);
+function adjoint(matrix: Field[], shape: Shape): Field[] {
+  check_square(shape, 'adjoint');
+  if (is_constant(matrix)) return NativeMatrix.from_fields(matrix, shape).adjoint().to_fields();
   let adjoint = new Array(matrix.length).fill(Field(0));
 
-  for (let i = 0; i < shape[0].toBigInt(); i++) {
-    for (let j = 0; j < shape[1].toBigInt(); j++) {
-      let minor = new Array(matrix.length).fill(Field(0));
-      minor = get_minor(matrix, Field(i), Field(j), shape, minor);
+  for (let i = 0; i < shape[0]; i++) {
+    for (let j = 0; j < shape[1]; j++) {
+      let minor = get_minor(matrix, i, j, shape);
       let sign = Field(1);
       // Determine the sign based on the position (i, j)
       for (let k = 0; k < i + j; k++) {
         sign = sign.mul(Field(-1));
       }
       let cofactor = sign.mul(
-        determinant(minor, [shape[0].sub(Field(1)), shape[1].sub(Field(1))])
+        determinant(minor, [shape[0] - 1, shape[1] - 1])
       );
-      adjoint[i * Number(shape[1]) + j] = cofactor;
+      adjoint[i * shape[1] + j] = cofactor;
     }
   }
 
@@ -435,28 +1700,91 @@ function adjoint(matrix: Field[], shape: [Field, Field]): Field[] {
 
 /**
  * Computes the inverse of a square matrix.
- * It uses the formula: inverse = (adjugate) / (determinant).
+ * The inverse is computed out of circuit and verified by checking A * A_inv == I, which also
+ * proves that the matrix is non-singular.
  *
  * @param matrix - The array of Field elements representing the matrix.
  * @param shape - The shape of the square matrix.
  * @returns An array of Field elements representing the inverse matrix.
- * @throws Error if the determinant is zero.
+ * @throws Error if the matrix is not invertible.
  */
-function inverse(matrix: Field[], shape: [Field, Field]): Field[] {
-  Provable.assertEqual(Field, shape[0], shape[1]);
-  let det = determinant(matrix, shape);
-  det.assertNotEquals(Field(0));
-  let ad_joint = adjoint(matrix, shape);
+function inverse(matrix: Field[], shape: Shape): Field[] {
+  check_square(shape, 'inverse');
+  if (is_constant(matrix)) return NativeMatrix.from_fields(matrix, shape).inverse().to_fields();
+  return witness_inverse(matrix, shape[0]);
+}
+
+/**
+ * Converts numbers read from a file into a constant matrix, see ImportOptions.
+ *
+ * @param array - The shape and the values.
+ * @param options - How to convert the values.
+ * @returns A new Matrix instance.
+ * @throws Error if the options conflict or the values cannot be converted.
+ */
+function from_numbers(array: NumericArray, options: ImportOptions): Matrix {
+  let { shape, values } = array;
+  let { fixed_point, quant } = options;
+  if (fixed_point !== undefined && quant !== undefined) {
+    throw new Error('Choose either a fixed-point format or quantization parameters');
+  }
 
-  let inverse = new Array(matrix.length).fill(Field(0));
+  if (fixed_point !== undefined) {
+    return Matrix.from_fixed_point(values.map((x) => encode_fixed(Number(x), fixed_point!)), shape, fixed_point);
+  }
 
-  for (let i = 0; i < shape[0].toBigInt(); i++) {
-    for (let j = 0; j < shape[1].toBigInt(); j++) {
-      inverse[i * Number(shape[1]) + j] = ad_joint[i * Number(shape[1]) + j].div(det);
-    }
+  if (quant !== undefined) {
+    let dtype = quant.dtype ?? 'uint8';
+    let [lo, hi] = QUANT_RANGES[dtype];
+    let zero_point = BigInt(quant.zero_point);
+    let quantized_values = values.map((x) => {
+      let q = BigInt(Math.round(Number(x) / quant!.scale)) + zero_point;
+      return q < lo ? lo : q > hi ? hi : q;
+    });
+    let out: QuantParams = { zero_point: Field(zero_point), scale: encode_scale(quant.scale), dtype };
+    return quantized(quantized_values.map((x) => Field(x)), shape, out);
   }
 
-  return inverse;
+  if (values.some((x) => typeof x === 'number')) {
+    throw new Error('Real values need a fixed-point format or quantization parameters');
+  }
+  let fields = values.map((x) => Field(x));
+  let matrix = new Matrix(fields, shape, Field(0), Field(1));
+  matrix.bound = constant_bound(fields);
+  return matrix;
+}
+
+/**
+ * Reads the values of a constant matrix for export, see ExportOptions.
+ *
+ * @param matrix - The Matrix instance.
+ * @param options - Whether to convert fixed-point and quantized values to real numbers.
+ * @returns The shape and the signed integer values, or the real values.
+ */
+function to_numbers(matrix: Matrix, options: ExportOptions): NumericArray {
+  let shape: Shape = [matrix.shape[0], matrix.shape[1]];
+  return { shape, values: options.real ? matrix.to_real() : matrix.values.map(to_signed) };
+}
+
+/**
+ * Returns the largest absolute value of constant values, as their bound.
+ *
+ * @param values - The constant values.
+ * @returns The largest absolute value.
+ */
+export function constant_bound(values: Field[]): bigint {
+  return values.map((x) => abs(to_signed(x))).reduce(max_bigint, 0n);
+}
+
+/**
+ * Checks whether all values are constants, so that an operation can be computed natively (see
+ * NativeMatrix) without adding constraints.
+ *
+ * @param values - The array of Field elements.
+ * @returns True if every value is a constant.
+ */
+function is_constant(values: Field[]): boolean {
+  return values.every((x) => x.isConstant());
 }
 
 /**
@@ -467,8 +1795,392 @@ function inverse(matrix: Field[], shape: [Field, Field]): Field[] {
  * @param other - The second Matrix instance.
  */
 function constr_matrix_config(matrix: Matrix, other: Matrix) {
-  matrix.shape[0].equals(other.shape[0]).assertEquals(true);
-  matrix.shape[1].equals(other.shape[1]).assertEquals(true);
+  constr_matrix_shape(matrix, other);
+  constr_matrix_params(matrix, other);
+}
+
+/**
+ * Checks that two Matrix instances have the same fixed-point format, zero_point and scale,
+ * independently of their shapes.
+ *
+ * @param matrix - The first Matrix instance.
+ * @param other - The second Matrix instance.
+ */
+function constr_matrix_params(matrix: Matrix, other: Matrix) {
+  constr_fixed_point(matrix, other);
   matrix.zero_point.equals(other.zero_point).assertEquals(true);
   matrix.scale.equals(other.scale).assertEquals(true);
 }
+
+/**
+ * Checks that two Matrix instances have the same shape.
+ *
+ * @param matrix - The first Matrix instance.
+ * @param other - The second Matrix instance.
+ */
+function constr_matrix_shape(matrix: Matrix, other: Matrix) {
+  if (matrix.shape[0] !== other.shape[0] || matrix.shape[1] !== other.shape[1]) {
+    throw new Error(`Matrix shapes ${format_shape(matrix.shape)} and ${format_shape(other.shape)} do not match`);
+  }
+}
+
+/**
+ * Checks that a shape is square.
+ *
+ * @param shape - The shape to check.
+ * @param operation - The name of the operation, used in the error message.
+ * @throws Error if the shape is not square.
+ */
+function check_square(shape: Shape, operation: string) {
+  if (shape[0] !== shape[1]) {
+    throw new Error(`${operation} requires a square matrix, got ${format_shape(shape)}`);
+  }
+}
+
+/** Formats a shape as rows x columns for error messages. */
+function format_shape(shape: Shape): string {
+  return `${shape[0]}x${shape[1]}`;
+}
+
+/**
+ * Checks that two Matrix instances use the same fixed-point format, or that neither holds
+ * fixed-point data. The format is static, so this is checked when the circuit is built.
+ *
+ * @param matrix - The first Matrix instance.
+ * @param other - The second Matrix instance.
+ * @throws Error if the formats differ.
+ */
+function constr_fixed_point(matrix: Matrix, other: Matrix) {
+  let [a, b] = [matrix.fixed_point, other.fixed_point];
+  if (a?.frac_bits !== b?.frac_bits || a?.total_bits !== b?.total_bits) {
+    throw new Error('Matrices have different fixed-point formats');
+  }
+}
+
+/**
+ * Checks that two matrices can be multiplied and returns the dimensions of the product.
+ *
+ * @param matrix - The left factor.
+ * @param other - The right factor.
+ * @returns The dimensions [rows, inner, cols].
+ * @throws Error if the inner dimensions differ.
+ */
+function product_shape(matrix: Matrix, other: Matrix): [number, number, number] {
+  if (matrix.shape[1] !== other.shape[0]) {
+    throw new Error(`Cannot multiply a ${format_shape(matrix.shape)} matrix with a ${format_shape(other.shape)} matrix`);
+  }
+  return [matrix.shape[0], matrix.shape[1], other.shape[1]];
+}
+
+/**
+ * Checks that a Matrix holds plain field elements, for operations that only make sense over the field.
+ *
+ * @param matrix - The Matrix instance.
+ * @param operation - The name of the operation, used in the error message.
+ * @throws Error if the matrix holds fixed-point data.
+ */
+function constr_field_mode(matrix: Matrix, operation: string) {
+  if (matrix.fixed_point !== undefined) {
+    throw new Error(`${operation} is not supported for fixed-point matrices`);
+  }
+}
+
+/**
+ * Checks that a matrix can be an operand of requantizing arithmetic, which assumes that quantized
+ * values and zero points lie in [-2^QUANT_BITS, 2^QUANT_BITS). The values must carry a bound, as
+ * those of provable types with 8 bits or of constant matrices do, and variable zero points are
+ * range-checked.
+ *
+ * @param matrix - The Matrix instance.
+ * @param operation - The name of the operation, used in the error message.
+ * @throws Error if the matrix holds fixed-point data or its values are not range-checked.
+ */
+function constr_quantized(matrix: Matrix, operation: string) {
+  if (matrix.fixed_point !== undefined) {
+    throw new Error(`Quantized ${operation} is not supported for fixed-point matrices`);
+  }
+  let bound = matrix.bound ?? (is_constant(matrix.values) ? constant_bound(matrix.values) : undefined);
+  if (bound === undefined || bound >= 1n << BigInt(QUANT_BITS)) {
+    throw new Error(`Quantized ${operation} requires values range-checked to ${QUANT_BITS} bits`);
+  }
+  assert_signed_bits(matrix.zero_point, QUANT_BITS, 'Quantized zero point is out of range');
+}
+
+/**
+ * Checks that a matrix holds plain field elements, with default quantization parameters.
+ *
+ * @param matrix - The Matrix instance.
+ * @param message - The error message.
+ * @throws Error if the matrix holds fixed-point or quantized data.
+ */
+export function check_plain(matrix: Matrix, message: string) {
+  if (matrix.fixed_point !== undefined) {
+    throw new Error(message);
+  }
+  matrix.zero_point.assertEquals(Field(0), message);
+  matrix.scale.assertEquals(Field(1), message);
+}
+
+/**
+ * Creates a Matrix with new values and shape that keeps the configuration of an existing one.
+ *
+ * @param matrix - The Matrix instance whose configuration is kept.
+ * @param values - The values of the new matrix.
+ * @param shape - The shape of the new matrix.
+ * @param bound - The bound on the absolute value of the new entries, if known.
+ * @returns A new Matrix instance.
+ */
+export function derive(matrix: Matrix, values: Field[], shape: Shape, bound: bigint | undefined): Matrix {
+  let result = new Matrix(values, shape, matrix.zero_point, matrix.scale);
+  result.fixed_point = matrix.fixed_point;
+  result.bound = bound;
+  return result;
+}
+
+/**
+ * Creates the square matrix c * I with the configuration of an existing square matrix.
+ *
+ * @param matrix - The square Matrix instance whose configuration is kept.
+ * @param c - The diagonal value, an encoded fixed-point value for fixed-point matrices.
+ * @returns A new Matrix instance.
+ */
+function scalar_identity(matrix: Matrix, c: Field): Matrix {
+  let n = matrix.shape[0];
+  let values: Field[] = [];
+  for (let i = 0; i < n * n; i++) values.push(i % (n + 1) === 0 ? c : Field(0));
+  if (matrix.fixed_point !== undefined) return derive(matrix, values, matrix.shape, matrix.bound);
+  // Only a constant diagonal gives a static bound.
+  return derive(matrix, values, matrix.shape, c.isConstant() ? abs(to_signed(c)) : undefined);
+}
+
+/**
+ * Creates a quantized Matrix with the given output parameters. Its values are clamped to the
+ * output type, which bounds them.
+ *
+ * @param values - The quantized values.
+ * @param shape - The shape of the matrix.
+ * @param out - The quantization parameters of the values.
+ * @returns A new Matrix instance.
+ */
+function quantized(values: Field[], shape: Shape, out: QuantParams): Matrix {
+  let [lo, hi] = QUANT_RANGES[out.dtype ?? 'uint8'];
+  let result = new Matrix(values, shape, out.zero_point, out.scale);
+  result.bound = abs(lo) > abs(hi) ? abs(lo) : abs(hi);
+  return result;
+}
+
+/**
+ * Splits the values of a matrix into its rows or its columns.
+ *
+ * @param matrix - The Matrix instance.
+ * @param axis - 'row' for the rows, 'col' for the columns.
+ * @returns The values of every row or column.
+ */
+function lines(matrix: Matrix, axis: Axis): Field[][] {
+  let [rows, cols] = matrix.shape;
+  let values = axis === 'row' ? matrix.values : transpose(matrix.values, matrix.shape);
+  let [count, length] = axis === 'row' ? [rows, cols] : [cols, rows];
+  let result: Field[][] = [];
+  for (let i = 0; i < count; i++) result.push(values.slice(i * length, (i + 1) * length));
+  return result;
+}
+
+/**
+ * Joins rows or columns into the row-major values of a matrix, inverting lines.
+ *
+ * @param parts - The values of every row or column.
+ * @param axis - 'row' if the parts are rows, 'col' if they are columns.
+ * @returns The values in row-major order.
+ */
+function from_lines(parts: Field[][], axis: Axis): Field[] {
+  if (axis === 'row') return parts.flat();
+  return transpose(parts.flat(), [parts.length, parts[0].length]);
+}
+
+/**
+ * Returns the shape of a row- or column-wise reduction of a matrix.
+ *
+ * @param matrix - The Matrix instance.
+ * @param axis - 'row' to reduce every row, 'col' to reduce every column.
+ * @returns [rows, 1] or [1, cols].
+ */
+function reduced_shape(matrix: Matrix, axis: Axis): Shape {
+  return axis === 'row' ? [matrix.shape[0], 1] : [1, matrix.shape[1]];
+}
+
+/**
+ * Sums every row or every column of a matrix with default quantization parameters.
+ *
+ * @param matrix - The Matrix instance.
+ * @param axis - 'row' to sum every row, 'col' to sum every column.
+ * @returns A new (rows, 1) or (1, cols) Matrix instance with the sums.
+ */
+function reduce_sum(matrix: Matrix, axis: Axis): Matrix {
+  Provable.assertEqual(Field, matrix.zero_point, Field(0));
+  Provable.assertEqual(Field, matrix.scale, Field(1));
+  let parts = lines(matrix, axis);
+  let values = parts.map((line) => line.reduce((a, b) => a.add(b)));
+  let bound = combine_bounds(matrix.bound, BigInt(parts[0].length), (a, b) => a * b);
+  return derive(matrix, values, reduced_shape(matrix, axis), bound);
+}
+
+/**
+ * Validates a half-open index range [start, end) of a matrix dimension.
+ *
+ * @param start - The first index.
+ * @param end - The index after the last one.
+ * @param size - The size of the dimension.
+ * @param name - 'Row' or 'Column', used in the error message.
+ * @throws Error if the range is empty or out of bounds.
+ */
+function check_range(start: number, end: number, size: number, name: string) {
+  if (!(Number.isInteger(start) && Number.isInteger(end) && 0 <= start && start < end && end <= size)) {
+    throw new Error(`${name} range [${start}, ${end}) is out of bounds for ${size} ${name.toLowerCase()}s`);
+  }
+}
+
+/**
+ * Returns the first of a list of matrices to concatenate.
+ *
+ * @param matrices - The matrices to concatenate.
+ * @returns The first Matrix instance.
+ * @throws Error if the list is empty.
+ */
+function stack_head(matrices: Matrix[]): Matrix {
+  if (matrices.length === 0) {
+    throw new Error('Expected at least one matrix to concatenate');
+  }
+  return matrices[0];
+}
+
+/**
+ * Returns the bit bound of range-checked values, for operations that compare them.
+ *
+ * @param values - The Matrix or Vector instance.
+ * @param operation - The name of the operation, used in the error message.
+ * @returns The number of bits of the largest absolute value.
+ * @throws Error if the values have no bound.
+ */
+export function value_bits(values: { bound?: bigint }, operation: string): number {
+  if (values.bound === undefined) {
+    throw new Error(`${operation} requires range-checked values`);
+  }
+  return bit_length(values.bound);
+}
+
+/**
+ * Returns the fixed-point format of a matrix for activations, whose results lie in [-1, 1].
+ *
+ * @param matrix - The Matrix instance.
+ * @param operation - The name of the operation, used in the error message.
+ * @returns The fixed-point format.
+ * @throws Error if the matrix is not fixed-point or cannot represent 1.
+ */
+function activation_config(matrix: Matrix, operation: string): FixedPointConfig {
+  let config = matrix.fixed_point;
+  if (config === undefined) {
+    throw new Error(`${operation} is only supported for fixed-point or quantized matrices`);
+  }
+  if (config.total_bits < config.frac_bits + 2) {
+    throw new Error(`${operation} needs a fixed-point format that can represent 1`);
+  }
+  return config;
+}
+
+/**
+ * Applies an element-wise activation on fixed-point values, dequantizing and requantizing quantized
+ * matrices around it.
+ *
+ * @param matrix - The Matrix instance.
+ * @param operation - The name of the operation, used in the error message.
+ * @param f - The activation on a fixed-point value x with |x| < 2^bits.
+ * @param out - Optional quantization parameters of the output.
+ * @returns A new Matrix instance with the activations.
+ */
+function activation(
+  matrix: Matrix,
+  operation: string,
+  f: (x: Field, frac_bits: number, bits: number) => Field,
+  out: QuantParams | undefined
+): Matrix {
+  if (out !== undefined) {
+    constr_quantized(matrix, operation);
+    let fixed = dequantize_fixed(matrix.values, matrix);
+    let values = fixed.values.map((x) => f(x, SCALE_BITS, fixed.bits));
+    return quantized(quantize_fixed(values, SCALE_BITS + 1, out), matrix.shape, out);
+  }
+  let config = activation_config(matrix, operation);
+  let values = matrix.values.map((x) => f(x, config.frac_bits, config.total_bits));
+  return derive(matrix, values, matrix.shape, matrix.bound);
+}
+
+/**
+ * Combines the bounds of two operands into the bound of a result, and checks that the result
+ * cannot wrap around the field modulus. The result is unbounded if either operand is.
+ *
+ * @param a - The bound of the first operand.
+ * @param b - The bound of the second operand.
+ * @param combine - Computes the bound of the result from the operand bounds.
+ * @returns The bound of the result.
+ * @throws Error if the result may exceed half the field modulus in absolute value.
+ */
+export function combine_bounds(
+  a: bigint | undefined,
+  b: bigint | undefined,
+  combine: (a: bigint, b: bigint) => bigint
+): bigint | undefined {
+  if (a === undefined || b === undefined) return undefined;
+  let bound = combine(a, b);
+  if (bound >= Field.ORDER / 2n) {
+    throw new Error('Matrix operation may overflow the field modulus');
+  }
+  return bound;
+}
+
+/** Returns the absolute value of a bigint. */
+function abs(x: bigint): bigint {
+  return x < 0n ? -x : x;
+}
+
+/**
+ * Returns the largest bound of a list of matrices, or undefined if any of them is unbounded.
+ *
+ * @param matrices - The Matrix instances.
+ * @returns The largest bound.
+ */
+function max_bound(matrices: Matrix[]): bigint | undefined {
+  if (matrices.some((m) => m.bound === undefined)) return undefined;
+  return matrices.map((m) => m.bound!).reduce(max_bigint);
+}
+
+/** Returns the larger of two bigints. */
+export function max_bigint(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+/**
+ * Validates a bit width and returns the bound on the absolute value of integers of that width.
+ *
+ * @param bits - The bit width, including the sign for signed values.
+ * @param signed - Whether the values are signed.
+ * @returns The largest absolute value representable.
+ * @throws Error if the bit width is unsupported.
+ */
+export function bits_bound(bits: number, signed: boolean): bigint {
+  if (!Number.isInteger(bits) || bits < 1 || bits > 128) {
+    throw new Error(`Unsupported bit width ${bits}`);
+  }
+  return signed ? 1n << BigInt(bits - 1) : (1n << BigInt(bits)) - 1n;
+}
+
+/**
+ * Range-checks matrix values to the given bit width.
+ *
+ * @param values - The values to range-check.
+ * @param bits - The bit width, including the sign for signed values.
+ * @param signed - Whether the values are signed.
+ */
+export function assert_range(values: Field[], bits: number, signed: boolean) {
+  let message = `Matrix value does not fit in ${signed ? 'signed' : 'unsigned'} ${bits} bits`;
+  values.forEach((x) => (signed ? assert_signed_bits(x, bits - 1, message) : assert_bits(x, bits, message)));
+}
@@ -0,0 +1,106 @@
+import { jest } from '@jest/globals';
+import { Matrix } from './matrix_ops';
+import { MatrixMerkleTree, MatrixMerkleWitness } from './merkle';
+
+import { Field, Provable, ZkProgram } from 'o1js';
+
+jest.useFakeTimers();
+
+describe('Matrix Merkle commitments', () => {
+
+    let values: Field[] = [];
+    for (let i = 0; i < 4 * 6; i++) values.push(Field(i * 7 + 1));
+    let matrix = new Matrix(values, [4, 6], Field(3), Field(1));
+
+    it('should open rows, columns and elements', async () => {
+
+        let rows = MatrixMerkleTree.rows(matrix);
+        let row = rows.open_row(2);
+
+        expect(row.tile.values).toEqual(values.slice(12, 18));
+        expect(() => MatrixMerkleTree.assert_row(rows.root, rows.layout, row.tile, row.witness, 2)).not.toThrow();
+
+        let cols = MatrixMerkleTree.cols(matrix);
+        let col = cols.open_col(5);
+
+        expect(col.tile.values).toEqual([values[5], values[11], values[17], values[23]]);
+        expect(() => MatrixMerkleTree.assert_col(cols.root, cols.layout, col.tile, col.witness, 5)).not.toThrow();
+        expect(() => cols.open_row(0)).toThrow('Rows can only be opened from a row commitment');
+
+        let tiles = new MatrixMerkleTree(matrix, [2, 3]);
+        let element = tiles.open_element(3, 4);
+        let value = MatrixMerkleTree.assert_element(tiles.root, tiles.layout, element.tile, element.witness, 3, 4);
+
+        expect(element.index).toEqual(3);
+        expect(value).toEqual(values[3 * 6 + 4]);
+
+    });
+
+    it('should reject tampered openings', async () => {
+
+        let rows = MatrixMerkleTree.rows(matrix);
+        let row = rows.open_row(1);
+
+        let tampered = new Matrix([...row.tile.values], row.tile.shape, row.tile.zero_point, row.tile.scale);
+        tampered.values[0] = tampered.values[0].add(1);
+        expect(() => MatrixMerkleTree.assert_row(rows.root, rows.layout, tampered, row.witness, 1)).toThrow(
+            'Tile does not match the Merkle commitment'
+        );
+
+        expect(() => MatrixMerkleTree.assert_row(rows.root, rows.layout, row.tile, row.witness, 2)).toThrow(
+            'Unexpected row index'
+        );
+
+        let requantized = new Matrix(row.tile.values, row.tile.shape, Field(0), row.tile.scale);
+        expect(() => MatrixMerkleTree.assert_row(rows.root, rows.layout, requantized, row.witness, 1)).toThrow();
+
+        let other_layout = new MatrixMerkleTree(matrix, [2, 6]);
+        expect(other_layout.root).not.toEqual(rows.root);
+        expect(() => new MatrixMerkleTree(matrix, [3, 2])).toThrow('Tile shape 3x2 does not divide the matrix shape 4x6');
+
+    });
+
+    it('should open a row inside a ZkProgram with constant cost', async () => {
+
+        let layout = MatrixMerkleTree.rows(matrix).layout;
+        let Row = Matrix.Typed(1, 6);
+        let RowWitness = MatrixMerkleTree.Witness(layout);
+
+        let program = ZkProgram({
+            name: 'merkle-row',
+            publicInput: Field,
+            publicOutput: Field,
+
+            methods: {
+                row_sum: {
+                    privateInputs: [Row, RowWitness, Field],
+
+                    async method(root: Field, row: Matrix, witness: MatrixMerkleWitness, index: Field) {
+                        MatrixMerkleTree.assert_row(root, layout, row, witness, index);
+                        return { publicOutput: row.values.reduce((a, b) => a.add(b)) };
+                    },
+                },
+            },
+        });
+
+        let tree = MatrixMerkleTree.rows(matrix);
+        let opening = tree.open_row(3);
+        let out = await program.rawMethods.row_sum(tree.root, opening.tile, opening.witness, Field(3));
+
+        expect(out.publicOutput).toEqual(values.slice(18, 24).reduce((a, b) => a.add(b)));
+
+        // The opening hashes one row and a path, independently of the other rows.
+        let cs = await Provable.constraintSystem(() => {
+            let row = Provable.witness(Row, () => opening.tile);
+            let witness = Provable.witness(RowWitness, () => opening.witness);
+            MatrixMerkleTree.assert_row(tree.root, layout, row, witness, 3);
+        });
+        let full = await Provable.constraintSystem(() => {
+            let all = Provable.witness(Matrix.Typed(4, 6), () => matrix);
+            all.hash().assertEquals(matrix.hash());
+        });
+        expect(cs.rows).toBeLessThan(full.rows);
+
+    });
+
+});
@@ -0,0 +1,348 @@
+/*
+ * merkle.ts
+ *
+ * Merkle-tree commitments for matrices too large to hash in a single circuit.
+ *
+ * The matrix is split into tiles of a fixed shape, read in row-major order, and every tile is
+ * hashed with Poseidon into one leaf of an o1js MerkleTree. Tiles of shape [1, cols] commit to
+ * the rows of the matrix, tiles of shape [rows, 1] to its columns, and square tiles suit blocked
+ * algorithms. The published root is
+ *   Poseidon(tree_root, Poseidon(rows, cols, tile_rows, tile_cols, zero_point, scale)),
+ * so it also binds the layout and the quantization parameters.
+ *
+ * A single tile is opened with a MerkleWitness, which costs one hash per tree level instead of
+ * hashing the whole matrix. To open both rows and columns of the same matrix, commit to it once
+ * with each layout: the two roots are independent and a verifier should only accept openings
+ * against the root of the layout it expects.
+ */
+
+import { Field, MerkleTree, MerkleWitness, Poseidon } from 'o1js';
+import { Matrix, Shape } from './matrix_ops.js';
+import { bit_length } from './gadgets.js';
+
+/** A Merkle witness class, as returned by MerkleWitness(height). */
+export type MatrixMerkleWitnessType = ReturnType<typeof MerkleWitness>;
+
+/** A Merkle path to one tile of a committed matrix. */
+export type MatrixMerkleWitness = InstanceType<MatrixMerkleWitnessType>;
+
+/**
+ * The layout of a Merkle commitment.
+ *
+ * - shape: The shape [rows, columns] of the committed matrix.
+ * - tile: The shape [rows, columns] of a tile, which must divide the matrix shape.
+ */
+export interface MerkleLayout {
+  shape: Shape;
+  tile: Shape;
+}
+
+/**
+ * An opened tile of a committed matrix.
+ *
+ * - index: The leaf index of the tile, in row-major order of tiles.
+ * - tile: The tile as a matrix, carrying the zero_point and scale of the committed matrix.
+ * - witness: The Merkle path of the tile's leaf.
+ */
+export interface MatrixOpening {
+  index: number;
+  tile: Matrix;
+  witness: MatrixMerkleWitness;
+}
+
+/** Witness classes by tree height, so that every layout of the same size shares one type. */
+const witness_types = new Map<number, MatrixMerkleWitnessType>();
+
+/**
+ * Merkle commitment over the tiles of a matrix. Built out of circuit from a constant matrix.
+ */
+export class MatrixMerkleTree {
+  matrix: Matrix;
+  layout: MerkleLayout;
+  tree: MerkleTree;
+
+  /**
+   * Builds the Merkle tree over the tiles of a matrix.
+   *
+   * @param matrix - The matrix to commit to.
+   * @param tile - The shape of a tile; defaults to a single row.
+   * @throws Error if the tile shape does not divide the matrix shape.
+   */
+  constructor(matrix: Matrix, tile?: Shape) {
+    let shape = matrix.shape;
+    this.matrix = matrix;
+    this.layout = { shape, tile: tile ?? [1, shape[1]] };
+    check_layout(this.layout);
+
+    this.tree = new MerkleTree(tree_height(this.layout));
+    for (let index = 0; index < leaf_count(this.layout); index++) {
+      this.tree.setLeaf(BigInt(index), Poseidon.hash(tile_values(matrix.values, this.layout, index)));
+    }
+  }
+
+  /**
+   * Commits to the rows of a matrix.
+   *
+   * @param matrix - The matrix to commit to.
+   * @returns The Merkle tree with one leaf per row.
+   */
+  static rows(matrix: Matrix): MatrixMerkleTree {
+    return new MatrixMerkleTree(matrix, [1, matrix.shape[1]]);
+  }
+
+  /**
+   * Commits to the columns of a matrix.
+   *
+   * @param matrix - The matrix to commit to.
+   * @returns The Merkle tree with one leaf per column.
+   */
+  static cols(matrix: Matrix): MatrixMerkleTree {
+    return new MatrixMerkleTree(matrix, [matrix.shape[0], 1]);
+  }
+
+  /**
+   * Returns the provable Merkle witness type for a layout, to be used as a private input.
+   *
+   * @param layout - The layout of the commitment.
+   * @returns A MerkleWitness class of the matching height.
+   */
+  static Witness(layout: MerkleLayout): MatrixMerkleWitnessType {
+    check_layout(layout);
+    let height = tree_height(layout);
+    let type = witness_types.get(height);
+    if (type === undefined) {
+      type = MerkleWitness(height);
+      witness_types.set(height, type);
+    }
+    return type;
+  }
+
+  /**
+   * The committed root, binding the tree root, the layout and the quantization parameters.
+   */
+  get root(): Field {
+    return commitment_root(this.tree.getRoot(), this.layout, this.matrix.zero_point, this.matrix.scale);
+  }
+
+  /**
+   * Opens a tile by its leaf index.
+   *
+   * @param index - The leaf index, in row-major order of tiles.
+   * @returns The tile and its Merkle witness.
+   * @throws Error if the index is out of range.
+   */
+  open(index: number): MatrixOpening {
+    if (!Number.isInteger(index) || index < 0 || index >= leaf_count(this.layout)) {
+      throw new Error(`Tile index ${index} is out of range`);
+    }
+    let Witness = MatrixMerkleTree.Witness(this.layout);
+    let tile = new Matrix(
+      tile_values(this.matrix.values, this.layout, index),
+      this.layout.tile,
+      this.matrix.zero_point,
+      this.matrix.scale
+    );
+    tile.fixed_point = this.matrix.fixed_point;
+    tile.bound = this.matrix.bound;
+    return { index, tile, witness: new Witness(this.tree.getWitness(BigInt(index))) };
+  }
+
+  /**
+   * Opens a row of a matrix committed with MatrixMerkleTree.rows.
+   *
+   * @param row - The row index.
+   * @returns The row as a 1 x cols tile and its Merkle witness.
+   */
+  open_row(row: number): MatrixOpening {
+    if (this.layout.tile[0] !== 1 || this.layout.tile[1] !== this.layout.shape[1]) {
+      throw new Error('Rows can only be opened from a row commitment');
+    }
+    return this.open(row);
+  }
+
+  /**
+   * Opens a column of a matrix committed with MatrixMerkleTree.cols.
+   *
+   * @param col - The column index.
+   * @returns The column as a rows x 1 tile and its Merkle witness.
+   */
+  open_col(col: number): MatrixOpening {
+    if (this.layout.tile[0] !== this.layout.shape[0] || this.layout.tile[1] !== 1) {
+      throw new Error('Columns can only be opened from a column commitment');
+    }
+    return this.open(col);
+  }
+
+  /**
+   * Opens the tile containing an element.
+   *
+   * @param row - The row of the element.
+   * @param col - The column of the element.
+   * @returns The containing tile and its Merkle witness.
+   */
+  open_element(row: number, col: number): MatrixOpening {
+    return this.open(element_position(this.layout, row, col).index);
+  }
+
+  /**
+   * Asserts that a tile belongs to the matrix committed to by a root.
+   *
+   * @param root - The committed root.
+   * @param layout - The layout of the commitment.
+   * @param tile - The opened tile, with the zero_point and scale of the committed matrix.
+   * @param witness - The Merkle witness of the tile.
+   * @returns The leaf index of the tile.
+   */
+  static assert_tile(root: Field, layout: MerkleLayout, tile: Matrix, witness: MatrixMerkleWitness): Field {
+    check_layout(layout);
+    if (tile.values.length !== layout.tile[0] * layout.tile[1]) {
+      throw new Error('Tile does not match the layout');
+    }
+    if (witness.height() !== tree_height(layout)) {
+      throw new Error('Merkle witness does not match the layout');
+    }
+    let tree_root = witness.calculateRoot(Poseidon.hash(tile.values));
+    commitment_root(tree_root, layout, tile.zero_point, tile.scale).assertEquals(
+      root,
+      'Tile does not match the Merkle commitment'
+    );
+    return witness.calculateIndex();
+  }
+
+  /**
+   * Asserts that a row belongs to the matrix committed to by a row commitment.
+   *
+   * @param root - The committed root.
+   * @param layout - The layout of the row commitment.
+   * @param row - The opened row.
+   * @param witness - The Merkle witness of the row.
+   * @param index - The expected row index, which may be a circuit variable.
+   */
+  static assert_row(root: Field, layout: MerkleLayout, row: Matrix, witness: MatrixMerkleWitness, index: Field | number) {
+    if (layout.tile[0] !== 1 || layout.tile[1] !== layout.shape[1]) {
+      throw new Error('Rows can only be opened from a row commitment');
+    }
+    MatrixMerkleTree.assert_tile(root, layout, row, witness).assertEquals(Field(index), 'Unexpected row index');
+  }
+
+  /**
+   * Asserts that a column belongs to the matrix committed to by a column commitment.
+   *
+   * @param root - The committed root.
+   * @param layout - The layout of the column commitment.
+   * @param col - The opened column.
+   * @param witness - The Merkle witness of the column.
+   * @param index - The expected column index, which may be a circuit variable.
+   */
+  static assert_col(root: Field, layout: MerkleLayout, col: Matrix, witness: MatrixMerkleWitness, index: Field | number) {
+    if (layout.tile[0] !== layout.shape[0] || layout.tile[1] !== 1) {
+      throw new Error('Columns can only be opened from a column commitment');
+    }
+    MatrixMerkleTree.assert_tile(root, layout, col, witness).assertEquals(Field(index), 'Unexpected column index');
+  }
+
+  /**
+   * Asserts that a tile belongs to the committed matrix and contains the element at (row, col).
+   *
+   * @param root - The committed root.
+   * @param layout - The layout of the commitment.
+   * @param tile - The opened tile containing the element.
+   * @param witness - The Merkle witness of the tile.
+   * @param row - The row of the element.
+   * @param col - The column of the element.
+   * @returns The value of the element.
+   */
+  static assert_element(
+    root: Field,
+    layout: MerkleLayout,
+    tile: Matrix,
+    witness: MatrixMerkleWitness,
+    row: number,
+    col: number
+  ): Field {
+    let { index, offset } = element_position(layout, row, col);
+    MatrixMerkleTree.assert_tile(root, layout, tile, witness).assertEquals(Field(index), 'Unexpected tile index');
+    return tile.values[offset];
+  }
+}
+
+/**
+ * Validates a layout.
+ *
+ * @param layout - The layout to validate.
+ * @throws Error if the tile shape is not positive or does not divide the matrix shape.
+ */
+function check_layout(layout: MerkleLayout) {
+  let [rows, cols] = layout.shape;
+  let [tile_rows, tile_cols] = layout.tile;
+  if (!(tile_rows > 0 && tile_cols > 0 && rows % tile_rows === 0 && cols % tile_cols === 0)) {
+    throw new Error(`Tile shape ${tile_rows}x${tile_cols} does not divide the matrix shape ${rows}x${cols}`);
+  }
+}
+
+/** Returns the number of tiles of a layout. */
+function leaf_count(layout: MerkleLayout): number {
+  return (layout.shape[0] / layout.tile[0]) * (layout.shape[1] / layout.tile[1]);
+}
+
+/**
+ * Returns the height of the smallest Merkle tree with a leaf for every tile. A single tile still
+ * gets a tree of height 2, because o1js cannot represent witnesses with an empty path.
+ */
+function tree_height(layout: MerkleLayout): number {
+  return Math.max(bit_length(BigInt(leaf_count(layout) - 1)) + 1, 2);
+}
+
+/**
+ * Extracts the values of a tile in row-major order.
+ *
+ * @param values - The values of the matrix.
+ * @param layout - The layout of the commitment.
+ * @param index - The leaf index of the tile.
+ * @returns The values of the tile.
+ */
+function tile_values(values: Field[], layout: MerkleLayout, index: number): Field[] {
+  let cols = layout.shape[1];
+  let [tile_rows, tile_cols] = layout.tile;
+  let tiles_per_row = cols / tile_cols;
+  let [top, left] = [Math.floor(index / tiles_per_row) * tile_rows, (index % tiles_per_row) * tile_cols];
+
+  let result: Field[] = [];
+  for (let i = 0; i < tile_rows; i++) {
+    for (let j = 0; j < tile_cols; j++) result.push(values[(top + i) * cols + left + j]);
+  }
+  return result;
+}
+
+/**
+ * Locates an element in the tiles of a layout.
+ *
+ * @param layout - The layout of the commitment.
+ * @param row - The row of the element.
+ * @param col - The column of the element.
+ * @returns The leaf index of the containing tile and the offset of the element within it.
+ * @throws Error if the element is outside the matrix.
+ */
+function element_position(layout: MerkleLayout, row: number, col: number): { index: number; offset: number } {
+  let [rows, cols] = layout.shape;
+  let [tile_rows, tile_cols] = layout.tile;
+  if (!(row >= 0 && row < rows && col >= 0 && col < cols)) {
+    throw new Error(`Element (${row}, ${col}) is outside the matrix`);
+  }
+  let index = Math.floor(row / tile_rows) * (cols / tile_cols) + Math.floor(col / tile_cols);
+  return { index, offset: (row % tile_rows) * tile_cols + (col % tile_cols) };
+}
+
+/**
+ * Combines a tree root with the layout and quantization parameters into the committed root.
+ *
+ * @param tree_root - The root of the Merkle tree.
+ * @param layout - The layout of the commitment.
+ * @param zero_point - The zero_point of the matrix.
+ * @param scale - The scale of the matrix.
+ * @returns The committed root.
+ */
+export function commitment_root(tree_root: Field, layout: MerkleLayout, zero_point: Field, scale: Field): Field {
+  let header = Poseidon.hash([...layout.shape, ...layout.tile].map((x) => Field(x)).concat([zero_point, scale]));
+  return Poseidon.hash([tree_root, header]);
+}
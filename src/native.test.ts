@@ -0,0 +1,116 @@
+import { jest } from '@jest/globals';
+import { Matrix, Shape } from './matrix_ops';
+import { NativeMatrix } from './native';
+import { field_matrix, fields } from './test_utils';
+
+import { Field, Provable } from 'o1js';
+
+jest.useFakeTimers();
+
+describe('Native matrices', () => {
+
+    function random_matrix(shape: Shape): Matrix {
+        let values = Array.from({ length: shape[0] * shape[1] }, () => Field.random());
+        return new Matrix(values, shape, Field(0), Field(1));
+    }
+
+    function bigints(values: Field[]): bigint[] {
+        return values.map((x) => x.toBigInt());
+    }
+
+    it('should agree with element-wise and structural operations', async () => {
+
+        let a = random_matrix([3, 4]);
+        let b = random_matrix([3, 4]);
+        let s = Field.random();
+        let [na, nb] = [a.to_native(), b.to_native()];
+
+        expect(na.add(nb).values).toEqual(bigints(a.add(b).values));
+        expect(na.sub(nb).values).toEqual(bigints(a.sub(b).values));
+        expect(na.hadamard_product(nb).values).toEqual(bigints(a.hadamard_product(b).values));
+        expect(na.scalar_mul(s.toBigInt()).values).toEqual(bigints(a.scalar_mul(s).values));
+        expect(na.scalar_div(s.toBigInt()).values).toEqual(bigints(a.scalar_div(s).values));
+        expect(na.transpose().values).toEqual(bigints(a.transpose().values));
+        expect(na.transpose().shape).toEqual([4, 3]);
+        expect(na.sum()).toEqual(a.sum().toBigInt());
+
+        let square = random_matrix([4, 4]);
+        expect(square.to_native().trace()).toEqual(square.trace().toBigInt());
+        expect(square.to_native().hash()).toEqual(square.hash().toBigInt());
+        expect(Matrix.from_native(na).values).toEqual(a.values);
+
+    });
+
+    it('should agree with the circuit on products, determinants and inverses', async () => {
+
+        let n = 4;
+        let Square = Matrix.Typed(n, n);
+        let [a, b] = [random_matrix([n, n]), random_matrix([n, n])];
+        let coeffs = [Field(3), Field(-1), Field(2)];
+
+        await Provable.runAndCheck(() => {
+            let x = Provable.witness(Square, () => a);
+            let y = Provable.witness(Square, () => b);
+            let product = x.mul(y);
+            let det = x.determinant();
+            let adj = x.adjoint();
+            let inv = x.inverse();
+            let power = x.pow(5);
+            let poly = x.poly_eval(coeffs);
+            Provable.asProver(() => {
+                let [na, nb] = [x.to_native(), y.to_native()];
+                expect(product.to_native().equals(na.mul(nb))).toBe(true);
+                expect(det.toBigInt()).toEqual(na.determinant());
+                expect(adj.to_native().equals(na.adjoint())).toBe(true);
+                expect(inv.to_native().equals(na.inverse())).toBe(true);
+                expect(power.to_native().equals(na.pow(5))).toBe(true);
+                expect(poly.to_native().equals(na.poly_eval(bigints(coeffs)))).toBe(true);
+            });
+        });
+
+    });
+
+    it('should agree with the constant fast path', async () => {
+
+        // A * adj(A) = det(A) * I holds for singular matrices too.
+        for (let matrix of [random_matrix([5, 5]), field_matrix([1, 2, 3, 2, 4, 6, 0, 1, 5], [3, 3])]) {
+            let native = matrix.to_native();
+            let det = native.determinant();
+            expect(native.mul(native.adjoint()).equals(NativeMatrix.identity(matrix.shape[0]).scalar_mul(det))).toBe(true);
+            expect(matrix.determinant().toBigInt()).toEqual(det);
+            expect(matrix.adjoint().to_native().equals(native.adjoint())).toBe(true);
+        }
+
+        let matrix = random_matrix([6, 6]);
+        expect(matrix.inverse().to_native().equals(matrix.to_native().inverse())).toBe(true);
+        expect(matrix.mul(matrix.inverse()).values).toEqual(Matrix.identity(6).values);
+        expect(field_matrix([2, 3, 1, 4], [2, 2]).adjoint().values).toEqual(field_matrix([4, -3, -1, 2], [2, 2]).values);
+
+        // Empty shapes are valid, as for Matrix.
+        let empty = field_matrix([], [0, 0]);
+        expect(field_matrix([], [3, 0]).mul(field_matrix([], [0, 2])).values).toEqual(fields([0, 0, 0, 0, 0, 0]));
+        expect(empty.determinant()).toEqual(Field(1));
+        expect(empty.inverse().shape).toEqual([0, 0]);
+        expect(new NativeMatrix([], [2, 0]).transpose().shape).toEqual([0, 2]);
+
+    });
+
+    it('should report the same errors as Matrix', async () => {
+
+        let singular = field_matrix([1, 2, 3, 4, 5, 6, 7, 8, 9], [3, 3]);
+        expect(() => singular.to_native().inverse()).toThrow('Matrix is not invertible');
+        expect(() => singular.inverse()).toThrow('Matrix is not invertible');
+
+        let wide = field_matrix([1, 2, 3, 4, 5, 6], [2, 3]).to_native();
+        expect(() => wide.mul(wide)).toThrow('Cannot multiply a 2x3 matrix with a 2x3 matrix');
+        expect(() => wide.add(wide.transpose())).toThrow('Matrix shapes 2x3 and 3x2 do not match');
+        expect(() => wide.determinant()).toThrow('determinant requires a square matrix, got 2x3');
+        expect(() => wide.scalar_div(0n)).toThrow('Division by zero');
+        expect(() => new NativeMatrix([1n, 2n], [2, 2])).toThrow('Values length does not match the shape');
+
+        let quantized = new Matrix([Field(1)], [1, 1], Field(3), Field(1));
+        expect(() => quantized.to_native()).toThrow('to_native requires default quantization parameters');
+
+    });
+
+});
@@ -0,0 +1,441 @@
+/*
+ * native.ts
+ *
+ * Out-of-circuit matrices of bigints modulo the field order.
+ *
+ * A NativeMatrix mirrors the field-mode arithmetic of Matrix (zero_point 0 and scale 1) on plain
+ * bigints, without creating o1js Field objects: element-wise and matrix products, scalar
+ * operations, transposes, sums and traces, LU decompositions, determinants, adjugates, inverses,
+ * powers, polynomials and hashes. It is not a full mirror of Matrix: solving, slicing, stacking,
+ * reshaping, reductions along an axis and fixed-point or quantized arithmetic have no native
+ * counterpart, and are applied to constant matrices through Matrix.from_native instead. It is used
+ * wherever values are only computed and not constrained:
+ * - to compute the witnesses of inverses, solutions, LU decompositions and Freivalds products,
+ * - as a fast path of Matrix operations on constant matrices, whose results are constants anyway,
+ * - in prover code, via Matrix.to_native inside Provable.asProver or on constant matrices, to check
+ *   results before paying for a proof.
+ *
+ * Values are kept reduced to [0, p). Errors use the same messages as the corresponding Matrix
+ * operations.
+ */
+
+import { Field, Poseidon } from 'o1js';
+import type { Shape } from './matrix_ops.js';
+
+/**
+ * Matrix of bigints modulo the field order, for out-of-circuit computations.
+ */
+export class NativeMatrix {
+  values: bigint[];
+  shape: Shape;
+
+  /**
+   * Constructs a new NativeMatrix instance, reducing the values modulo the field order.
+   *
+   * @param values - The entries in row-major order, as arbitrary integers.
+   * @param shape - The shape of the matrix as a tuple [rows, columns].
+   * @throws Error if the shape is invalid or the number of values does not match it.
+   */
+  constructor(values: bigint[], shape: Shape) {
+    let [rows, cols] = shape;
+    if (!(Number.isInteger(rows) && Number.isInteger(cols) && rows >= 0 && cols >= 0)) {
+      throw new Error(`Invalid matrix shape ${format_shape(shape)}`);
+    }
+    if (values.length !== rows * cols) {
+      throw new Error('Values length does not match the shape');
+    }
+    this.values = values.map(mod);
+    this.shape = shape;
+  }
+
+  /**
+   * Reads the values of Field elements. Only usable on constants or inside prover code.
+   *
+   * @param values - The Field elements in row-major order.
+   * @param shape - The shape of the matrix.
+   * @returns A new NativeMatrix instance.
+   */
+  static from_fields(values: Field[], shape: Shape): NativeMatrix {
+    return new NativeMatrix(values.map((x) => x.toBigInt()), shape);
+  }
+
+  /**
+   * Creates an n x n identity matrix.
+   *
+   * @param n - The number of rows and columns.
+   * @returns A new NativeMatrix instance.
+   */
+  static identity(n: number): NativeMatrix {
+    return new NativeMatrix(Array.from({ length: n * n }, (_, k) => (k % (n + 1) === 0 ? 1n : 0n)), [n, n]);
+  }
+
+  /**
+   * Returns the values as constant Field elements.
+   *
+   * @returns The Field elements in row-major order.
+   */
+  to_fields(): Field[] {
+    return this.values.map((x) => Field(x));
+  }
+
+  /**
+   * Adds another matrix element-wise.
+   *
+   * @param other - The matrix to add.
+   * @returns A new NativeMatrix instance.
+   */
+  add(other: NativeMatrix): NativeMatrix {
+    check_same_shape(this, other);
+    return new NativeMatrix(this.values.map((x, i) => x + other.values[i]), this.shape);
+  }
+
+  /**
+   * Subtracts another matrix element-wise.
+   *
+   * @param other - The matrix to subtract.
+   * @returns A new NativeMatrix instance.
+   */
+  sub(other: NativeMatrix): NativeMatrix {
+    check_same_shape(this, other);
+    return new NativeMatrix(this.values.map((x, i) => x - other.values[i]), this.shape);
+  }
+
+  /**
+   * Multiplies with another matrix element-wise.
+   *
+   * @param other - The matrix to multiply element-wise.
+   * @returns A new NativeMatrix instance.
+   */
+  hadamard_product(other: NativeMatrix): NativeMatrix {
+    check_same_shape(this, other);
+    return new NativeMatrix(this.values.map((x, i) => x * other.values[i]), this.shape);
+  }
+
+  /**
+   * Performs matrix multiplication. Every entry is reduced once after summing its products.
+   *
+   * @param other - The matrix to multiply with.
+   * @returns A new NativeMatrix instance.
+   * @throws Error if the inner dimensions do not match.
+   */
+  mul(other: NativeMatrix): NativeMatrix {
+    let [rows, inner] = this.shape;
+    if (other.shape[0] !== inner) {
+      throw new Error(`Cannot multiply a ${format_shape(this.shape)} matrix with a ${format_shape(other.shape)} matrix`);
+    }
+    let cols = other.shape[1];
+    let values: bigint[] = [];
+    for (let i = 0; i < rows; i++) {
+      for (let j = 0; j < cols; j++) {
+        let element = 0n;
+        for (let k = 0; k < inner; k++) element += this.values[i * inner + k] * other.values[k * cols + j];
+        values.push(element);
+      }
+    }
+    return new NativeMatrix(values, [rows, cols]);
+  }
+
+  /**
+   * Multiplies every element by a scalar.
+   *
+   * @param scalar - The scalar.
+   * @returns A new NativeMatrix instance.
+   */
+  scalar_mul(scalar: bigint): NativeMatrix {
+    return new NativeMatrix(this.values.map((x) => x * scalar), this.shape);
+  }
+
+  /**
+   * Divides every element by a scalar, using the field inverse.
+   *
+   * @param scalar - The scalar.
+   * @returns A new NativeMatrix instance.
+   * @throws Error if the scalar is zero.
+   */
+  scalar_div(scalar: bigint): NativeMatrix {
+    if (mod(scalar) === 0n) {
+      throw new Error('Division by zero');
+    }
+    return this.scalar_mul(inv(scalar));
+  }
+
+  /**
+   * Returns the transpose.
+   *
+   * @returns A new NativeMatrix instance.
+   */
+  transpose(): NativeMatrix {
+    let [rows, cols] = this.shape;
+    let values: bigint[] = [];
+    for (let j = 0; j < cols; j++) {
+      for (let i = 0; i < rows; i++) values.push(this.values[i * cols + j]);
+    }
+    return new NativeMatrix(values, [cols, rows]);
+  }
+
+  /**
+   * Sums all entries.
+   *
+   * @returns The sum, reduced modulo the field order.
+   */
+  sum(): bigint {
+    return mod(this.values.reduce((a, b) => a + b, 0n));
+  }
+
+  /**
+   * Computes the trace of a square matrix.
+   *
+   * @returns The sum of the diagonal entries.
+   */
+  trace(): bigint {
+    let n = check_square(this.shape, 'trace');
+    let trace = 0n;
+    for (let i = 0; i < n; i++) trace += this.values[i * n + i];
+    return mod(trace);
+  }
+
+  /**
+   * Computes P * A = L * U by Gaussian elimination with partial pivoting. Columns without a
+   * non-zero pivot are skipped, leaving a zero on the diagonal of U, so the decomposition exists
+   * for every square matrix.
+   *
+   * @returns The permutation as the source row of every row, the unit lower triangular L and the
+   *   upper triangular U.
+   */
+  plu(): { perm: number[]; l: NativeMatrix; u: NativeMatrix } {
+    let n = check_square(this.shape, 'lu');
+    let u = [...this.values];
+    let l: bigint[] = new Array(n * n).fill(0n);
+    let perm = Array.from({ length: n }, (_, i) => i);
+
+    for (let k = 0; k < n; k++) {
+      let pivot = k;
+      while (pivot < n && u[pivot * n + k] === 0n) pivot++;
+      if (pivot === n) continue;
+
+      if (pivot !== k) {
+        [perm[k], perm[pivot]] = [perm[pivot], perm[k]];
+        for (let j = 0; j < n; j++) {
+          [u[k * n + j], u[pivot * n + j]] = [u[pivot * n + j], u[k * n + j]];
+          if (j < k) [l[k * n + j], l[pivot * n + j]] = [l[pivot * n + j], l[k * n + j]];
+        }
+      }
+
+      let pivot_inv = inv(u[k * n + k]);
+      for (let i = k + 1; i < n; i++) {
+        let factor = mod(u[i * n + k] * pivot_inv);
+        l[i * n + k] = factor;
+        for (let j = k; j < n; j++) {
+          u[i * n + j] = mod(u[i * n + j] - factor * u[k * n + j]);
+        }
+      }
+    }
+
+    for (let i = 0; i < n; i++) l[i * n + i] = 1n;
+    return { perm, l: new NativeMatrix(l, [n, n]), u: new NativeMatrix(u, [n, n]) };
+  }
+
+  /**
+   * Computes the determinant from the LU decomposition, det(A) = sign(P) * prod(U[i][i]).
+   *
+   * @returns The determinant, reduced modulo the field order.
+   */
+  determinant(): bigint {
+    let n = check_square(this.shape, 'determinant');
+    let { perm, u } = this.plu();
+    let det = permutation_sign(perm);
+    for (let i = 0; i < n; i++) det = mod(det * u.values[i * n + i]);
+    return det;
+  }
+
+  /**
+   * Computes the adjugate, the transpose of the matrix of cofactors.
+   *
+   * @returns A new NativeMatrix instance.
+   */
+  adjoint(): NativeMatrix {
+    let n = check_square(this.shape, 'adjoint');
+    if (n === 1) return new NativeMatrix([1n], [1, 1]);
+    let cofactors: bigint[] = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        let minor = this.values.filter((_, k) => Math.floor(k / n) !== i && k % n !== j);
+        let det = new NativeMatrix(minor, [n - 1, n - 1]).determinant();
+        cofactors.push((i + j) % 2 === 0 ? det : -det);
+      }
+    }
+    return new NativeMatrix(cofactors, [n, n]).transpose();
+  }
+
+  /**
+   * Computes the inverse by Gauss-Jordan elimination.
+   *
+   * @returns A new NativeMatrix instance.
+   * @throws Error if the matrix is not invertible.
+   */
+  inverse(): NativeMatrix {
+    let n = check_square(this.shape, 'inverse');
+    let m = [...this.values];
+    let result = [...NativeMatrix.identity(n).values];
+
+    for (let k = 0; k < n; k++) {
+      let pivot = k;
+      while (pivot < n && m[pivot * n + k] === 0n) pivot++;
+      if (pivot === n) throw new Error('Matrix is not invertible');
+
+      for (let j = 0; j < n; j++) {
+        [m[k * n + j], m[pivot * n + j]] = [m[pivot * n + j], m[k * n + j]];
+        [result[k * n + j], result[pivot * n + j]] = [result[pivot * n + j], result[k * n + j]];
+      }
+
+      let pivot_inv = inv(m[k * n + k]);
+      for (let j = 0; j < n; j++) {
+        m[k * n + j] = mod(m[k * n + j] * pivot_inv);
+        result[k * n + j] = mod(result[k * n + j] * pivot_inv);
+      }
+
+      for (let i = 0; i < n; i++) {
+        if (i === k || m[i * n + k] === 0n) continue;
+        let factor = m[i * n + k];
+        for (let j = 0; j < n; j++) {
+          m[i * n + j] = mod(m[i * n + j] - factor * m[k * n + j]);
+          result[i * n + j] = mod(result[i * n + j] - factor * result[k * n + j]);
+        }
+      }
+    }
+    return new NativeMatrix(result, [n, n]);
+  }
+
+  /**
+   * Raises a square matrix to a constant power by square-and-multiply.
+   *
+   * @param k - The exponent, a non-negative integer.
+   * @returns A new NativeMatrix instance with A^k.
+   */
+  pow(k: number): NativeMatrix {
+    let n = check_square(this.shape, 'pow');
+    if (!Number.isInteger(k) || k < 0) {
+      throw new Error(`Exponent must be a non-negative integer, got ${k}`);
+    }
+    let result = NativeMatrix.identity(n);
+    let base: NativeMatrix = this;
+    for (; k > 0; k = Math.floor(k / 2)) {
+      if (k % 2 === 1) result = result.mul(base);
+      if (k > 1) base = base.mul(base);
+    }
+    return result;
+  }
+
+  /**
+   * Evaluates a polynomial c_0 * I + c_1 * A + ... + c_d * A^d with Horner's method.
+   *
+   * @param coeffs - The coefficients [c_0, c_1, ..., c_d], starting with the constant term.
+   * @returns A new NativeMatrix instance.
+   */
+  poly_eval(coeffs: bigint[]): NativeMatrix {
+    let n = check_square(this.shape, 'poly_eval');
+    if (coeffs.length === 0) {
+      throw new Error('Expected at least one coefficient');
+    }
+    let identity = NativeMatrix.identity(n);
+    let result = identity.scalar_mul(coeffs[coeffs.length - 1]);
+    for (let i = coeffs.length - 2; i >= 0; i--) {
+      result = result.mul(this).add(identity.scalar_mul(coeffs[i]));
+    }
+    return result;
+  }
+
+  /**
+   * Computes the Poseidon hash of a field-mode matrix, equal to Matrix.hash of the same values.
+   *
+   * @returns The hash.
+   */
+  hash(): bigint {
+    let fields = [...this.shape.map((n) => Field(n)), Field(0), Field(1), ...this.to_fields()];
+    return Poseidon.hash(fields).toBigInt();
+  }
+
+  /**
+   * Checks whether two matrices have the same shape and values.
+   *
+   * @param other - The matrix to compare with.
+   * @returns True if the matrices are equal.
+   */
+  equals(other: NativeMatrix): boolean {
+    return (
+      this.shape[0] === other.shape[0] &&
+      this.shape[1] === other.shape[1] &&
+      this.values.every((x, i) => x === other.values[i])
+    );
+  }
+}
+
+/** Reduces an integer modulo the field order. */
+function mod(x: bigint): bigint {
+  let r = x % Field.ORDER;
+  return r < 0n ? r + Field.ORDER : r;
+}
+
+/**
+ * Inverts a non-zero field element with the extended Euclidean algorithm.
+ *
+ * @param x - The element to invert.
+ * @returns The inverse in [0, p).
+ */
+function inv(x: bigint): bigint {
+  let [a, b] = [mod(x), Field.ORDER];
+  let [s, t] = [1n, 0n];
+  while (b !== 0n) {
+    let q = a / b;
+    [a, b] = [b, a - q * b];
+    [s, t] = [t, s - q * t];
+  }
+  return mod(s);
+}
+
+/**
+ * Computes the sign of a permutation by counting inversions.
+ *
+ * @param perm - The permutation as a list of indices.
+ * @returns 1 for even and p - 1 for odd permutations.
+ */
+function permutation_sign(perm: number[]): bigint {
+  let inversions = 0;
+  for (let i = 0; i < perm.length; i++) {
+    for (let j = i + 1; j < perm.length; j++) if (perm[j] < perm[i]) inversions++;
+  }
+  return inversions % 2 === 0 ? 1n : Field.ORDER - 1n;
+}
+
+/**
+ * Checks that two matrices have the same shape.
+ *
+ * @param a - The first matrix.
+ * @param b - The second matrix.
+ * @throws Error if the shapes differ.
+ */
+function check_same_shape(a: NativeMatrix, b: NativeMatrix) {
+  if (a.shape[0] !== b.shape[0] || a.shape[1] !== b.shape[1]) {
+    throw new Error(`Matrix shapes ${format_shape(a.shape)} and ${format_shape(b.shape)} do not match`);
+  }
+}
+
+/**
+ * Checks that a shape is square.
+ *
+ * @param shape - The shape of the matrix.
+ * @param operation - The name of the operation, used in the error message.
+ * @returns The number of rows and columns.
+ * @throws Error if the shape is not square.
+ */
+function check_square(shape: Shape, operation: string): number {
+  if (shape[0] !== shape[1]) {
+    throw new Error(`${operation} requires a square matrix, got ${format_shape(shape)}`);
+  }
+  return shape[0];
+}
+
+/** Formats a shape as rows x columns for error messages. */
+function format_shape(shape: Shape): string {
+  return `${shape[0]}x${shape[1]}`;
+}
@@ -0,0 +1,165 @@
+/*
+ * nn.ts
+ *
+ * Provable neural network activations on bounded signed values.
+ *
+ * Non-linear functions are evaluated on fixed-point values (see fixed_point.ts) with frac_bits
+ * fractional bits, using approximations whose coefficients are powers of two so that every
+ * multiplication is an exact shift with provable rounding:
+ *
+ * - sigmoid: the piecewise-linear PLAN approximation (Amin, Curtis and Hayes-Gill, 1997), with a
+ *   maximum absolute error below 0.019.
+ * - tanh: tanh(x) = 2 * sigmoid(2x) - 1.
+ * - exp on x <= 0: (1 + x / 8)^8, which is 0 for x <= -8. Used by softmax after subtracting the
+ *   row maximum, so that every input is non-positive and the largest term is exactly 1.
+ */
+
+import { Field, Provable, Bool } from 'o1js';
+import { assert_bits, less_than_signed, round_shift, to_signed } from './gadgets.js';
+import { row_argmax } from './order.js';
+
+/** Minimum number of fractional bits, so that all PLAN coefficients are exact. */
+const MIN_FRAC_BITS = 5;
+
+/**
+ * Computes max(x, floor) element-wise. With floor set to the zero point this is the ReLU of
+ * quantized values, and with floor = 0 the ReLU of plain or fixed-point values.
+ *
+ * @param values - The values, with |x| < 2^bits.
+ * @param floor - The lower bound, with |floor| < 2^bits.
+ * @param bits - The bit bound on the values and the floor.
+ * @returns The rectified values.
+ */
+export function relu(values: Field[], floor: Field, bits: number): Field[] {
+  return values.map((x) => Provable.if(less_than_signed(x, floor, bits), floor, x));
+}
+
+/**
+ * Approximates the logistic sigmoid of a fixed-point value.
+ *
+ * @param x - The fixed-point value, with |x| < 2^bits.
+ * @param frac_bits - The number of fractional bits of x and of the result.
+ * @param bits - The bit bound on |x|.
+ * @returns sigmoid(x) in the same fixed-point format, in [0, 1].
+ * @throws Error if frac_bits is too small to represent the coefficients.
+ */
+export function sigmoid(x: Field, frac_bits: number, bits: number): Field {
+  check_frac_bits(frac_bits);
+  let one = 1n << BigInt(frac_bits);
+  let bits_ = Math.max(bits, frac_bits + 4);
+
+  let { negative, magnitude } = split_sign(x, bits_);
+  let segment = (shift: number, offset: bigint) => round_shift(magnitude, shift, bits_).add(Field(offset));
+  let y = Provable.if(
+    less_than_signed(magnitude, Field(one), bits_),
+    segment(2, one >> 1n),
+    Provable.if(
+      less_than_signed(magnitude, Field((19n * one) >> 3n), bits_),
+      segment(3, (5n * one) >> 3n),
+      Provable.if(less_than_signed(magnitude, Field(5n * one), bits_), segment(5, (27n * one) >> 5n), Field(one))
+    )
+  );
+  return Provable.if(negative, Field(one).sub(y), y);
+}
+
+/**
+ * Approximates the hyperbolic tangent of a fixed-point value as 2 * sigmoid(2x) - 1.
+ *
+ * @param x - The fixed-point value, with |x| < 2^bits.
+ * @param frac_bits - The number of fractional bits of x and of the result.
+ * @param bits - The bit bound on |x|.
+ * @returns tanh(x) in the same fixed-point format, in [-1, 1].
+ */
+export function tanh(x: Field, frac_bits: number, bits: number): Field {
+  let y = sigmoid(x.mul(2), frac_bits, bits + 1);
+  return y.mul(2).sub(Field(1n << BigInt(frac_bits)));
+}
+
+/**
+ * Approximates exp(x) for a non-positive fixed-point value as (1 + x / 8)^8.
+ *
+ * @param x - The fixed-point value, with -2^bits < x <= 0.
+ * @param frac_bits - The number of fractional bits of x and of the result.
+ * @param bits - The bit bound on |x|.
+ * @returns exp(x) in the same fixed-point format, in [0, 1].
+ */
+export function exp_non_positive(x: Field, frac_bits: number, bits: number): Field {
+  check_frac_bits(frac_bits);
+  let one = 1n << BigInt(frac_bits);
+  let bits_ = Math.max(bits, frac_bits + 4);
+
+  let base = Field(one).add(round_shift(x, 3, bits_));
+  base = Provable.if(less_than_signed(x, Field(-8n * one), bits_), Field(0), base);
+  for (let i = 0; i < 3; i++) {
+    base = round_shift(base.mul(base), frac_bits, 2 * frac_bits + 2);
+  }
+  return base;
+}
+
+/**
+ * Approximates the softmax of every row of a fixed-point matrix.
+ *
+ * The row maximum is subtracted first, then exp_non_positive is applied and every entry is divided
+ * by the row sum with rounding. The division witnesses quotient and remainder and range-checks them
+ * against the sum, which is at least 1 because the maximum contributes exactly 1.
+ *
+ * @param values - The fixed-point values in row-major order, with |x| < 2^bits.
+ * @param shape - The shape [rows, columns].
+ * @param frac_bits - The number of fractional bits of the values and of the result.
+ * @param bits - The bit bound on the values.
+ * @returns The probabilities in the same fixed-point format.
+ */
+export function softmax(values: Field[], shape: [number, number], frac_bits: number, bits: number): Field[] {
+  let [rows, cols] = shape;
+  let sum_bits = frac_bits + Math.ceil(Math.log2(cols)) + 1;
+
+  let result: Field[] = [];
+  for (let i = 0; i < rows; i++) {
+    let row = values.slice(i * cols, (i + 1) * cols);
+    let { max } = row_argmax(row, bits);
+    let exps = row.map((x) => exp_non_positive(x.sub(max), frac_bits, bits + 1));
+    let sum = exps.reduce((a, b) => a.add(b));
+
+    // 2 * e * 2^frac_bits + sum = 2 * sum * q + r with 0 <= r < 2 * sum rounds e / sum.
+    let twice_sum = sum.mul(2);
+    for (let e of exps) {
+      let numerator = e.mul(Field(1n << BigInt(frac_bits + 1))).add(sum);
+      let [q, r] = Provable.witness(Provable.Array(Field, 2), () => {
+        let [n, d] = [numerator.toBigInt(), twice_sum.toBigInt()];
+        return [Field(n / d), Field(n % d)];
+      });
+      assert_bits(q, frac_bits + 1);
+      assert_bits(r, sum_bits + 1);
+      assert_bits(twice_sum.sub(Field(1)).sub(r), sum_bits + 1);
+      q.mul(twice_sum).add(r).assertEquals(numerator);
+      result.push(q);
+    }
+  }
+  return result;
+}
+
+/**
+ * Splits a signed value into its sign and magnitude.
+ *
+ * @param x - The value, with |x| < 2^bits.
+ * @param bits - The bit bound on |x|.
+ * @returns Whether x is negative, and |x|.
+ */
+function split_sign(x: Field, bits: number): { negative: Bool; magnitude: Field } {
+  let negative = Provable.witness(Bool, () => new Bool(to_signed(x) < 0n));
+  let magnitude = Provable.if(negative, x.neg(), x);
+  assert_bits(magnitude, bits);
+  return { negative, magnitude };
+}
+
+/**
+ * Validates the number of fractional bits used by the approximations.
+ *
+ * @param frac_bits - The number of fractional bits.
+ * @throws Error if there are too few fractional bits.
+ */
+function check_frac_bits(frac_bits: number) {
+  if (frac_bits < MIN_FRAC_BITS) {
+    throw new Error(`Activations need at least ${MIN_FRAC_BITS} fractional bits, got ${frac_bits}`);
+  }
+}
@@ -0,0 +1,130 @@
+/*
+ * order.ts
+ *
+ * Provable comparisons and orderings of bounded signed values.
+ *
+ * Field elements have no order, so every helper takes a bit bound and compares the values as
+ * signed integers with less_than_signed (see gadgets.ts). Results that are expensive to compute in
+ * a circuit are witnessed and verified instead:
+ *
+ * - The maximum of a row is witnessed as a one-hot selection and checked against every entry,
+ *   which costs one comparison per entry.
+ * - A sorted row is witnessed together with the permutation matrix that produces it. The circuit
+ *   checks that the matrix is a permutation, applies it, and checks that neighbouring entries are
+ *   ordered, which costs n^2 multiplications and n - 1 comparisons for a row of n entries.
+ */
+
+import { Field, Provable, Bool } from 'o1js';
+import { assert_signed_bits, bit_length, less_than_signed, to_signed } from './gadgets.js';
+import { assert_permutation } from './decomposition.js';
+
+/**
+ * Finds the maximum of a row and the index of its first occurrence.
+ *
+ * The index is witnessed as a one-hot vector. With seen_j = 1 for j >= index and 0 before, every
+ * entry is checked to satisfy x_j < max + seen_j, i.e. entries before the index are strictly
+ * smaller than the maximum and all others are at most the maximum.
+ *
+ * @param row - The values of the row, with |x| < 2^bits.
+ * @param bits - The bit bound on the values.
+ * @returns The index and the value of the maximum.
+ */
+export function row_argmax(row: Field[], bits: number): { index: Field; max: Field } {
+  let selection = Provable.witness(Provable.Array(Bool, row.length), () => {
+    let native = row.map((x) => to_signed(x));
+    let best = native.indexOf(native.reduce((a, b) => (b > a ? b : a)));
+    return native.map((_, j) => new Bool(j === best));
+  });
+
+  let index = Field(0);
+  let max = Field(0);
+  let seen = Field(0);
+  selection.forEach((selected, j) => {
+    index = index.add(Provable.if(selected, Field(j), Field(0)));
+    max = max.add(Provable.if(selected, row[j], Field(0)));
+    seen = seen.add(selected.toField());
+  });
+  seen.assertEquals(Field(1), 'Expected exactly one maximum');
+
+  seen = Field(0);
+  for (let j = 0; j < row.length; j++) {
+    seen = seen.add(selection[j].toField());
+    less_than_signed(row[j], max.add(seen), bits + 1).assertTrue('Row maximum is not the largest entry');
+  }
+  return { index, max };
+}
+
+/**
+ * Clamps values to the interval [lo, hi]. Bounds that are circuit variables are range-checked, and
+ * lo <= hi is asserted.
+ *
+ * @param values - The values, with |x| < 2^bits.
+ * @param lo - The lower bound.
+ * @param hi - The upper bound.
+ * @param bits - The bit bound on the values.
+ * @returns The clamped values, and the bit bound used for the comparisons, widened to fit constant
+ *   bounds. Variable bounds are range-checked to it.
+ */
+export function clamp(values: Field[], lo: Field, hi: Field, bits: number): { values: Field[]; bits: number } {
+  for (let bound of [lo, hi]) {
+    if (bound.isConstant()) bits = Math.max(bits, bit_length(to_signed(bound)));
+  }
+  for (let bound of [lo, hi]) {
+    if (!bound.isConstant()) assert_signed_bits(bound, bits, 'Clamp bound is out of range');
+  }
+  less_than_signed(hi, lo, bits + 1).assertFalse('Clamp bounds are not ordered');
+
+  let clamped = values.map((x) => {
+    x = Provable.if(less_than_signed(x, lo, bits + 1), lo, x);
+    return Provable.if(less_than_signed(hi, x, bits + 1), hi, x);
+  });
+  return { values: clamped, bits };
+}
+
+/**
+ * Sorts a row, keeping equal entries in their original order.
+ *
+ * The permutation matrix P is witnessed, checked with assert_permutation and applied as y = P * x,
+ * and the original indices are P * (0, 1, ..., n - 1). Ordering is checked on the keys
+ * y_j * n + index_j (or -y_j * n + index_j when descending), which must be strictly increasing:
+ * this orders the values and breaks ties by index, so the result is unique.
+ *
+ * @param row - The values of the row, with |x| < 2^bits.
+ * @param bits - The bit bound on the values.
+ * @param descending - Whether to sort from largest to smallest.
+ * @returns The sorted values and the original index of each of them.
+ */
+export function sort_row(row: Field[], bits: number, descending: boolean): { values: Field[]; indices: Field[] } {
+  let n = row.length;
+  let p = Provable.witness(Provable.Array(Field, n * n), () => {
+    let native = row.map((x, i) => ({ value: to_signed(x), index: i }));
+    native.sort((a, b) => {
+      let order = descending ? b.value - a.value : a.value - b.value;
+      return order !== 0n ? (order < 0n ? -1 : 1) : a.index - b.index;
+    });
+    let matrix = new Array(n * n).fill(Field(0));
+    native.forEach(({ index }, j) => (matrix[j * n + index] = Field(1)));
+    return matrix;
+  });
+  assert_permutation(p, n);
+
+  let values: Field[] = [];
+  let indices: Field[] = [];
+  for (let j = 0; j < n; j++) {
+    let value = Field(0);
+    let index = Field(0);
+    for (let i = 0; i < n; i++) {
+      value = value.add(p[j * n + i].mul(row[i]));
+      index = index.add(p[j * n + i].mul(i));
+    }
+    values.push(value);
+    indices.push(index);
+  }
+
+  let key_bits = bits + bit_length(BigInt(n)) + 1;
+  let keys = values.map((x, j) => (descending ? x.neg() : x).mul(n).add(indices[j]));
+  for (let j = 0; j + 1 < n; j++) {
+    less_than_signed(keys[j], keys[j + 1], key_bits).assertTrue('Row is not sorted');
+  }
+  return { values, indices };
+}
@@ -0,0 +1,301 @@
+/*
+ * quantization.ts
+ *
+ * Affine (asymmetric) 8-bit quantization for Matrix values.
+ *
+ * A quantized value q with zero point z and scale s represents the real number s * (q - z).
+ * Arithmetic between quantized matrices with different parameters is carried out on the integer
+ * differences (q - z) and brought back to the caller-chosen output parameters with the standard
+ * integer requantization: the real multiplier is approximated by an integer multiplier and a
+ * right shift, and the shift is performed with provable rounding (see round_shift in gadgets.ts).
+ *
+ * Scales are real numbers, so they are stored in Field elements as fixed-point values with
+ * SCALE_BITS fractional bits (see encode_scale). They must be constants, because the multiplier
+ * and shift they induce determine the shape of the circuit. Zero points may be circuit variables.
+ */
+
+import { Field } from 'o1js';
+import { assert_signed_bits, bit_length, clamp_signed, round_shift } from './gadgets.js';
+
+/** Number of fractional bits used to encode a real scale in a Field element. */
+export const SCALE_BITS = 32;
+
+/** Bit width of quantized values. */
+export const QUANT_BITS = 8;
+
+/** Number of bits of the requantization multiplier. */
+const MULTIPLIER_BITS = 31;
+
+/** Bit bound on a quantized value minus its zero point. */
+const DIFF_BITS = QUANT_BITS + 1;
+
+/** Bit width of quantized biases, which are signed integers. */
+export const BIAS_BITS = 32;
+
+/** Supported quantized value types. */
+export type QuantDtype = 'int8' | 'uint8';
+
+/** Representable interval [min, max] of each quantized value type. */
+export const QUANT_RANGES: Record<QuantDtype, [bigint, bigint]> = {
+  int8: [-128n, 127n],
+  uint8: [0n, 255n],
+};
+
+/**
+ * Quantization parameters of a matrix operand or of an operation's output.
+ *
+ * - zero_point: The quantized value representing real zero.
+ * - scale: The real scale, encoded with encode_scale.
+ * - dtype: The value type results are clamped to; defaults to 'uint8'.
+ */
+export interface QuantParams {
+  zero_point: Field;
+  scale: Field;
+  dtype?: QuantDtype;
+}
+
+/**
+ * Encodes a positive real scale as a fixed-point Field element.
+ *
+ * @param scale - The real scale.
+ * @returns The scale as a Field element with SCALE_BITS fractional bits.
+ * @throws Error if the scale is not positive or too small to be represented.
+ */
+export function encode_scale(scale: number): Field {
+  let encoded = BigInt(Math.round(scale * 2 ** SCALE_BITS));
+  if (!(scale > 0) || encoded === 0n) {
+    throw new Error(`Cannot encode quantization scale ${scale}`);
+  }
+  return Field(encoded);
+}
+
+/**
+ * Decodes a fixed-point scale produced by encode_scale.
+ *
+ * @param scale - The encoded scale; must be a constant.
+ * @returns The real scale.
+ */
+export function decode_scale(scale: Field): number {
+  return Number(constant_scale(scale)) / 2 ** SCALE_BITS;
+}
+
+/**
+ * Approximates the ratio num / den by multiplier / 2^shift, with the multiplier normalized to
+ * MULTIPLIER_BITS bits.
+ *
+ * @param num - The numerator of the real multiplier.
+ * @param den - The denominator of the real multiplier.
+ * @returns The integer multiplier and the right shift to apply after multiplying.
+ * @throws Error if the ratio is too large to be represented with a non-negative shift.
+ */
+export function quantize_multiplier(num: bigint, den: bigint): { multiplier: bigint; shift: number } {
+  let low = 1n << BigInt(MULTIPLIER_BITS - 1);
+  let shift = 0;
+  while ((num << BigInt(shift)) < den * low) shift += 1;
+  if ((num << BigInt(shift)) >= den * (low << 1n)) {
+    throw new Error('Requantization multiplier is too large');
+  }
+  return { multiplier: round_div(num << BigInt(shift), den), shift };
+}
+
+/**
+ * Requantizes elementwise sums: out = z3 + (s1 / s3) * (q1 - z1) + sign * (s2 / s3) * (q2 - z2).
+ * Used for both addition (sign = 1) and subtraction (sign = -1). Like the other requantizing
+ * operations, assumes that the operands and zero points are range-checked so that
+ * |q - z| < 2^DIFF_BITS; Matrix checks this before calling them.
+ *
+ * @param values1 - The quantized values of the first operand.
+ * @param params1 - The quantization parameters of the first operand.
+ * @param values2 - The quantized values of the second operand.
+ * @param params2 - The quantization parameters of the second operand.
+ * @param out - The quantization parameters of the output.
+ * @param sign - 1 for addition, -1 for subtraction.
+ * @returns The requantized output values.
+ */
+export function quant_add(
+  values1: Field[],
+  params1: QuantParams,
+  values2: Field[],
+  params2: QuantParams,
+  out: QuantParams,
+  sign: 1 | -1
+): Field[] {
+  let s3 = constant_scale(out.scale);
+  let m1 = quantize_multiplier(constant_scale(params1.scale), s3);
+  let m2 = quantize_multiplier(constant_scale(params2.scale), s3);
+
+  // Bring both multipliers to a common shift so that a single rounding step is needed.
+  let shift = Math.max(m1.shift, m2.shift);
+  let a1 = round_div(constant_scale(params1.scale) << BigInt(shift), s3);
+  let a2 = round_div(constant_scale(params2.scale) << BigInt(shift), s3) * BigInt(sign);
+  let bits = Math.max(bit_length(a1), bit_length(a2)) + DIFF_BITS + 1;
+
+  let result: Field[] = [];
+  for (let i = 0; i < values1.length; i++) {
+    let acc = values1[i]
+      .sub(params1.zero_point)
+      .mul(Field(a1))
+      .add(values2[i].sub(params2.zero_point).mul(Field(a2)));
+    result.push(requantize(acc, shift, bits, out));
+  }
+  return result;
+}
+
+/**
+ * Requantizes the elementwise product: out = z3 + (s1 * s2 / s3) * (q1 - z1) * (q2 - z2).
+ *
+ * @param values1 - The quantized values of the first operand.
+ * @param params1 - The quantization parameters of the first operand.
+ * @param values2 - The quantized values of the second operand.
+ * @param params2 - The quantization parameters of the second operand.
+ * @param out - The quantization parameters of the output.
+ * @returns The requantized output values.
+ */
+export function quant_hadamard_product(
+  values1: Field[],
+  params1: QuantParams,
+  values2: Field[],
+  params2: QuantParams,
+  out: QuantParams
+): Field[] {
+  let { multiplier, shift } = product_multiplier(params1, params2, out);
+  let bits = 2 * DIFF_BITS + bit_length(multiplier);
+
+  let result: Field[] = [];
+  for (let i = 0; i < values1.length; i++) {
+    let acc = values1[i].sub(params1.zero_point).mul(values2[i].sub(params2.zero_point));
+    result.push(requantize(acc.mul(Field(multiplier)), shift, bits, out));
+  }
+  return result;
+}
+
+/**
+ * Requantizes the matrix product: out[i][j] = z3 + (s1 * s2 / s3) * sum_k (q1[i][k] - z1) * (q2[k][j] - z2).
+ *
+ * @param values1 - The quantized values of the first matrix.
+ * @param params1 - The quantization parameters of the first matrix.
+ * @param values2 - The quantized values of the second matrix.
+ * @param params2 - The quantization parameters of the second matrix.
+ * An optional bias per output column is added to the accumulator before requantization. As usual
+ * for quantized inference, it is a signed BIAS_BITS-bit integer with scale s1 * s2 and zero point 0.
+ *
+ * @param dims - The dimensions [rows, inner, cols] of the product.
+ * @param out - The quantization parameters of the output.
+ * @param bias - Optional quantized bias, one value per output column.
+ * @returns The requantized output values.
+ */
+export function quant_mul(
+  values1: Field[],
+  params1: QuantParams,
+  values2: Field[],
+  params2: QuantParams,
+  dims: [number, number, number],
+  out: QuantParams,
+  bias?: Field[]
+): Field[] {
+  let [rows, inner, cols] = dims;
+  let { multiplier, shift } = product_multiplier(params1, params2, out);
+  let acc_bits = 2 * DIFF_BITS + bit_length(BigInt(inner));
+  if (bias !== undefined) {
+    bias.forEach((x) => assert_signed_bits(x, BIAS_BITS - 1, `Quantized bias does not fit in ${BIAS_BITS} bits`));
+    acc_bits = Math.max(acc_bits, BIAS_BITS) + 1;
+  }
+  let bits = acc_bits + bit_length(multiplier);
+
+  let diffs1 = values1.map((x) => x.sub(params1.zero_point));
+  let diffs2 = values2.map((x) => x.sub(params2.zero_point));
+
+  let result: Field[] = [];
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) {
+      let acc = Field(0);
+      for (let k = 0; k < inner; k++) {
+        acc = acc.add(diffs1[i * inner + k].mul(diffs2[k * cols + j]));
+      }
+      if (bias !== undefined) acc = acc.add(bias[j]);
+      result.push(requantize(acc.mul(Field(multiplier)), shift, bits, out));
+    }
+  }
+  return result;
+}
+
+/**
+ * Dequantizes values to fixed-point with SCALE_BITS fractional bits: x = (q - z) * s.
+ * Used to evaluate non-linear functions on quantized values.
+ *
+ * @param values - The quantized values.
+ * @param params - The quantization parameters of the values.
+ * @returns The fixed-point values and the bit bound on their absolute value.
+ */
+export function dequantize_fixed(values: Field[], params: QuantParams): { values: Field[]; bits: number } {
+  let scale = constant_scale(params.scale);
+  return {
+    values: values.map((x) => x.sub(params.zero_point).mul(Field(scale))),
+    bits: DIFF_BITS + bit_length(scale),
+  };
+}
+
+/**
+ * Quantizes fixed-point values with SCALE_BITS fractional bits: q = z + round(x / s), clamped to
+ * the output type.
+ *
+ * @param values - The fixed-point values.
+ * @param bits - The bit bound on the absolute value of the values.
+ * @param out - The quantization parameters of the output.
+ * @returns The quantized values.
+ */
+export function quantize_fixed(values: Field[], bits: number, out: QuantParams): Field[] {
+  let { multiplier, shift } = quantize_multiplier(1n, constant_scale(out.scale));
+  let acc_bits = bits + bit_length(multiplier);
+  return values.map((x) => requantize(x.mul(Field(multiplier)), shift, acc_bits, out));
+}
+
+/**
+ * Shifts a scaled accumulator with rounding, adds the output zero point and clamps the result to
+ * the output value type.
+ *
+ * @param acc - The accumulator, already multiplied by the integer multiplier.
+ * @param shift - The right shift of the multiplier.
+ * @param bits - The bit bound on |acc|.
+ * @param out - The quantization parameters of the output.
+ * @returns The quantized output value.
+ */
+function requantize(acc: Field, shift: number, bits: number, out: QuantParams): Field {
+  let [lo, hi] = QUANT_RANGES[out.dtype ?? 'uint8'];
+  let value = round_shift(acc, shift, bits).add(out.zero_point);
+  return clamp_signed(value, lo, hi, Math.max(bits - shift + 1, DIFF_BITS) + 1);
+}
+
+/**
+ * Computes the integer multiplier for products, approximating s1 * s2 / s3.
+ * The extra SCALE_BITS in the denominator account for the fixed-point encoding of the scales.
+ */
+function product_multiplier(params1: QuantParams, params2: QuantParams, out: QuantParams) {
+  return quantize_multiplier(
+    constant_scale(params1.scale) * constant_scale(params2.scale),
+    constant_scale(out.scale) << BigInt(SCALE_BITS)
+  );
+}
+
+/**
+ * Reads an encoded scale as a bigint.
+ *
+ * @param scale - The encoded scale.
+ * @returns The scale as a positive bigint.
+ * @throws Error if the scale is not a positive constant.
+ */
+function constant_scale(scale: Field): bigint {
+  if (!scale.isConstant()) {
+    throw new Error('Quantization scales must be constants');
+  }
+  let value = scale.toBigInt();
+  if (value === 0n || value > Field.ORDER / 2n) {
+    throw new Error('Quantization scales must be positive');
+  }
+  return value;
+}
+
+/** Divides two non-negative bigints, rounding to the nearest integer. */
+function round_div(num: bigint, den: bigint): bigint {
+  return (2n * num + den) / (2n * den);
+}
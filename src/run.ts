@@ -1,67 +1,79 @@
 import { Matrix } from './matrix_ops.js';
+import { FixedPointConfig, encode_fixed } from './fixed_point.js';
 
-import { Field, Provable, ZkProgram } from 'o1js';
+import { Field, ZkProgram } from 'o1js';
 
-const other_values = [0, 1, 2, 4, 5, 6, 7, 8, 0].map((x) => Field(x));
-const other_shape: [Field, Field] = [Field(3), Field(3)];
+/*
+ * Proves inference of a 2-layer perceptron, 4 -> 8 -> 3, on fixed-point data:
+ * logits = relu(x * W1 + b1) * W2 + b2, and the predicted class is the argmax of the logits.
+ * The weights are part of the circuit, the input is private, and the predicted class (public input)
+ * and the softmax probabilities (public output) are public.
+ */
 
+const config: FixedPointConfig = { frac_bits: 16, total_bits: 48 };
 
-let matrix_circuit = ZkProgram({
-    name: 'matrix-verify',
+function fixed_matrix(values: number[], rows: number, cols: number): Matrix {
+    return Matrix.from_fixed_point(values.map((x) => encode_fixed(x, config)), [rows, cols], config);
+}
+
+const w1 = fixed_matrix([
+    0.42, -0.31, 0.77, 0.05, -0.64, 0.23, 0.91, -0.12,
+    -0.58, 0.66, 0.14, -0.83, 0.37, 0.49, -0.26, 0.71,
+    0.19, -0.45, -0.92, 0.33, 0.81, -0.07, 0.54, -0.68,
+    -0.76, 0.28, 0.61, 0.87, -0.15, -0.53, 0.09, 0.44,
+], 4, 8);
+const b1 = fixed_matrix([0.1, -0.05, 0.2, 0, -0.1, 0.15, -0.2, 0.05], 1, 8);
+const w2 = fixed_matrix([
+    0.63, -0.41, 0.18,
+    -0.27, 0.84, -0.56,
+    0.35, 0.12, -0.79,
+    -0.88, 0.47, 0.22,
+    0.51, -0.69, 0.36,
+    0.06, 0.93, -0.48,
+    -0.34, -0.21, 0.75,
+    0.72, 0.39, -0.13,
+], 8, 3);
+const b2 = fixed_matrix([0.05, -0.1, 0], 1, 3);
+
+const Input = Matrix.Typed(1, 4, { fixed_point: config });
+const Probabilities = Matrix.Typed(1, 3, { fixed_point: config });
+
+let mlp_circuit = ZkProgram({
+    name: 'mlp-inference',
+    publicInput: Field,
+    publicOutput: Probabilities,
 
     methods: {
-        verifyaddition: {
-            privateInputs: [
-                Provable.Array(Field, 9),
-                Provable.Array(Field, 2),
-                Field,
-                Field,
-            ],
+        infer: {
+            privateInputs: [Input],
 
-            async method(
-                values: Field[],
-                shape: Field[],
-                zero_point: Field,
-                scale: Field
-            ) {
-                let other_matrix = new Matrix(other_values, other_shape, Field(0), Field(1));
-                let matrix = new Matrix(values, other_shape, zero_point, scale);
-                let out_add = matrix.add(other_matrix);
-                let out_sub = matrix.sub(other_matrix);
-                let out_hadamard = matrix.hadamard_product(other_matrix);
-                let out_mul = matrix.mul(other_matrix);
-                let inv_mat = other_matrix.inverse();
-                let I = inv_mat.mul(other_matrix);
+            async method(label: Field, x: Matrix) {
+                let hidden = x.dense(w1, b1).relu();
+                let logits = hidden.dense(w2, b2);
+                logits.argmax().values[0].assertEquals(label, 'Unexpected class');
+                return { publicOutput: logits.softmax() };
             },
         },
     },
 });
 
-let { verifyaddition } = await matrix_circuit.analyzeMethods();
+let { infer } = await mlp_circuit.analyzeMethods();
 
-console.log(verifyaddition.summary());
+console.log(infer.summary());
 
 console.time('compile');
 const forceRecompileEnabled = false;
-await matrix_circuit.compile({ forceRecompile: forceRecompileEnabled });
+await mlp_circuit.compile({ forceRecompile: forceRecompileEnabled });
 console.timeEnd('compile');
 
-const cur_values = [Field(1), Field(2), Field(3), Field(4), Field(5), Field(6), Field(7), Field(8), Field(9)];
-const cur_shape = [Field(3), Field(3)];
-
+const input = fixed_matrix([0.8, -0.3, 0.5, 1.2], 1, 4);
+const label = input.dense(w1, b1).relu().dense(w2, b2).argmax().values[0];
+console.log('predicted class', label.toString());
 
 console.time('prove');
-let proof = await matrix_circuit.verifyaddition(cur_values, cur_shape, Field(0), Field(1));
+let proof = await mlp_circuit.infer(label, input);
 console.timeEnd('prove');
 
 console.time('verify');
-await matrix_circuit.verify(proof.proof);
+await mlp_circuit.verify(proof.proof);
 console.timeEnd('verify');
-
-/* 
-(async () => {
-    const analysis = await matrix_circuit.analyzeMethods();
-    console.log(analysis);
-    console.log(analysis.verifyaddition.summary());
-})();
-*/
@@ -0,0 +1,74 @@
+import { BenchMode, BenchOp, BenchResult, analyze, benchmark, format_table, parse_shapes } from './bench.js';
+
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+
+/*
+ * Benchmarks Matrix operations:
+ *
+ *   npm run bench -- --op mul --shape 8x8x8 --mode quantized
+ *
+ * Without --op, runs the README suite below. Options:
+ *
+ *   --op <name>      The operation, see OPERATIONS in bench.ts.
+ *   --shape <dims>   The dimensions, such as 8x8 for element-wise operations and 8x8x8 for products.
+ *   --mode <mode>    field (default), quantized or fixed_point.
+ *   --rows-only      Only count constraints, without compiling, proving and verifying.
+ *   --json           Print the results as JSON instead of a table.
+ *   --readme         Replace the table between the bench markers of README.md with the results.
+ */
+
+const README_SUITE: [BenchOp, string, BenchMode][] = [
+    ['mul', '8x8x8', 'field'],
+    ['mul', '8x8x8', 'quantized'],
+    ['mul', '8x8x8', 'fixed_point'],
+    ['mul_verified', '8x8x8', 'field'],
+    ['determinant', '8x8', 'field'],
+    ['inverse', '8x8', 'field'],
+    ['dense', '1x16x8', 'quantized'],
+    ['relu', '8x8', 'quantized'],
+    ['softmax', '1x10', 'fixed_point'],
+];
+
+const README_BEGIN = '<!-- bench:begin -->\n';
+const README_END = '<!-- bench:end -->';
+
+let { values: args } = parseArgs({
+    options: {
+        op: { type: 'string' },
+        shape: { type: 'string' },
+        mode: { type: 'string', default: 'field' },
+        'rows-only': { type: 'boolean', default: false },
+        json: { type: 'boolean', default: false },
+        readme: { type: 'boolean', default: false },
+    },
+});
+
+let cases = README_SUITE;
+if (args.op !== undefined) {
+    if (args.shape === undefined) {
+        throw new Error('--op needs a --shape');
+    }
+    cases = [[args.op as BenchOp, args.shape, args.mode as BenchMode]];
+}
+
+let results: BenchResult[] = [];
+for (let [op, dims, mode] of cases) {
+    let shapes = parse_shapes(op, dims);
+    let result = args['rows-only'] ? await analyze(op, shapes, mode) : await benchmark(op, shapes, mode);
+    results.push(result);
+    if (!args.json) console.error(`${op} ${dims} ${mode}: ${result.rows} rows`);
+}
+
+let table = format_table(results);
+console.log(args.json ? JSON.stringify(results, null, 2) : table);
+
+if (args.readme) {
+    let readme = readFileSync('README.md', 'utf8');
+    let begin = readme.indexOf(README_BEGIN);
+    let end = readme.indexOf(README_END);
+    if (begin < 0 || end < begin) {
+        throw new Error('README.md has no bench markers');
+    }
+    writeFileSync('README.md', readme.slice(0, begin + README_BEGIN.length) + table + readme.slice(end));
+}
@@ -0,0 +1,94 @@
+import { jest } from '@jest/globals';
+import { Matrix } from './matrix_ops';
+import { SparseMatrix } from './sparse';
+import { fields, int_matrix } from './test_utils';
+
+import { Field, Provable } from 'o1js';
+
+jest.useFakeTimers();
+
+describe('Sparse matrices', () => {
+
+    let a = int_matrix([0, 2, 0, 0, -1, 0, 0, 0, 0, 0, 3, 0], [3, 4]);
+    let b = int_matrix([1, 2, 3, 4, 5, 6, 7, 8], [4, 2]);
+
+    it('should convert to and from dense matrices', async () => {
+
+        let sparse = SparseMatrix.from_matrix(a, 4);
+
+        expect(sparse.capacity).toEqual(4);
+        expect(sparse.rows).toEqual(fields([0, 1, 2, 0]));
+        expect(sparse.cols).toEqual(fields([1, 0, 2, 0]));
+        expect(sparse.values).toEqual(fields([2, -1, 3, 0]));
+        expect(sparse.to_matrix().values).toEqual(a.values);
+        expect(sparse.transpose().to_matrix().values).toEqual(a.transpose().values);
+
+        expect(() => SparseMatrix.from_matrix(a, 2)).toThrow('Matrix has 3 non-zero entries, more than the capacity 2');
+
+    });
+
+    it('should multiply with dense matrices and add', async () => {
+
+        let sparse = SparseMatrix.from_matrix(a);
+
+        expect(sparse.mul_dense(b).values).toEqual(a.mul(b).values);
+        expect(sparse.mul_dense(b).shape).toEqual([3, 2]);
+        expect(sparse.transpose().mul_dense(a).values).toEqual(a.transpose().mul(a).values);
+
+        let sum = sparse.add(SparseMatrix.from_matrix(int_matrix([0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 5], [3, 4])));
+        expect(sum.capacity).toEqual(5);
+        expect(sum.to_matrix().values).toEqual(fields([0, 2, 0, 0, 0, 0, 0, 0, 0, 0, 3, 5]));
+
+        expect(() => sparse.mul_dense(a)).toThrow('Cannot multiply a 3x4 sparse matrix with a 3x4 matrix');
+        expect(() => sparse.add(sparse.transpose())).toThrow('Sparse matrix shapes 3x4 and 4x3 do not match');
+
+        // Bounds are checked against the field modulus as for dense matrices.
+        let large = SparseMatrix.from_matrix(a);
+        large.bound = Field.ORDER / 4n;
+        expect(() => large.to_matrix()).toThrow('Matrix operation may overflow the field modulus');
+        expect(() => large.mul_dense(b)).toThrow('Matrix operation may overflow the field modulus');
+
+    });
+
+    it('should cost constraints proportional to the number of non-zeros', async () => {
+
+        let [Left, Right] = [Matrix.Typed(3, 4), Matrix.Typed(4, 2)];
+        let sparse = SparseMatrix.from_matrix(a);
+
+        // The sparsity pattern is public and the values are private.
+        let sparse_cs = await Provable.constraintSystem(() => {
+            let values = Provable.witness(Provable.Array(Field, 3), () => sparse.values);
+            let x = Provable.witness(Right, () => b);
+            new SparseMatrix(sparse.shape, sparse.rows, sparse.cols, values).mul_dense(x);
+        });
+        let dense_cs = await Provable.constraintSystem(() => {
+            let w = Provable.witness(Left, () => a);
+            let x = Provable.witness(Right, () => b);
+            w.mul(x);
+        });
+
+        expect(sparse_cs.rows).toBeLessThan(dense_cs.rows);
+
+    });
+
+    it('should prove products with a private sparsity pattern', async () => {
+
+        let Sparse = SparseMatrix.Typed([3, 4], 3, { bits: 16, signed: true });
+
+        await Provable.runAndCheck(() => {
+            let sparse = Provable.witness(Sparse, () => SparseMatrix.from_matrix(a));
+            let product = sparse.mul_dense(b);
+            Provable.asProver(() => {
+                expect(product.values.map((x) => x.toBigInt())).toEqual(a.mul(b).values.map((x) => x.toBigInt()));
+            });
+            Provable.assertEqual(Provable.Array(Field, 12), sparse.to_matrix().values, a.values);
+        });
+
+        let outside = new SparseMatrix([3, 4], fields([0, 3, 0]), fields([1, 0, 2]), fields([2, -1, 3]));
+        await expect(Provable.runAndCheck(() => {
+            Provable.witness(Sparse, () => outside);
+        })).rejects.toThrow('Sparse row index is out of range');
+
+    });
+
+});
@@ -0,0 +1,275 @@
+/*
+ * sparse.ts
+ *
+ * Sparse matrices in coordinate (COO) format with a fixed maximum number of non-zero entries.
+ *
+ * A SparseMatrix stores up to capacity entries as parallel arrays of row indices, column indices
+ * and values. The value of an entry of the matrix is the sum of the stored values at its position,
+ * so unused slots simply hold the value 0, and adding two sparse matrices concatenates their
+ * entries without any constraints.
+ *
+ * Indices may be constants, for a sparsity pattern that is part of the circuit such as a fixed graph,
+ * or circuit variables, for a pattern that is private. Each index is turned into a one-hot selector
+ * (see one_hot in gadgets.ts), which is free for constants because Provable.if on a constant
+ * condition adds no constraints. The cost of mul_dense is therefore capacity * n multiplications for
+ * a constant pattern and capacity * (k + m) * n for a witnessed one, for an m x k sparse matrix and
+ * a k x n dense matrix, instead of the m * k * n multiplications of a dense product.
+ *
+ * Sparse matrices hold plain field elements, with zero_point 0 and scale 1.
+ */
+
+import { Field, Provable, ProvablePure, Bool } from 'o1js';
+import { Matrix, Shape, assert_range, bits_bound, check_plain, combine_bounds } from './matrix_ops.js';
+import { assert_bits, lookup_bits, one_hot } from './gadgets.js';
+
+/** Plain JS representation of a SparseMatrix, used by provable sparse matrix types. */
+export type SparseMatrixValue = { rows: bigint[]; cols: bigint[]; values: bigint[] };
+
+/**
+ * A sparse matrix in coordinate format.
+ */
+export class SparseMatrix {
+  shape: Shape;
+  rows: Field[];
+  cols: Field[];
+  values: Field[];
+  bound?: bigint;
+
+  /**
+   * Constructs a new SparseMatrix instance. The indices are not constrained; use
+   * SparseMatrix.from_matrix or a provable type from SparseMatrix.Typed for range-checked indices.
+   *
+   * @param shape - The shape of the matrix as a tuple [rows, columns].
+   * @param rows - The row index of every entry.
+   * @param cols - The column index of every entry.
+   * @param values - The value of every entry.
+   * @throws Error if the arrays have different lengths.
+   */
+  constructor(shape: Shape, rows: Field[], cols: Field[], values: Field[]) {
+    if (rows.length !== values.length || cols.length !== values.length) {
+      throw new Error('Sparse matrix indices and values have different lengths');
+    }
+    this.shape = shape;
+    this.rows = rows;
+    this.cols = cols;
+    this.values = values;
+  }
+
+  /** The maximum number of non-zero entries. */
+  get capacity(): number {
+    return this.values.length;
+  }
+
+  /**
+   * Converts a dense matrix with constant values, keeping its non-zero entries.
+   *
+   * @param matrix - The dense matrix, with default quantization parameters.
+   * @param capacity - The maximum number of non-zero entries, the number of non-zero entries by default.
+   * @returns A new SparseMatrix instance with constant indices.
+   * @throws Error if the matrix is not constant, holds fixed-point or quantized data, or has more
+   *   non-zero entries than the capacity.
+   */
+  static from_matrix(matrix: Matrix, capacity?: number): SparseMatrix {
+    check_plain(matrix, 'Sparse matrices only support plain field matrices');
+    if (!matrix.values.every((x) => x.isConstant())) {
+      throw new Error('Only constant matrices can be converted, witness a SparseMatrix.Typed instead');
+    }
+    let [rows, cols, values]: Field[][] = [[], [], []];
+    matrix.values.forEach((x, k) => {
+      if (x.toBigInt() === 0n) return;
+      rows.push(Field(Math.floor(k / matrix.shape[1])));
+      cols.push(Field(k % matrix.shape[1]));
+      values.push(x);
+    });
+    capacity ??= values.length;
+    if (values.length > capacity) {
+      throw new Error(`Matrix has ${values.length} non-zero entries, more than the capacity ${capacity}`);
+    }
+    while (values.length < capacity) [rows, cols, values].forEach((array) => array.push(Field(0)));
+
+    let sparse = new SparseMatrix(matrix.shape, rows, cols, values);
+    sparse.bound = matrix.bound;
+    return sparse;
+  }
+
+  /**
+   * Returns a provable type for sparse matrices of a fixed shape and capacity.
+   *
+   * The matrix is laid out as its row indices, column indices and values. The check method
+   * range-checks every index against the shape, and optionally every value to a bit width.
+   *
+   * @param shape - The shape of the matrix.
+   * @param capacity - The maximum number of non-zero entries.
+   * @param options - Optional bit width and signedness of the values, as in Matrix.from_bits.
+   * @returns The provable sparse matrix type.
+   */
+  static Typed(
+    shape: Shape,
+    capacity: number,
+    options: { bits?: number; signed?: boolean } = {}
+  ): ProvablePure<SparseMatrix, SparseMatrixValue> {
+    let { bits, signed = false } = options;
+    let bound = bits === undefined ? undefined : bits_bound(bits, signed);
+
+    let create = (rows: Field[], cols: Field[], values: Field[]) => {
+      let sparse = new SparseMatrix(shape, rows, cols, values);
+      sparse.bound = bound;
+      return sparse;
+    };
+
+    return {
+      sizeInFields: () => 3 * capacity,
+      toFields: (sparse: SparseMatrix) => {
+        if (sparse.capacity !== capacity) {
+          throw new Error(`Expected a sparse matrix with capacity ${capacity}`);
+        }
+        return [...sparse.rows, ...sparse.cols, ...sparse.values];
+      },
+      toAuxiliary: () => [],
+      fromFields: (fields: Field[]) =>
+        create(fields.slice(0, capacity), fields.slice(capacity, 2 * capacity), fields.slice(2 * capacity)),
+      check(sparse: SparseMatrix) {
+        sparse.rows.forEach((i) => assert_index(i, shape[0], 'Sparse row index is out of range'));
+        sparse.cols.forEach((j) => assert_index(j, shape[1], 'Sparse column index is out of range'));
+        if (bits !== undefined) assert_range(sparse.values, bits, signed);
+      },
+      toValue: (sparse: SparseMatrix) => ({
+        rows: sparse.rows.map((x) => x.toBigInt()),
+        cols: sparse.cols.map((x) => x.toBigInt()),
+        values: sparse.values.map((x) => x.toBigInt()),
+      }),
+      fromValue(value: SparseMatrixValue | SparseMatrix) {
+        if (value instanceof SparseMatrix) return create(value.rows, value.cols, value.values);
+        let fields = (array: bigint[]) => array.map((x) => Field(x));
+        return create(fields(value.rows), fields(value.cols), fields(value.values));
+      },
+    };
+  }
+
+  /**
+   * Converts to a dense matrix. Every stored entry is added at its position, which costs
+   * capacity * rows * columns constraints for witnessed indices.
+   *
+   * @returns A new Matrix instance with default quantization parameters.
+   * @throws Error if the summed entries may overflow the field modulus.
+   */
+  to_matrix(): Matrix {
+    let [rows, cols] = this.shape;
+    let values: Field[] = new Array(rows * cols).fill(Field(0));
+    this.values.forEach((x, k) => {
+      let row = selector(this.rows[k], rows, 'Sparse row index is out of range');
+      let col = selector(this.cols[k], cols, 'Sparse column index is out of range');
+      for (let i = 0; i < rows; i++) {
+        for (let j = 0; j < cols; j++) {
+          values[i * cols + j] = values[i * cols + j].add(Provable.if(row[i].and(col[j]), x, Field(0)));
+        }
+      }
+    });
+    let matrix = new Matrix(values, this.shape, Field(0), Field(1));
+    // Entries at the same position add up.
+    matrix.bound = combine_bounds(this.bound, BigInt(this.capacity), (a, b) => a * b);
+    return matrix;
+  }
+
+  /**
+   * Multiplies with a dense matrix, A * B, at a cost proportional to the capacity of A.
+   *
+   * @param dense - The dense right factor B, with default quantization parameters.
+   * @returns A new dense Matrix instance with the product.
+   * @throws Error if the inner dimensions differ, B holds fixed-point or quantized data, or the
+   *   product may overflow the field modulus.
+   */
+  mul_dense(dense: Matrix): Matrix {
+    check_plain(dense, 'Sparse matrices only support plain field matrices');
+    let [rows, inner] = this.shape;
+    if (dense.shape[0] !== inner) {
+      throw new Error(`Cannot multiply a ${rows}x${inner} sparse matrix with a ${dense.shape[0]}x${dense.shape[1]} matrix`);
+    }
+    let cols = dense.shape[1];
+
+    let values: Field[] = new Array(rows * cols).fill(Field(0));
+    this.values.forEach((x, k) => {
+      // Select row c_k of B, scale it by the entry and add it to row r_k of the product.
+      let col = selector(this.cols[k], inner, 'Sparse column index is out of range');
+      let row = selector(this.rows[k], rows, 'Sparse row index is out of range');
+      for (let j = 0; j < cols; j++) {
+        let b = col.reduce((sum, selected, l) => sum.add(Provable.if(selected, dense.values[l * cols + j], Field(0))), Field(0));
+        let term = b.mul(x);
+        for (let i = 0; i < rows; i++) {
+          values[i * cols + j] = values[i * cols + j].add(Provable.if(row[i], term, Field(0)));
+        }
+      }
+    });
+
+    let result = new Matrix(values, [rows, cols], Field(0), Field(1));
+    result.bound = combine_bounds(this.bound, dense.bound, (a, b) => BigInt(this.capacity) * a * b);
+    return result;
+  }
+
+  /**
+   * Adds another sparse matrix of the same shape by concatenating the entries, which adds no
+   * constraints. The capacity of the sum is the sum of the capacities.
+   *
+   * @param other - The sparse matrix to add.
+   * @returns A new SparseMatrix instance.
+   * @throws Error if the shapes differ.
+   */
+  add(other: SparseMatrix): SparseMatrix {
+    if (this.shape[0] !== other.shape[0] || this.shape[1] !== other.shape[1]) {
+      throw new Error(
+        `Sparse matrix shapes ${this.shape[0]}x${this.shape[1]} and ${other.shape[0]}x${other.shape[1]} do not match`
+      );
+    }
+    let sum = new SparseMatrix(
+      this.shape,
+      [...this.rows, ...other.rows],
+      [...this.cols, ...other.cols],
+      [...this.values, ...other.values]
+    );
+    if (this.bound !== undefined && other.bound !== undefined) {
+      sum.bound = this.bound > other.bound ? this.bound : other.bound;
+    }
+    return sum;
+  }
+
+  /**
+   * Returns the transpose by swapping the row and column indices, which adds no constraints.
+   *
+   * @returns A new SparseMatrix instance.
+   */
+  transpose(): SparseMatrix {
+    let transposed = new SparseMatrix([this.shape[1], this.shape[0]], this.cols, this.rows, this.values);
+    transposed.bound = this.bound;
+    return transposed;
+  }
+}
+
+/**
+ * Returns a one-hot selector for an index, as constants for a constant index.
+ *
+ * @param index - The index to select.
+ * @param size - The number of positions.
+ * @param message - The message if the index is out of range.
+ * @returns size Bools, of which only the one at the index is true.
+ * @throws Error if a constant index is out of range.
+ */
+function selector(index: Field, size: number, message: string): Bool[] {
+  if (!index.isConstant()) return one_hot(index, size, message);
+  let i = index.toBigInt();
+  if (i >= BigInt(size)) throw new Error(message);
+  return Array.from({ length: size }, (_, j) => Bool(BigInt(j) === i));
+}
+
+/**
+ * Asserts that an index lies in [0, size), with lookup-based range checks on whole multiples of
+ * 16 bits.
+ *
+ * @param index - The index to check.
+ * @param size - The number of positions.
+ * @param message - The message if the index is out of range.
+ */
+function assert_index(index: Field, size: number, message: string) {
+  let bits = lookup_bits(BigInt(size));
+  assert_bits(index, bits, message);
+  assert_bits(Field(size - 1).sub(index), bits, message);
+}
@@ -0,0 +1,41 @@
+/*
+ * test_utils.ts
+ *
+ * Fixtures shared by the test suites.
+ */
+
+import { Field } from 'o1js';
+import { Matrix, Shape } from './matrix_ops.js';
+
+/**
+ * Creates a constant matrix of signed integers, with the bound of the given bit width.
+ *
+ * @param values - The integers in row-major order.
+ * @param shape - The shape of the matrix.
+ * @param bits - The bit width of the values, including the sign; 16 by default.
+ * @returns A new Matrix instance.
+ */
+export function int_matrix(values: number[], shape: Shape, bits = 16): Matrix {
+  return Matrix.from_bits(fields(values), shape, bits, true);
+}
+
+/**
+ * Creates a constant matrix of field elements, without a bound.
+ *
+ * @param values - The integers in row-major order.
+ * @param shape - The shape of the matrix.
+ * @returns A new Matrix instance.
+ */
+export function field_matrix(values: number[], shape: Shape): Matrix {
+  return new Matrix(fields(values), shape, Field(0), Field(1));
+}
+
+/**
+ * Converts integers to field elements.
+ *
+ * @param values - The integers.
+ * @returns The field elements.
+ */
+export function fields(values: number[]): Field[] {
+  return values.map((x) => Field(x));
+}
@@ -0,0 +1,100 @@
+import { jest } from '@jest/globals';
+import { Matrix } from './matrix_ops';
+import { MatrixMerkleTree } from './merkle';
+import { TiledMul, TiledMulState } from './tiled';
+
+import { Field, Provable, ZkProgram } from 'o1js';
+
+jest.useFakeTimers();
+
+describe('Matrix tiled multiplication', () => {
+
+    function matrix(rows: number, cols: number, seed: number): Matrix {
+        let values: Field[] = [];
+        for (let i = 0; i < rows * cols; i++) values.push(Field((i * seed + 3) % 17));
+        return new Matrix(values, [rows, cols], Field(0), Field(1));
+    }
+
+    // Runs a method without proving, wrapping the resulting state as the previous proof of the next step.
+    function wrap(tiled: ReturnType<typeof TiledMul>, state: TiledMulState) {
+        let StepProof = ZkProgram.Proof(tiled.program);
+        return new StepProof({ publicInput: undefined, publicOutput: state, proof: undefined, maxProofsVerified: 1 });
+    }
+
+    it('should fold all tile products into one state for C = A * B', async () => {
+
+        let tiled = TiledMul([4, 6, 2], 2);
+        let a = matrix(4, 6, 5);
+        let b = matrix(6, 2, 11);
+        let { a_root, b_root, steps, c, c_tree } = tiled.inputs(a, b);
+
+        let state = (await tiled.program.rawMethods.start(a_root, b_root)).publicOutput;
+        for (let step of steps) {
+            let { a, a_witness, b, b_witness, acc, c_witness } = step;
+            state = (await tiled.program.rawMethods.step(wrap(tiled, state), a, a_witness, b, b_witness, acc, c_witness)).publicOutput;
+        }
+
+        expect(steps.length).toEqual(2 * 1 * 3);
+        expect(c.values).toEqual(a.mul(b).values);
+        expect(state.c_root).toEqual(c_tree.root);
+        let opened = c_tree.open(1);
+        expect(MatrixMerkleTree.assert_tile(state.c_root, tiled.c_layout, opened.tile, opened.witness)).toEqual(Field(1));
+        expect(state.a_root).toEqual(new MatrixMerkleTree(a, [2, 2]).root);
+        expect([state.tile_row, state.tile_col, state.tile_inner]).toEqual([Field(2), Field(0), Field(0)]);
+        expect(() => tiled.assert_complete(state)).not.toThrow();
+
+        let extra = steps[0];
+        await expect(
+            tiled.program.rawMethods.step(wrap(tiled, state), extra.a, extra.a_witness, extra.b, extra.b_witness, extra.acc, extra.c_witness)
+        ).rejects.toThrow('Tiled product is already complete');
+
+    });
+
+    it('should reject tiles that do not match the commitments or the step order', async () => {
+
+        let tiled = TiledMul([2, 4, 2], 2);
+        let a = matrix(2, 4, 5);
+        let b = matrix(4, 2, 11);
+        let { a_root, b_root, steps } = tiled.inputs(a, b);
+        let a_tree = new MatrixMerkleTree(a, [2, 2]);
+        let previous = wrap(tiled, (await tiled.program.rawMethods.start(a_root, b_root)).publicOutput);
+        let { a_witness, b_witness, acc, c_witness } = steps[0];
+
+        expect(() => tiled.assert_complete(previous.publicOutput)).toThrow('Tiled product is not complete');
+
+        // Opening the second inner tiles first breaks the order of the steps.
+        let second = steps[1];
+        await expect(
+            tiled.program.rawMethods.step(previous, second.a, second.a_witness, second.b, second.b_witness, acc, c_witness)
+        ).rejects.toThrow('Unexpected tile of A');
+
+        // A tile of A passed as a tile of B does not match the commitment to B.
+        let wrong = a_tree.open(0);
+        await expect(
+            tiled.program.rawMethods.step(previous, steps[0].a, a_witness, wrong.tile, wrong.witness, acc, c_witness)
+        ).rejects.toThrow('Tile does not match the Merkle commitment');
+
+        // A non-zero accumulator for the first inner step is rejected.
+        await expect(
+            tiled.program.rawMethods.step(previous, steps[0].a, a_witness, steps[0].b, b_witness, steps[0].a, c_witness)
+        ).rejects.toThrow('Accumulator does not match');
+
+    });
+
+    it('should need fewer rows per step than a direct product', async () => {
+
+        let tiled = TiledMul([16, 16, 16], 4);
+        let { step } = await tiled.program.analyzeMethods();
+
+        let direct = await Provable.constraintSystem(() => {
+            let a = Provable.witness(Matrix.Typed(16, 16), () => matrix(16, 16, 5));
+            let b = Provable.witness(Matrix.Typed(16, 16), () => matrix(16, 16, 11));
+            a.mul(b);
+        });
+
+        expect(step.rows).toBeLessThan(direct.rows);
+        expect(() => TiledMul([4, 5, 4], 2)).toThrow('Tile size 2 does not divide the product dimensions 4x5x4');
+
+    });
+
+});
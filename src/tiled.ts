@@ -0,0 +1,228 @@
+/*
+ * tiled.ts
+ *
+ * Recursive tiled matrix multiplication for products too large for a single circuit.
+ *
+ * A (m x k) and B (k x n) are committed to with Merkle trees over square tiles of size t (see
+ * merkle.ts), so that C = A * B splits into tile products C[i][j] = sum_l A[i][l] * B[l][j].
+ * Every step proof multiplies one pair of tiles and recursively verifies the previous step, so the
+ * final proof covers all (m / t) * (n / t) * (k / t) tile products in a single proof.
+ *
+ * The steps run through the tile indices (i, j, l) in lexicographic order, tracked in the public
+ * state. Each step opens A[i][l] and B[l][j] against the committed roots and adds their product to
+ * a running accumulator for C[i][j], of which only the Poseidon hash is carried in the state. After
+ * the last l the finished tile is inserted into an initially empty Merkle tree over the tiles of C.
+ * The last step binds its root to the layout of C like MatrixMerkleTree.root, so the result of the
+ * proof is a commitment to C that tiles can be opened against. Because the indices advance deterministically from zero,
+ * a state with tile_row = m / t proves that every tile of C was computed from every matching pair
+ * of tiles exactly once.
+ */
+
+import { Field, MerkleTree, Poseidon, Provable, SelfProof, Struct, ZkProgram } from 'o1js';
+import { Matrix } from './matrix_ops.js';
+import { MatrixMerkleTree, MatrixMerkleWitness, MerkleLayout, commitment_root } from './merkle.js';
+
+/**
+ * The public state of a tiled multiplication.
+ *
+ * - a_root, b_root: The Merkle commitments to A and B, see MatrixMerkleTree.
+ * - c_root: The root of the Merkle tree over the finished tiles of C, and once the product is
+ *   complete the committed root of C, see MatrixMerkleTree.root.
+ * - acc: The Poseidon hash of the accumulator for the current tile of C.
+ * - tile_row, tile_col, tile_inner: The tile indices (i, j, l) of the next step.
+ */
+export class TiledMulState extends Struct({
+  a_root: Field,
+  b_root: Field,
+  c_root: Field,
+  acc: Field,
+  tile_row: Field,
+  tile_col: Field,
+  tile_inner: Field,
+}) {}
+
+/**
+ * The private inputs of one step, opening A[i][l] and B[l][j] and the accumulator of C[i][j].
+ */
+export interface TiledMulStep {
+  a: Matrix;
+  a_witness: MatrixMerkleWitness;
+  b: Matrix;
+  b_witness: MatrixMerkleWitness;
+  acc: Matrix;
+  c_witness: MatrixMerkleWitness;
+}
+
+/**
+ * Creates a recursive ZkProgram that multiplies an m x k matrix with a k x n matrix tile by tile.
+ *
+ * The program has two methods: start(a_root, b_root) creates the initial state and step(previous,
+ * ...) multiplies the next pair of tiles. The inputs helper computes the inputs of all steps for
+ * two constant matrices, and prove runs them. Only plain field matrices (zero_point 0, scale 1) are supported.
+ *
+ * @param shape - The dimensions [m, k, n] of the product.
+ * @param tile - The size of the square tiles, which must divide m, k and n.
+ * @returns The program, the Merkle layouts of A, B and C, the inputs and prove helpers, and
+ *   assert_complete for the final state.
+ * @throws Error if the tile size does not divide the dimensions.
+ */
+export function TiledMul(shape: [number, number, number], tile: number) {
+  let [m, k, n] = shape;
+  if (!(Number.isInteger(tile) && tile > 0 && m % tile === 0 && k % tile === 0 && n % tile === 0)) {
+    throw new Error(`Tile size ${tile} does not divide the product dimensions ${m}x${k}x${n}`);
+  }
+  let [tiles_m, tiles_k, tiles_n] = [m / tile, k / tile, n / tile];
+
+  let a_layout: MerkleLayout = { shape: [m, k], tile: [tile, tile] };
+  let b_layout: MerkleLayout = { shape: [k, n], tile: [tile, tile] };
+  let c_layout: MerkleLayout = { shape: [m, n], tile: [tile, tile] };
+
+  let Tile = Matrix.Typed(tile, tile);
+  let AWitness = MatrixMerkleTree.Witness(a_layout);
+  let BWitness = MatrixMerkleTree.Witness(b_layout);
+  let CWitness = MatrixMerkleTree.Witness(c_layout);
+
+  let zero_tile = new Array(tile * tile).fill(Field(0));
+  let zero_hash = Poseidon.hash(zero_tile);
+  let empty_root = new MerkleTree(CWitness.height).getRoot();
+
+  let program = ZkProgram({
+    name: `tiled-mul-${m}x${k}x${n}-${tile}`,
+    publicOutput: TiledMulState,
+
+    methods: {
+      start: {
+        privateInputs: [Field, Field],
+
+        async method(a_root: Field, b_root: Field) {
+          let state = new TiledMulState({
+            a_root,
+            b_root,
+            c_root: empty_root,
+            acc: zero_hash,
+            tile_row: Field(0),
+            tile_col: Field(0),
+            tile_inner: Field(0),
+          });
+          return { publicOutput: state };
+        },
+      },
+
+      step: {
+        privateInputs: [SelfProof, Tile, AWitness, Tile, BWitness, Tile, CWitness],
+
+        async method(
+          previous: SelfProof<undefined, TiledMulState>,
+          a: Matrix,
+          a_witness: MatrixMerkleWitness,
+          b: Matrix,
+          b_witness: MatrixMerkleWitness,
+          acc: Matrix,
+          c_witness: MatrixMerkleWitness
+        ) {
+          previous.verify();
+          let { a_root, b_root, c_root, tile_row, tile_col, tile_inner } = previous.publicOutput;
+          tile_row.assertNotEquals(Field(tiles_m), 'Tiled product is already complete');
+
+          MatrixMerkleTree.assert_tile(a_root, a_layout, a, a_witness).assertEquals(
+            tile_row.mul(tiles_k).add(tile_inner),
+            'Unexpected tile of A'
+          );
+          MatrixMerkleTree.assert_tile(b_root, b_layout, b, b_witness).assertEquals(
+            tile_inner.mul(tiles_n).add(tile_col),
+            'Unexpected tile of B'
+          );
+          Poseidon.hash(acc.values).assertEquals(previous.publicOutput.acc, 'Accumulator does not match');
+          let sum = Poseidon.hash(acc.add(a.mul(b)).values);
+
+          // The last inner step moves the finished tile into the empty leaf of C at (i, j).
+          let last_inner = tile_inner.equals(Field(tiles_k - 1));
+          let last_col = tile_col.equals(Field(tiles_n - 1));
+          let last = last_inner.and(last_col).and(tile_row.equals(Field(tiles_m - 1)));
+          let c_index = tile_row.mul(tiles_n).add(tile_col);
+          Provable.if(last_inner, c_witness.calculateRoot(Field(0)), c_root).assertEquals(c_root);
+          Provable.if(last_inner, c_witness.calculateIndex(), c_index).assertEquals(c_index);
+
+          let tree_root = Provable.if(last_inner, c_witness.calculateRoot(sum), c_root);
+          let state = new TiledMulState({
+            a_root,
+            b_root,
+            c_root: Provable.if(last, commitment_root(tree_root, c_layout, Field(0), Field(1)), tree_root),
+            acc: Provable.if(last_inner, zero_hash, sum),
+            tile_row: Provable.if(last_inner.and(last_col), tile_row.add(1), tile_row),
+            tile_col: Provable.if(last_inner, Provable.if(last_col, Field(0), tile_col.add(1)), tile_col),
+            tile_inner: Provable.if(last_inner, Field(0), tile_inner.add(1)),
+          });
+          return { publicOutput: state };
+        },
+      },
+    },
+  });
+
+  /**
+   * Computes the inputs of every step for two constant matrices, out of circuit.
+   *
+   * @param a - The left factor, an m x k constant matrix.
+   * @param b - The right factor, a k x n constant matrix.
+   * @returns The roots passed to start, the private inputs of each step in order, the product C and
+   * its Merkle tree over tiles, whose root equals the c_root of the final state.
+   */
+  function inputs(a: Matrix, b: Matrix) {
+    let a_tree = new MatrixMerkleTree(a, a_layout.tile);
+    let b_tree = new MatrixMerkleTree(b, b_layout.tile);
+    let c_tree = new MerkleTree(CWitness.height);
+
+    let steps: TiledMulStep[] = [];
+    for (let i = 0; i < tiles_m; i++) {
+      for (let j = 0; j < tiles_n; j++) {
+        let acc = new Matrix(zero_tile, [tile, tile], Field(0), Field(1));
+        for (let l = 0; l < tiles_k; l++) {
+          let a_tile = a_tree.open(i * tiles_k + l);
+          let b_tile = b_tree.open(l * tiles_n + j);
+          steps.push({
+            a: a_tile.tile,
+            a_witness: a_tile.witness,
+            b: b_tile.tile,
+            b_witness: b_tile.witness,
+            acc,
+            c_witness: new CWitness(c_tree.getWitness(BigInt(i * tiles_n + j))),
+          });
+          acc = acc.add(a_tile.tile.mul(b_tile.tile));
+        }
+        c_tree.setLeaf(BigInt(i * tiles_n + j), Poseidon.hash(acc.values));
+      }
+    }
+
+    let c = a.mul(b);
+    return { a_root: a_tree.root, b_root: b_tree.root, steps, c, c_tree: new MatrixMerkleTree(c, c_layout.tile) };
+  }
+
+  /**
+   * Proves C = A * B by running all steps. The program must be compiled.
+   *
+   * @param a - The left factor, an m x k constant matrix.
+   * @param b - The right factor, a k x n constant matrix.
+   * @returns The final proof, the product C and its Merkle tree over tiles.
+   */
+  async function prove(a: Matrix, b: Matrix) {
+    let { a_root, b_root, steps, c, c_tree } = inputs(a, b);
+    let { proof } = await program.start(a_root, b_root);
+    for (let { a, a_witness, b, b_witness, acc, c_witness } of steps) {
+      ({ proof } = await program.step(proof, a, a_witness, b, b_witness, acc, c_witness));
+    }
+    return { proof, c, c_tree };
+  }
+
+  /**
+   * Asserts that a state covers the whole product, which a verifier must check on the final proof.
+   *
+   * @param state - The public output of a step proof.
+   */
+  function assert_complete(state: TiledMulState) {
+    state.tile_row.assertEquals(Field(tiles_m), 'Tiled product is not complete');
+    state.tile_col.assertEquals(Field(0), 'Tiled product is not complete');
+    state.tile_inner.assertEquals(Field(0), 'Tiled product is not complete');
+  }
+
+  return { program, a_layout, b_layout, c_layout, inputs, prove, assert_complete };
+}
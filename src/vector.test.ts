@@ -0,0 +1,105 @@
+import { jest } from '@jest/globals';
+import { Matrix } from './matrix_ops';
+import { Vector } from './vector';
+import { fields } from './test_utils';
+
+import { Field, Provable, ZkProgram } from 'o1js';
+
+jest.useFakeTimers();
+
+describe('Vectors', () => {
+
+    function int_vector(values: number[]): Vector {
+        return Vector.from_bits(values.map((x) => Field(x)), 16, true);
+    }
+
+    let a = int_vector([3, -4, 0, 12]);
+    let b = int_vector([1, 2, -2, 5]);
+
+    it('should compute products and norms', async () => {
+
+        expect(a.dot(b)).toEqual(Field(3 - 8 + 60));
+        expect(a.squared_norm()).toEqual(Field(169));
+        expect(a.l1_norm()).toEqual(Field(19));
+        expect(a.abs().values).toEqual(fields([3, 4, 0, 12]));
+
+        let outer = a.outer(int_vector([1, -1]));
+        expect(outer.shape).toEqual([4, 2]);
+        expect(outer.values).toEqual(fields([3, -3, -4, 4, 0, 0, 12, -12]));
+
+        let matrix = Matrix.from_bits(fields([1, 0, 0, 1, 2, 1, 1, 1]), [2, 4], 16, true);
+        expect(Vector.mat_vec(matrix, a).values).toEqual(fields([15, 14]));
+        expect(Vector.from_matrix(a.to_col()).values).toEqual(a.values);
+
+        expect(() => a.dot(int_vector([1, 2]))).toThrow('Vectors of length 4 and 2 do not match');
+        expect(() => new Vector(fields([1, 2])).l1_norm()).toThrow('l1_norm requires range-checked values');
+        expect(() => Vector.from_matrix(matrix)).toThrow('Expected a row or column matrix, got 2x4');
+
+    });
+
+    it('should compare cosine similarities', async () => {
+
+        let { numerator, squared_denominator } = a.cosine_parts(b);
+        expect(numerator).toEqual(Field(55));
+        expect(squared_denominator).toEqual(Field(169 * 34));
+
+        // cos(a, b) = 55 / sqrt(5746) ~ 0.7256
+        await Provable.runAndCheck(() => a.assert_cosine_at_least(b, 7n, 10n));
+        await expect(Provable.runAndCheck(() => a.assert_cosine_at_least(b, 3n, 4n))).rejects.toThrow();
+        await expect(Provable.runAndCheck(() => a.assert_cosine_at_least(a.abs(), 0n, 1n))).resolves.toBeUndefined();
+
+        let opposite = int_vector([-3, 4, 0, -12]);
+        await expect(Provable.runAndCheck(() => a.assert_cosine_at_least(opposite, 0n, 1n))).rejects.toThrow();
+        expect(() => a.assert_cosine_at_least(b, 3n, 2n)).toThrow('Cosine threshold must lie in [0, 1]');
+
+    });
+
+    it('should witness range-checked vectors', async () => {
+
+        let Embedding = Vector.Typed(4, { bits: 16, signed: true });
+
+        await expect(Provable.runAndCheck(() => {
+            let x = Provable.witness(Embedding, () => a);
+            let y = x.abs();
+            Provable.asProver(() => {
+                expect(y.values.map((v) => v.toBigInt())).toEqual([3n, 4n, 0n, 12n]);
+            });
+        })).resolves.toBeUndefined();
+
+        await expect(Provable.runAndCheck(() => {
+            Provable.witness(Embedding, () => new Vector(fields([1, 2, 3, 1 << 16])));
+        })).rejects.toThrow('Matrix value does not fit in signed 16 bits');
+
+    });
+
+    it('should prove embedding similarity in a ZkProgram', async () => {
+
+        let Embedding = Vector.Typed(4, { bits: 8, signed: true });
+        let reference = Vector.from_bits(fields([2, -1, 0, 5]), 8, true);
+
+        let program = ZkProgram({
+            name: 'embedding-similarity',
+            publicOutput: Field,
+
+            methods: {
+                similar: {
+                    privateInputs: [Embedding],
+
+                    async method(embedding: Vector) {
+                        embedding.assert_cosine_at_least(reference, 9n, 10n);
+                        return { publicOutput: embedding.l1_norm() };
+                    },
+                },
+            },
+        });
+
+        let out = await program.rawMethods.similar(Vector.from_bits(fields([4, -2, 1, 9]), 8, true));
+        expect(out.publicOutput).toEqual(Field(16));
+
+        await expect(program.rawMethods.similar(Vector.from_bits(fields([-2, 1, 0, 5]), 8, true))).rejects.toThrow(
+            'Cosine similarity is below the threshold'
+        );
+
+    });
+
+});
@@ -0,0 +1,264 @@
+/*
+ * vector.ts
+ *
+ * Vectors of field elements, with the products and norms used by embedding similarity proofs.
+ *
+ * A Vector holds plain field elements (zero_point 0, scale 1) and, like Matrix, an optional bound on
+ * the absolute value of its entries. It converts to and from 1xN and Nx1 matrices, and the products
+ * are computed by Matrix, so bounds are propagated and checked against the field modulus in the same
+ * way.
+ *
+ * Cosine similarity involves a square root and a division, so it is not computed directly. Instead,
+ * cosine_parts returns the dot product and the product of the squared norms, and
+ * assert_cosine_at_least compares cos(a, b) >= t for a rational threshold t in [0, 1] as
+ * a.b >= 0 and (a.b)^2 * den^2 >= num^2 * |a|^2 * |b|^2.
+ */
+
+import { Field, Provable, ProvablePure } from 'o1js';
+import { Matrix, assert_range, bits_bound, check_plain, max_bigint, value_bits } from './matrix_ops.js';
+import { abs_signed, assert_bits, lookup_bits } from './gadgets.js';
+
+/**
+ * A vector of field elements.
+ */
+export class Vector {
+  values: Field[];
+  bound?: bigint;
+
+  /**
+   * Constructs a new Vector instance. The values are not range-checked; use Vector.from_bits or a
+   * provable type from Vector.Typed for a bound on the entries.
+   *
+   * @param values - The entries of the vector.
+   * @throws Error if the vector is empty.
+   */
+  constructor(values: Field[]) {
+    if (values.length === 0) {
+      throw new Error('Vectors must have at least one entry');
+    }
+    this.values = values;
+  }
+
+  /** The number of entries. */
+  get length(): number {
+    return this.values.length;
+  }
+
+  /**
+   * Creates a Vector with range-checked entries, as Matrix.from_bits.
+   *
+   * @param values - The entries of the vector.
+   * @param bits - The bit width of the values, including the sign for signed values.
+   * @param signed - Whether the values are signed.
+   * @returns A new Vector instance with the resulting bound.
+   */
+  static from_bits(values: Field[], bits: number, signed = false): Vector {
+    return Vector.from_matrix(Matrix.from_bits(values, [1, values.length], bits, signed));
+  }
+
+  /**
+   * Creates a Vector from a 1xN or Nx1 matrix, keeping its bound.
+   *
+   * @param matrix - The matrix, with default quantization parameters.
+   * @returns A new Vector instance.
+   * @throws Error if the matrix is not a row or column, or holds fixed-point or quantized data.
+   */
+  static from_matrix(matrix: Matrix): Vector {
+    if (matrix.shape[0] !== 1 && matrix.shape[1] !== 1) {
+      throw new Error(`Expected a row or column matrix, got ${matrix.shape[0]}x${matrix.shape[1]}`);
+    }
+    check_plain(matrix, 'Vectors only support plain field matrices');
+    let vector = new Vector(matrix.values);
+    vector.bound = matrix.bound;
+    return vector;
+  }
+
+  /**
+   * Returns a provable type for vectors of a fixed length.
+   *
+   * @param length - The number of entries.
+   * @param options - Optional bit width and signedness of the values, as in Vector.from_bits.
+   * @returns The provable vector type.
+   */
+  static Typed(length: number, options: { bits?: number; signed?: boolean } = {}): ProvablePure<Vector, bigint[]> {
+    let { bits, signed = false } = options;
+    let Values = Provable.Array(Field, length);
+    let bound = bits === undefined ? undefined : bits_bound(bits, signed);
+
+    let create = (values: Field[]) => {
+      let vector = new Vector(values);
+      vector.bound = bound;
+      return vector;
+    };
+
+    return {
+      sizeInFields: () => length,
+      toFields: (vector: Vector) => {
+        if (vector.length !== length) {
+          throw new Error(`Expected a vector of length ${length}`);
+        }
+        return vector.values;
+      },
+      toAuxiliary: () => [],
+      fromFields: (fields: Field[]) => create(fields),
+      check(vector: Vector) {
+        if (bits !== undefined) assert_range(vector.values, bits, signed);
+      },
+      toValue: (vector: Vector) => Values.toValue(vector.values),
+      fromValue: (value: bigint[] | Vector) => create(value instanceof Vector ? value.values : Values.fromValue(value)),
+    };
+  }
+
+  /**
+   * Returns the vector as a 1xN matrix.
+   *
+   * @returns A new Matrix instance with the same bound.
+   */
+  to_row(): Matrix {
+    let matrix = new Matrix(this.values, [1, this.length], Field(0), Field(1));
+    matrix.bound = this.bound;
+    return matrix;
+  }
+
+  /**
+   * Returns the vector as an Nx1 matrix.
+   *
+   * @returns A new Matrix instance with the same bound.
+   */
+  to_col(): Matrix {
+    let matrix = new Matrix(this.values, [this.length, 1], Field(0), Field(1));
+    matrix.bound = this.bound;
+    return matrix;
+  }
+
+  /**
+   * Computes the dot product a.b.
+   *
+   * @param other - The second vector.
+   * @returns The dot product.
+   * @throws Error if the lengths differ.
+   */
+  dot(other: Vector): Field {
+    check_lengths(this, other);
+    return this.to_row().mul(other.to_col()).values[0];
+  }
+
+  /**
+   * Computes the outer product a * b^T.
+   *
+   * @param other - The second vector.
+   * @returns A new Matrix instance of shape [a.length, b.length].
+   */
+  outer(other: Vector): Matrix {
+    return this.to_col().mul(other.to_row());
+  }
+
+  /**
+   * Computes the squared Euclidean norm |a|^2 = a.a.
+   *
+   * @returns The squared norm.
+   */
+  squared_norm(): Field {
+    return this.dot(this);
+  }
+
+  /**
+   * Computes the absolute value of every entry with abs_signed, range-checked to the bit length of
+   * the bound.
+   *
+   * @returns A new Vector instance with the same bound.
+   * @throws Error if the vector has no bound.
+   */
+  abs(): Vector {
+    let bits = value_bits(this, 'abs');
+    let result = new Vector(this.values.map((x) => abs_signed(x, bits)));
+    result.bound = this.bound;
+    return result;
+  }
+
+  /**
+   * Computes the L1 norm, the sum of the absolute values of the entries.
+   *
+   * @returns The L1 norm.
+   * @throws Error if the vector has no bound.
+   */
+  l1_norm(): Field {
+    value_bits(this, 'l1_norm');
+    return this.abs().sum();
+  }
+
+  /**
+   * Sums all entries.
+   *
+   * @returns The sum of the entries.
+   */
+  sum(): Field {
+    return this.values.reduce((a, b) => a.add(b));
+  }
+
+  /**
+   * Returns the terms of the cosine similarity cos(a, b) = a.b / sqrt(|a|^2 * |b|^2).
+   *
+   * @param other - The second vector.
+   * @returns The numerator a.b and the squared denominator |a|^2 * |b|^2.
+   */
+  cosine_parts(other: Vector): { numerator: Field; squared_denominator: Field } {
+    return { numerator: this.dot(other), squared_denominator: this.squared_norm().mul(other.squared_norm()) };
+  }
+
+  /**
+   * Asserts that the cosine similarity with another vector is at least num / den.
+   *
+   * @param other - The second vector.
+   * @param num - The numerator of the threshold.
+   * @param den - The denominator of the threshold.
+   * @param message - Optional message for a failing check.
+   * @throws Error if either vector has no bound, the threshold is not in [0, 1] or the comparison
+   *   may overflow the field modulus.
+   */
+  assert_cosine_at_least(other: Vector, num: bigint, den: bigint, message = 'Cosine similarity is below the threshold') {
+    value_bits(this, 'assert_cosine_at_least');
+    value_bits(other, 'assert_cosine_at_least');
+    if (den <= 0n || num < 0n || num > den) {
+      throw new Error('Cosine threshold must lie in [0, 1]');
+    }
+    let n = BigInt(this.length);
+    let dot_bound = n * this.bound! * other.bound!;
+    let norms_bound = n * this.bound! * this.bound! * n * other.bound! * other.bound!;
+    let bits = lookup_bits(max_bigint(dot_bound * dot_bound * den * den, num * num * norms_bound));
+    if (1n << BigInt(bits) >= Field.ORDER / 2n) {
+      throw new Error('Cosine comparison may overflow the field modulus');
+    }
+
+    let { numerator, squared_denominator } = this.cosine_parts(other);
+    assert_bits(numerator, lookup_bits(dot_bound), message);
+    let lhs = numerator.mul(numerator).mul(Field(den * den));
+    assert_bits(lhs.sub(squared_denominator.mul(Field(num * num))), bits, message);
+  }
+
+  /**
+   * Computes the matrix-vector product A * v.
+   *
+   * @param matrix - The matrix A, with default quantization parameters.
+   * @param vector - The vector v, with as many entries as A has columns.
+   * @returns A new Vector instance with one entry per row of A.
+   * @throws Error if the dimensions do not match or A holds fixed-point or quantized data.
+   */
+  static mat_vec(matrix: Matrix, vector: Vector): Vector {
+    check_plain(matrix, 'Vectors only support plain field matrices');
+    return Vector.from_matrix(matrix.mul(vector.to_col()));
+  }
+}
+
+/**
+ * Checks that two vectors have the same length.
+ *
+ * @param a - The first vector.
+ * @param b - The second vector.
+ * @throws Error if the lengths differ.
+ */
+function check_lengths(a: Vector, b: Vector) {
+  if (a.length !== b.length) {
+    throw new Error(`Vectors of length ${a.length} and ${b.length} do not match`);
+  }
+}
@@ -0,0 +1,129 @@
+import { jest } from '@jest/globals';
+import { Matrix } from './matrix_ops';
+import { MatrixContract } from './zkapp';
+import { field_matrix } from './test_utils';
+
+import { AccountUpdate, Field, Mina, Poseidon, Signature } from 'o1js';
+
+jest.useFakeTimers();
+// Every transaction runs the contract methods to build its account updates.
+jest.setTimeout(120_000);
+
+describe('Matrix SmartContract', () => {
+
+    let Contract = MatrixContract([2, 3], { bits: 16, signed: true });
+    let sender: Mina.TestPublicKey;
+    let address: Mina.TestPublicKey;
+    let zkapp: InstanceType<typeof Contract>;
+
+    let state = field_matrix([1, 2, 3, 4, 5, 6], [2, 3]);
+    let salt = Field(12345);
+
+    async function send(f: () => Promise<void>) {
+        let tx = await Mina.transaction(sender, f);
+        await tx.prove();
+        await tx.sign([sender.key]).send().wait();
+    }
+
+    beforeAll(async () => {
+        let local = await Mina.LocalBlockchain({ proofsEnabled: false });
+        Mina.setActiveInstance(local);
+        sender = local.testAccounts[0];
+
+        address = Mina.TestPublicKey.random();
+        zkapp = new Contract(address);
+        let tx = await Mina.transaction(sender, async () => {
+            AccountUpdate.fundNewAccount(sender);
+            await zkapp.deploy();
+        });
+        await tx.sign([sender.key, address.key]).send().wait();
+    });
+
+    it('should commit to a matrix and prove queries', async () => {
+
+        // Only the holder of the contract key can choose the first matrix.
+        let forged = Signature.create(sender.key, [state.commit(salt)]);
+        await expect(send(() => zkapp.initialize(state, salt, forged))).rejects.toThrow(
+            'Initialization is not signed by the contract account'
+        );
+
+        await send(() => zkapp.initialize(state, salt, Signature.create(address.key, [state.commit(salt)])));
+        expect(zkapp.commitment.get()).toEqual(state.commit(salt));
+
+        let x = field_matrix([1, 0, -1], [3, 1]);
+        let y = field_matrix([-2, -2], [2, 1]);
+        await send(() => zkapp.query(state, salt, x, y));
+
+        let events = await zkapp.fetchEvents();
+        expect(events.map((e) => e.type)).toEqual(['queried']);
+        expect(events[0].event.data).toEqual(Poseidon.hash([x.hash(), y.hash()]));
+
+    });
+
+    it('should prove updates of the committed matrix', async () => {
+
+        let a = field_matrix([0, 1, 1, 1], [2, 2]);
+        let b = field_matrix([1, 1, 1, -1, -1, -1], [2, 3]);
+        let new_salt = Field(67890);
+        await send(() => zkapp.update(state, salt, a, b, new_salt));
+
+        let next = a.mul(state).add(b);
+        expect(next.values).toEqual(field_matrix([5, 6, 7, 4, 6, 8], [2, 3]).values);
+        expect(zkapp.commitment.get()).toEqual(next.commit(new_salt));
+        state = next;
+        salt = new_salt;
+
+        // Queries are proven against the new matrix.
+        let x = field_matrix([1, 1, 1], [3, 1]);
+        await send(() => zkapp.query(state, salt, x, field_matrix([18, 18], [2, 1])));
+
+    });
+
+    it('should reject wrong openings and results', async () => {
+
+        let a = Matrix.identity(2);
+        let b = field_matrix([0, 0, 0, 0, 0, 0], [2, 3]);
+        await expect(send(() => zkapp.update(state, Field(1), a, b, Field(2)))).rejects.toThrow(
+            'Matrix does not match the commitment'
+        );
+        let forged = field_matrix([5, 6, 7, 4, 6, 9], [2, 3]);
+        await expect(send(() => zkapp.update(forged, salt, a, b, Field(2)))).rejects.toThrow(
+            'Matrix does not match the commitment'
+        );
+
+        let x = field_matrix([1, 1, 1], [3, 1]);
+        await expect(send(() => zkapp.query(state, salt, x, field_matrix([18, 19], [2, 1])))).rejects.toThrow(
+            'Query result does not match the matrix'
+        );
+
+        // The next state must fit in the range of the state.
+        let large = field_matrix([10000, 0, 0, 10000], [2, 2]);
+        await expect(send(() => zkapp.update(state, salt, large, b, Field(2)))).rejects.toThrow(
+            'Matrix value does not fit in signed 16 bits'
+        );
+
+        // A committed matrix cannot be replaced by initialize.
+        let signature = Signature.create(address.key, [forged.commit(salt)]);
+        await expect(send(() => zkapp.initialize(forged, salt, signature))).rejects.toThrow();
+        expect(zkapp.commitment.get()).toEqual(state.commit(salt));
+
+    });
+
+    it('should build circuits for every method', async () => {
+
+        // Transactions without proofs skip the range checks of the arguments, which the circuits include.
+        let methods = await Contract.analyzeMethods();
+        expect(Object.keys(methods)).toEqual(['initialize', 'update', 'query']);
+
+        let Wide = MatrixContract([2, 3], { bits: 16, signed: true, query_cols: 4 });
+        let wide = await Wide.analyzeMethods();
+        expect(wide.query.rows).toBeGreaterThan(methods.query.rows);
+        expect(wide.update.rows).toEqual(methods.update.rows);
+
+        expect(() => MatrixContract([2, 2], { bits: 8, scale: Field(3) })).toThrow(
+            'MatrixContract does not support quantized matrices'
+        );
+
+    });
+
+});
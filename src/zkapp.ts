@@ -0,0 +1,120 @@
+/*
+ * zkapp.ts
+ *
+ * A SmartContract that keeps a private matrix behind a commitment in on-chain state.
+ *
+ * The contract stores only the salted commitment Poseidon(salt, hash) of the matrix (see
+ * Matrix.commit); the matrix and its salt stay with their owner, and knowing them is what
+ * authorizes a transaction. The methods prove statements about the committed matrix S:
+ *
+ * - initialize: Commits to a first matrix, once. The commitment must be signed with the private key
+ *   of the contract account, so that only its deployer can choose the first matrix.
+ * - update: Replaces S with A * S + B and commits to the result under a new salt, after checking
+ *   that it lies in the range or format of the state like a method argument. A and B are private,
+ *   and an 'updated' event carries Poseidon(hash(A), hash(B)) so that the applied transition can be
+ *   checked by those who know it.
+ * - query: Proves that S * x = y, and emits a 'queried' event with Poseidon(hash(x), hash(y)).
+ *
+ * Contract methods need static argument types, so MatrixContract creates a contract class for a
+ * given shape, like Matrix.Typed creates provable types. The owner computes the next state
+ * off-chain with the same operations, which are computed natively on constant matrices.
+ */
+
+import { Field, Poseidon, Provable, Signature, SmartContract, State, declareMethods, declareState } from 'o1js';
+import { Matrix, MatrixTypeOptions, Shape } from './matrix_ops.js';
+
+/**
+ * Options of MatrixContract.
+ *
+ * - query_cols: The number of columns of the query operands x and y; 1 by default, for vectors.
+ * - The remaining options give the range or format of the state and of A, B and x, as for
+ *   Matrix.Typed. Query results y are not range-checked, since they are compared with S * x. The
+ *   scale option is not supported, since the products need plain or fixed-point values.
+ */
+export interface MatrixContractOptions extends MatrixTypeOptions {
+  query_cols?: number;
+}
+
+/**
+ * Creates a SmartContract class storing a commitment to a matrix of a fixed shape.
+ *
+ * @param shape - The shape [rows, columns] of the stored matrix.
+ * @param options - The shape of queries and the range or format of the values.
+ * @returns The SmartContract class.
+ * @throws Error if the options give a quantization scale.
+ */
+export function MatrixContract(shape: Shape, options: MatrixContractOptions = {}) {
+  let [rows, cols] = shape;
+  let { query_cols = 1, ...type_options } = options;
+  if (type_options.scale !== undefined) {
+    throw new Error('MatrixContract does not support quantized matrices');
+  }
+  let StateMatrix = Matrix.Typed(rows, cols, type_options);
+  let Transition = Matrix.Typed(rows, rows, type_options);
+  let Query = Matrix.Typed(cols, query_cols, type_options);
+  let Result = Matrix.Typed(rows, query_cols);
+
+  class MatrixContract extends SmartContract {
+    commitment = State<Field>();
+
+    events = { updated: Field, queried: Field };
+
+    /**
+     * Commits to the first matrix. Fails once a matrix has been committed, or if the commitment is
+     * not signed with the private key of the contract account.
+     *
+     * @param matrix - The matrix.
+     * @param salt - A random salt, kept secret by the owner.
+     * @param signature - A signature of [matrix.commit(salt)] by the contract account.
+     */
+    async initialize(matrix: Matrix, salt: Field, signature: Signature) {
+      this.commitment.requireEquals(Field(0));
+      let commitment = matrix.commit(salt);
+      signature.verify(this.address, [commitment]).assertTrue('Initialization is not signed by the contract account');
+      this.commitment.set(commitment);
+    }
+
+    /**
+     * Replaces the committed matrix S with A * S + B. Fails if the result is out of the range or
+     * format of the state.
+     *
+     * @param current - The committed matrix S.
+     * @param salt - The salt of the current commitment.
+     * @param a - The left factor A.
+     * @param b - The offset B.
+     * @param new_salt - A fresh random salt for the new commitment.
+     */
+    async update(current: Matrix, salt: Field, a: Matrix, b: Matrix, new_salt: Field) {
+      current.assert_commitment(this.commitment.getAndRequireEquals(), salt);
+      let next = a.mul(current).add(b);
+      StateMatrix.check(next);
+      this.commitment.set(next.commit(new_salt));
+      this.emitEvent('updated', Poseidon.hash([a.hash(), b.hash()]));
+    }
+
+    /**
+     * Proves that the committed matrix S maps x to y.
+     *
+     * @param matrix - The committed matrix S.
+     * @param salt - The salt of the commitment.
+     * @param x - The query operand.
+     * @param y - The claimed result S * x.
+     */
+    async query(matrix: Matrix, salt: Field, x: Matrix, y: Matrix) {
+      matrix.assert_commitment(this.commitment.getAndRequireEquals(), salt);
+      let product = matrix.mul(x);
+      product.values.forEach((value, k) => value.assertEquals(y.values[k], 'Query result does not match the matrix'));
+      this.emitEvent('queried', Poseidon.hash([x.hash(), y.hash()]));
+    }
+  }
+
+  declareState(MatrixContract, { commitment: Field });
+  let methods: Record<string, (Provable<Matrix> | typeof Field | typeof Signature)[]> = {
+    initialize: [StateMatrix, Field, Signature],
+    update: [StateMatrix, Field, Transition, StateMatrix, Field],
+    query: [StateMatrix, Field, Query, Result],
+  };
+  // declareMethods takes Provable<unknown>, to which typed provables only convert explicitly.
+  declareMethods(MatrixContract, methods as Record<string, Provable<unknown>[]>);
+  return MatrixContract;
+}